@@ -0,0 +1,1105 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import {
+  AliasRegistry,
+  BUILTIN_PROFILES,
+  chunkStatements,
+  ColumnMapping,
+  commentText,
+  convertCurriculum,
+  allowedTerms,
+  convertItems,
+  convertJsonLines,
+  ConvertOptions,
+  ConvertResult,
+  createStreamConverter,
+  DEFAULT_DIALECT,
+  describeConflict,
+  detectProfile,
+  detectTermCount,
+  DIALECTS,
+  EducationalLevelData,
+  extendRegistry,
+  findSubjectConflicts,
+  formatDiff,
+  formatIssue,
+  formatMergeConflicts,
+  generateSchema,
+  getDialect,
+  guessMapping,
+  InputItem,
+  isFatal,
+  LevelScript,
+  LintOptions,
+  looksLikeJsonLines,
+  MappingProfile,
+  MERGE_STRATEGIES,
+  MergeStrategy,
+  NormalizedLevel,
+  OutputMode,
+  ProvenanceStore,
+  pushCurriculum,
+  readLevels,
+  readSpreadsheet,
+  resolveTerms,
+  reverseCurriculum,
+  RunSummary,
+  spreadsheetToCurriculum,
+  SqlDialect,
+  SubjectDiff,
+  TargetSchema,
+  TermOptions,
+  transaction,
+  TransactionMode,
+  validateAliasRegistry,
+  validateProfile,
+  validateTarget,
+  validateTermOptions,
+  ValidationIssue,
+} from "../lib";
+import { expandInputs, slugify } from "./files";
+
+const USAGE = `Usage: curriculum-convert <file|directory|glob>... [options]
+
+Convert curriculum extraction JSON files (or scheme-of-work spreadsheets in
+.csv/.xlsx) into SQL INSERT statements. JSON Lines files (.jsonl, .ndjson, one
+item per line) are converted line by line: a bad line is reported with its
+number and the other lines are still converted.
+
+Options:
+  -o, --output <file>       Write the combined SQL script to <file> (default: stdout)
+  -p, --per-level <dir>     Write one SQL script per educational level into <dir>
+  -v, --verification <file> Write the verification query to <file>
+                            (default: next to the output as <name>.verification.sql)
+  -r, --rollback <file>     Write the rollback script to <file>
+                            (default: next to the output as <name>.rollback.sql)
+  --snapshot <file>         JSON export of the curriculum_data rows stored before the
+                            import; the rollback restores them and deletes only new
+                            subjects. Without it the rollback deletes nothing.
+  --delete-without-snapshot Without --snapshot, have the rollback delete every converted
+                            subject, including subjects that existed before the import
+  --diff                    Print what the conversion changes compared to --snapshot
+                            (weeks, books, introduction, alternative names)
+  -d, --dialect <name>      SQL dialect: ${Object.keys(DIALECTS).join(", ")}
+                            (default: ${DEFAULT_DIALECT})
+  --dollar-quote            Write PostgreSQL strings as $$...$$ instead of '...'
+  --terms <n|auto>          Number of terms (semesters, quarters...) per school year,
+                            read from term_1_weeks..term_<n>_weeks (default: 3); auto
+                            uses the highest term found in the inputs
+  --term-names <list>       Comma-separated term names, e.g. "Semester 1,Semester 2"
+  --aliases <file>          JSON alias registry, {"levels": {"Primary 2": ["Basic 2",
+                            "Pry 2"]}, "subjects": {...}}: levels and subjects are
+                            renamed to their canonical names, and subjects that two
+                            inputs give different content are reported
+  --merge <strategy>        Convert all inputs as one batch, combining levels and
+                            subjects that arrive more than once: last-wins,
+                            first-wins, merge-by-week-number or fail-on-conflict;
+                            prints which weeks and books came from which input
+  -m, --mode <mode>         Table layout: jsonb (curriculum_data rows) or relational
+                            (educational_levels, subjects, terms, weeks, books)
+  --target <file>           JSON target schema for the jsonb mode: table, schema,
+                            columns, conflictColumns, extraColumns, updatedAtColumn and
+                            updatedAtExpression (also used by --push and --reverse)
+  -s, --schema              Include the CREATE TABLE / index / trigger DDL
+                            (prepended to --output, or schema.sql in --per-level)
+  -t, --transaction <mode>  Wrap the inserts in transactions: none, script (one for
+                            the whole output) or level (one per educational level)
+  -b, --batch-size <n>      Rows per multi-row INSERT (default: 1)
+  --chunk-size <chars>      Also split the inserts into numbered <name>.part-NN.sql
+                            files of at most <chars> characters each
+  --sheet-mapping <file>    JSON column mapping for .csv/.xlsx inputs, e.g.
+                            {"mapping": {"educational_level": "Class", "term": "Term",
+                            ...}}; guessed from the headers when omitted
+  --profile <name|file>     Mapping profile for JSON inputs that do not use the standard
+                            keys: ${BUILTIN_PROFILES.map((profile) => profile.name).join(", ")}, a
+                            profile JSON file, or auto to pick the best match per file
+  --provenance <columns|table>
+                            Record the run_id, source file, import time and usage stats
+                            of each level: as extra curriculum_data columns (jsonb mode)
+                            or as rows of the curriculum_imports audit table
+  --lint-config <file>      JSON file with content check options (rules, minWeeksPerTerm,
+                            maxWeeksPerTerm, minBreakdownLength, fixOrder, blockOnErrors)
+  --fix-weeks <sort|renumber>
+                            Sort (and optionally renumber) weeks within each term
+  --block-on-lint-errors    Fail conversion when content checks report errors
+  --skip-lint               Do not run content checks
+  --push <url>              Upsert the converted rows into curriculum_data through a
+                            Supabase (https://<project>.supabase.co/rest/v1) or
+                            PostgREST endpoint. The API key is read from the
+                            CURRICULUM_PUSH_KEY environment variable.
+  --dry-run                 With --push, only report which rows would be inserted
+                            or updated
+  --reverse                 Read curriculum_data rows back into curriculum JSON. Inputs
+                            are JSON or CSV exports of the table, or insert scripts
+                            written by this tool; the JSON goes to --output or stdout
+  --stream                  Convert each file item by item while reading it, for inputs
+                            too large to load at once (JSON arrays or JSON Lines);
+                            needs --output and writes the same three scripts
+  -q, --quiet               Do not print auto-fixed or dropped validation issues
+  -h, --help                Show this help
+`;
+
+interface FileResult {
+  file: string;
+  scripts: LevelScript[];
+  levels: NormalizedLevel[];
+  diff: SubjectDiff[];
+}
+
+const log = (message: string) => {
+  process.stderr.write(`${message}\n`);
+};
+
+const writeFile = (file: string, content: string) => {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  fs.writeFileSync(file, content.endsWith("\n") ? content : `${content}\n`);
+  log(`Wrote ${file}`);
+};
+
+// Issues --quiet leaves out: those that were fixed or dropped automatically
+const handledIssue = (issue: ValidationIssue): boolean => issue.resolution === 'auto-fixed' || issue.resolution === 'dropped';
+
+// Scheme-of-work spreadsheets become curriculum JSON through the column
+// mapping (guessed from the headers unless --sheet-mapping is given)
+const readSpreadsheetFile = async (file: string, mapping: ColumnMapping | undefined, quiet: boolean): Promise<unknown> => {
+  const table = await readSpreadsheet(file, fs.readFileSync(file));
+  const { levels, issues, errors } = spreadsheetToCurriculum(table, mapping || guessMapping(table.headers));
+  issues
+    .filter((issue) => !quiet || !handledIssue(issue))
+    .forEach((issue) => log(`  ${file}: ${formatIssue(issue)}`));
+  if (errors.length > 0) throw new Error(errors.join("; "));
+  return levels;
+};
+
+const logRuns = (file: string, runs: RunSummary[]) => {
+  runs.forEach((run) => {
+    const usage = [
+      run.pages_extracted === null ? "" : `${run.pages_extracted} page(s)`,
+      run.output_tokens === null ? "" : `${run.output_tokens} output token(s)`,
+    ].filter((part) => part);
+    log(`  ${file}: run ${run.run_id || "(no run_id)"}: ${run.subjects} subject(s)${usage.length > 0 ? `, ${usage.join(", ")}` : ""}`);
+  });
+};
+
+// The values of the lines of a JSON Lines file that parse on their own
+const parseLines = (text: string): unknown[] => {
+  const values: unknown[] = [];
+  text.split(/\r?\n/).forEach((line) => {
+    if (!line.trim()) return;
+    try {
+      values.push(JSON.parse(line));
+    } catch (error) {
+      // Reported with its line number by convertJsonLines
+    }
+  });
+  return values;
+};
+
+interface InputFile {
+  spreadsheet: boolean;
+  jsonLines: boolean;
+  text: string;
+  // The parsed JSON, the lines that parse of a JSON Lines file, or the
+  // levels read from a spreadsheet
+  parsed: unknown;
+}
+
+// Throws when the file cannot be parsed
+const readInputFile = async (file: string, quiet: boolean, sheetMapping?: ColumnMapping): Promise<InputFile> => {
+  if (/\.(csv|xlsx)$/i.test(file)) {
+    return { spreadsheet: true, jsonLines: false, text: "", parsed: await readSpreadsheetFile(file, sheetMapping, quiet) };
+  }
+  const text = fs.readFileSync(file, "utf8");
+  const jsonLines = /\.(jsonl|ndjson)$/i.test(file) || looksLikeJsonLines(text);
+  // Profile detection looks at the lines that parse
+  return { spreadsheet: false, jsonLines, text, parsed: jsonLines ? parseLines(text) : JSON.parse(text) };
+};
+
+// Calls `visit` with the parsed content of every readable input and the
+// options it is converted with
+const scanFiles = async (
+  files: string[],
+  options: ConvertOptions,
+  visit: (parsed: unknown, fileOptions: ConvertOptions, index: number) => void,
+  sheetMapping?: ColumnMapping,
+  autoProfile?: boolean,
+) => {
+  for (let i = 0; i < files.length; i++) {
+    try {
+      const { spreadsheet, parsed } = await readInputFile(files[i], true, sheetMapping);
+      const detected = autoProfile && !spreadsheet ? detectProfile(parsed) : null;
+      const profile = spreadsheet ? undefined : detected ? detected.profile : options.profile;
+      visit(parsed, { ...options, profile }, i);
+    } catch (error) {
+      // Reported when the file is converted
+    }
+  }
+};
+
+// The highest term of any readable input, for --terms auto. Every file is then
+// converted with that many terms, so their scripts fit the same table.
+const detectTerms = async (
+  files: string[],
+  options: ConvertOptions,
+  sheetMapping?: ColumnMapping,
+  autoProfile?: boolean,
+): Promise<number> => {
+  let highest = 0;
+  await scanFiles(files, options, (parsed, fileOptions) => {
+    highest = Math.max(highest, detectTermCount(parsed, fileOptions));
+  }, sheetMapping, autoProfile);
+  return highest;
+};
+
+// The --aliases registry with the alternative names of every readable level
+// added, so each file writes the same alias list for a level. Subjects that
+// files give different content are reported here, as each file is converted
+// on its own.
+const collectAliases = async (
+  files: string[],
+  options: ConvertOptions,
+  sheetMapping?: ColumnMapping,
+  autoProfile?: boolean,
+): Promise<AliasRegistry> => {
+  const levels: NormalizedLevel[] = [];
+  const levelFiles: string[] = [];
+  await scanFiles(files, options, (parsed, fileOptions, index) => {
+    readLevels(parsed, fileOptions).forEach((level) => {
+      levels.push(level);
+      levelFiles.push(files[index]);
+    });
+  }, sheetMapping, autoProfile);
+
+  // Printed even with --quiet: the later file's upsert overwrites the rows
+  findSubjectConflicts(levels)
+    .filter((conflict) => levelFiles[conflict.first] !== levelFiles[conflict.second])
+    .forEach((conflict) => {
+      log(`  ${levelFiles[conflict.second]}: ⚠️ ${describeConflict(conflict, levelFiles[conflict.first])}`);
+    });
+  return extendRegistry(options.aliases || {}, levels);
+};
+
+const convertFile = async (
+  file: string,
+  options: ConvertOptions,
+  quiet: boolean,
+  sheetMapping?: ColumnMapping,
+  autoProfile?: boolean,
+): Promise<{ result: FileResult | null, failed: boolean }> => {
+  const spreadsheet = /\.(csv|xlsx)$/i.test(file);
+  let input: InputFile;
+  try {
+    input = await readInputFile(file, quiet, sheetMapping);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    log(`✖ ${file}: ${spreadsheet ? "Unreadable spreadsheet" : "Invalid JSON"}: ${message}`);
+    return { result: null, failed: true };
+  }
+  const { text, jsonLines, parsed } = input;
+
+  // Spreadsheets are already in the standard layout
+  let fileOptions: ConvertOptions = {
+    ...options,
+    profile: spreadsheet ? undefined : options.profile,
+    provenance: { ...options.provenance, sourceFile: path.basename(file) },
+  };
+  if (autoProfile && !spreadsheet) {
+    const detected = detectProfile(parsed);
+    if (detected && detected.profile.name !== "standard") {
+      log(`  ${file}: using the '${detected.profile.name}' mapping profile (${Math.round(detected.score * 100)}% match)`);
+      fileOptions = { ...fileOptions, profile: detected.profile };
+    }
+  }
+
+  let converted: ConvertResult;
+  if (jsonLines) {
+    const linesResult = convertJsonLines(text, fileOptions);
+    const { lineCounts } = linesResult;
+    log(`  ${file}: ${linesResult.lines.length} line(s): ${lineCounts.converted} converted, ${lineCounts['auto-fixed']} auto-fixed, ${lineCounts.failed} failed`);
+    converted = linesResult;
+  } else {
+    converted = convertCurriculum(parsed, fileOptions);
+  }
+  const { scripts, levels, diff, issues, errors, runs } = converted;
+
+  issues
+    .filter((issue) => !isFatal(issue) && (!quiet || !handledIssue(issue)))
+    .forEach((issue) => log(`  ${file}: ${formatIssue(issue)}`));
+  errors.forEach((error) => log(`✖ ${file}: ${error}`));
+
+  if (errors.length > 0 && !fileOptions.profile && !spreadsheet) {
+    const detected = detectProfile(parsed);
+    if (detected && detected.profile.name !== "standard") {
+      log(`  ${file}: the input looks like the '${detected.profile.name}' layout; try --profile ${detected.profile.name}`);
+    }
+  }
+
+  if (errors.length === 0) {
+    log(`✔ ${file}: ${scripts.length} educational level(s) converted`);
+  } else if (jsonLines && scripts.length > 0) {
+    log(`  ${file}: the SQL of the ${scripts.length} converted level(s) is still written`);
+  }
+  if (options.provenance && options.provenance.store) {
+    logRuns(file, runs);
+  }
+
+  return { result: { file, scripts, levels, diff }, failed: errors.length > 0 };
+};
+
+// --merge: the items of every file converted as one batch, so copies of a level
+// in different files are combined. Item paths start with the file name.
+const convertMerged = async (
+  files: string[],
+  options: ConvertOptions,
+  quiet: boolean,
+  sheetMapping?: ColumnMapping,
+  autoProfile?: boolean,
+): Promise<{ result: FileResult | null, failures: number }> => {
+  const items: InputItem[] = [];
+  // Files with a problem of their own, besides those of the batch
+  const failedFiles: string[] = [];
+
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    const spreadsheet = /\.(csv|xlsx)$/i.test(file);
+    let input: InputFile;
+    try {
+      input = await readInputFile(file, quiet, sheetMapping);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      log(`✖ ${file}: ${spreadsheet ? "Unreadable spreadsheet" : "Invalid JSON"}: ${message}`);
+      failedFiles.push(file);
+      continue;
+    }
+
+    const itemOptions: ConvertOptions = {
+      profile: spreadsheet ? undefined : options.profile,
+      provenance: { ...options.provenance, sourceFile: path.basename(file) },
+    };
+    if (autoProfile && !spreadsheet) {
+      const detected = detectProfile(input.parsed);
+      if (detected && detected.profile.name !== "standard") {
+        log(`  ${file}: using the '${detected.profile.name}' mapping profile (${Math.round(detected.score * 100)}% match)`);
+        itemOptions.profile = detected.profile;
+      }
+    }
+
+    if (input.jsonLines) {
+      input.text.split(/\r?\n/).forEach((line, index) => {
+        if (!line.trim()) return;
+        try {
+          items.push({ value: JSON.parse(line), path: `${file} line ${index + 1}`, label: `on line ${index + 1} of ${file}`, options: itemOptions });
+        } catch (error) {
+          log(`✖ ${file}: line ${index + 1}: Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}`);
+          if (failedFiles.indexOf(file) === -1) failedFiles.push(file);
+        }
+      });
+    } else {
+      const values = Array.isArray(input.parsed) ? input.parsed : [input.parsed];
+      values.forEach((value, index) => {
+        const itemPath = Array.isArray(input.parsed) ? `${file}[${index}]` : file;
+        items.push({ value, path: itemPath, label: `at index ${index} of ${file}`, options: itemOptions });
+      });
+    }
+  }
+
+  const { scripts, levels, diff, issues, errors, runs, conflicts } = convertItems(items, options);
+  issues
+    .filter((issue) => !isFatal(issue) && (!quiet || !handledIssue(issue)))
+    .forEach((issue) => log(`  ${formatIssue(issue)}`));
+  errors.forEach((error) => log(`✖ ${error}`));
+  if (conflicts.length > 0) {
+    log(formatMergeConflicts(conflicts));
+  }
+  if (errors.length === 0) {
+    log(`✔ ${items.length} item(s) merged into ${scripts.length} educational level(s)`);
+  }
+  if (options.provenance && options.provenance.store) {
+    logRuns("merged", runs);
+  }
+
+  // Failed items are counted by the file they came from, the longest name
+  // that starts their path
+  errors.forEach((error) => {
+    const file = files
+      .filter((candidate) => error.indexOf(candidate) === 0)
+      .sort((a, b) => b.length - a.length)[0];
+    if (file && failedFiles.indexOf(file) === -1) failedFiles.push(file);
+  });
+  const failures = errors.length > 0 ? Math.max(failedFiles.length, 1) : failedFiles.length;
+  const result = items.length > 0 ? { file: `${files.join(", ")} (merged)`, scripts, levels, diff } : null;
+  return { result, failures };
+};
+
+// One transaction around the rollback statements of all the given scripts
+const rollbackScript = (scripts: LevelScript[], options: ConvertOptions): string => {
+  return transaction(getDialect(options.dialect), scripts.map((script) => script.rollback)).join("\n");
+};
+
+// Writes <base>.part-01.sql, <base>.part-02.sql, ... when --chunk-size is set
+const writeChunks = (scripts: LevelScript[], options: ConvertOptions, base: string) => {
+  if (!options.chunkSize || scripts.length === 0) return;
+
+  const chunks = chunkStatements(scripts.map((script) => script.statements), getDialect(options.dialect), {
+    maxLength: options.chunkSize,
+    transaction: options.transaction,
+  });
+  const digits = Math.max(2, String(chunks.length).length);
+  chunks.forEach((chunk, index) => {
+    let number = String(index + 1);
+    while (number.length < digits) number = `0${number}`;
+    writeFile(`${base}.part-${number}.sql`, chunk);
+  });
+};
+
+const writeCombined = (
+  results: FileResult[],
+  schema: string,
+  options: ConvertOptions,
+  output: string | undefined,
+  verificationFile: string | undefined,
+  rollbackFile: string | undefined,
+) => {
+  const inserts = results.map(({ file, scripts }) =>
+    [`-- Source: ${commentText(file)}`, ...scripts.map((script) => script.sql)].join("\n")
+  );
+  const sql = [
+    schema,
+    ...(options.transaction === 'script' && inserts.length > 0
+      ? transaction(getDialect(options.dialect), inserts)
+      : inserts),
+  ]
+    .filter((part) => part)
+    .join("\n");
+  const verification = results
+    .map(({ scripts }) => scripts.map((script) => script.verification).join("\n"))
+    .filter((query) => query)
+    .join("\n\n");
+  const scripts = results.reduce<LevelScript[]>((all, result) => [...all, ...result.scripts], []);
+  const rollback = scripts.length > 0 ? rollbackScript(scripts, options) : "";
+
+  if (!output) {
+    process.stdout.write(`${sql}\n`);
+    if (verificationFile) {
+      writeFile(verificationFile, verification);
+    } else {
+      process.stdout.write(`\n${verification}\n`);
+    }
+    if (rollbackFile) {
+      writeFile(rollbackFile, rollback);
+    }
+    return;
+  }
+
+  writeFile(output, sql);
+  writeFile(verificationFile || output.replace(/(\.sql)?$/i, ".verification.sql"), verification);
+  writeFile(rollbackFile || output.replace(/(\.sql)?$/i, ".rollback.sql"), rollback);
+  writeChunks(scripts, options, output.replace(/(\.sql)?$/i, ""));
+};
+
+const writePerLevel = (results: FileResult[], schema: string, options: ConvertOptions, dir: string) => {
+  const levels = new Map<string, LevelScript[]>();
+
+  if (schema) {
+    writeFile(path.join(dir, "schema.sql"), schema);
+  }
+
+  results.forEach(({ scripts }) => {
+    scripts.forEach((script) => {
+      const slug = slugify(script.educational_level);
+      levels.set(slug, [...(levels.get(slug) || []), script]);
+    });
+  });
+
+  levels.forEach((scripts, slug) => {
+    const sql = scripts.map((script) => script.sql);
+    writeFile(
+      path.join(dir, `${slug}.sql`),
+      (options.transaction === 'script' ? transaction(getDialect(options.dialect), sql) : sql).join("\n"),
+    );
+    writeFile(
+      path.join(dir, `${slug}.verification.sql`),
+      scripts.map((script) => script.verification).join("\n\n"),
+    );
+    writeFile(path.join(dir, `${slug}.rollback.sql`), rollbackScript(scripts, options));
+    writeChunks(scripts, options, path.join(dir, slug));
+  });
+};
+
+interface StreamOutputs {
+  sql: fs.WriteStream;
+  verification: fs.WriteStream;
+  rollback: fs.WriteStream;
+}
+
+const openOutput = (file: string): fs.WriteStream => {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  return fs.createWriteStream(file);
+};
+
+// Waits until a file stream has flushed what it buffered
+const drained = (stream: fs.WriteStream): Promise<void> => {
+  return stream.writableNeedDrain ? new Promise((resolve) => stream.once("drain", () => resolve())) : Promise.resolve();
+};
+
+const closeOutput = (stream: fs.WriteStream, file: string): Promise<void> => {
+  return new Promise((resolve) => stream.end(() => {
+    log(`Wrote ${file}`);
+    resolve();
+  }));
+};
+
+// --stream: converts a file while reading it, writing each level's SQL as soon
+// as it is generated. Progress is logged every 10% of the file.
+const streamFile = async (
+  file: string,
+  options: ConvertOptions,
+  outputs: StreamOutputs,
+  quiet: boolean,
+): Promise<boolean> => {
+  const total = fs.statSync(file).size;
+  let verificationWritten = false;
+  outputs.sql.write(`-- Source: ${commentText(file)}\n`);
+  const converter = createStreamConverter(
+    { ...options, includeSchema: false, provenance: { ...options.provenance, sourceFile: path.basename(file) } },
+    {
+      sql: (text) => outputs.sql.write(text),
+      verification: (text) => {
+        outputs.verification.write(verificationWritten || !text.startsWith("\n") ? text : text.slice(1));
+        verificationWritten = true;
+      },
+      rollback: (text) => outputs.rollback.write(text),
+      issue: (issue) => {
+        if (!isFatal(issue) && (!quiet || !handledIssue(issue))) log(`  ${file}: ${formatIssue(issue)}`);
+      },
+    },
+    /\.(jsonl|ndjson)$/i.test(file) ? 'json-lines' : 'json',
+  );
+
+  const input = fs.createReadStream(file, { encoding: "utf8", highWaterMark: 1024 * 1024 });
+  let reported = 0;
+  try {
+    for await (const chunk of input) {
+      converter.write(chunk as string);
+      await Promise.all([drained(outputs.sql), drained(outputs.verification), drained(outputs.rollback)]);
+      const percent = total > 0 ? Math.floor((input.bytesRead / total) * 10) * 10 : 100;
+      if (!quiet && percent > reported && percent < 100) {
+        reported = percent;
+        log(`  ${file}: ${percent}% read, ${converter.progress().levels} educational level(s) converted`);
+      }
+    }
+  } catch (error) {
+    log(`✖ ${file}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    return false;
+  }
+
+  const summary = converter.end();
+  outputs.sql.write("\n");
+  outputs.rollback.write(summary.levels > 0 ? "\n" : "");
+  if (verificationWritten) outputs.verification.write("\n\n");
+
+  summary.errors.forEach((error) => log(`✖ ${file}: ${error}`));
+  log(`${summary.errors.length > 0 ? "✖" : "✔"} ${file}: ${summary.levels} educational level(s) converted from ${summary.items} item(s)`);
+  if (options.provenance && options.provenance.store) {
+    logRuns(file, summary.runs);
+  }
+  return summary.errors.length === 0;
+};
+
+const streamFiles = async (
+  files: string[],
+  schema: string,
+  options: ConvertOptions,
+  output: string,
+  verificationFile: string | undefined,
+  rollbackFile: string | undefined,
+  quiet: boolean,
+): Promise<number> => {
+  const names = {
+    sql: output,
+    verification: verificationFile || output.replace(/(\.sql)?$/i, ".verification.sql"),
+    rollback: rollbackFile || output.replace(/(\.sql)?$/i, ".rollback.sql"),
+  };
+  const outputs: StreamOutputs = {
+    sql: openOutput(names.sql),
+    verification: openOutput(names.verification),
+    rollback: openOutput(names.rollback),
+  };
+  if (schema) outputs.sql.write(`${schema}\n`);
+
+  let failures = 0;
+  for (let i = 0; i < files.length; i++) {
+    if (!(await streamFile(files[i], options, outputs, quiet))) failures++;
+  }
+
+  await closeOutput(outputs.sql, names.sql);
+  await closeOutput(outputs.verification, names.verification);
+  await closeOutput(outputs.rollback, names.rollback);
+
+  if (failures > 0) {
+    log(`${failures} of ${files.length} file(s) had items that failed to convert; the others were written`);
+    return 1;
+  }
+  return 0;
+};
+
+// --reverse: rows from exports or insert scripts back to one curriculum JSON file
+const reverseFiles = (
+  positionals: string[],
+  output: string | undefined,
+  quiet: boolean,
+  target?: TargetSchema,
+  terms?: TermOptions,
+): number => {
+  let files: string[];
+  try {
+    files = expandInputs(positionals, [".json", ".csv", ".sql"]);
+  } catch (error) {
+    log(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+
+  if (files.length === 0) {
+    log("No input files found");
+    return 1;
+  }
+
+  const levels: EducationalLevelData[] = [];
+  let failures = 0;
+  files.forEach((file) => {
+    const { format, levels: fileLevels, issues, errors } = reverseCurriculum(fs.readFileSync(file, "utf8"), { target, terms });
+    issues
+      .filter((issue) => !isFatal(issue) && (!quiet || !handledIssue(issue)))
+      .forEach((issue) => log(`  ${file}: ${formatIssue(issue)}`));
+    errors.forEach((error) => log(`✖ ${file}: ${error}`));
+    if (errors.length > 0) {
+      failures++;
+      return;
+    }
+    log(`✔ ${file}: ${fileLevels.length} educational level(s) read from ${format}`);
+    levels.push(...fileLevels);
+  });
+
+  if (failures > 0) {
+    log(`${failures} of ${files.length} file(s) failed to read back`);
+    return 1;
+  }
+
+  const json = JSON.stringify(levels, null, 2);
+  if (output) {
+    writeFile(output, json);
+  } else {
+    process.stdout.write(`${json}\n`);
+  }
+  return 0;
+};
+
+// undefined when the flag is absent, null when it is not a positive integer
+const positiveInteger = (value: string | undefined): number | null | undefined => {
+  if (value === undefined) return undefined;
+  return /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : null;
+};
+
+const pushLevels = async (
+  results: FileResult[],
+  url: string,
+  dryRun: boolean,
+  target?: TargetSchema,
+  provenance?: ProvenanceStore,
+): Promise<number> => {
+  const levels = results.reduce<NormalizedLevel[]>((all, result) => [...all, ...result.levels], []);
+  const { inserted, updated, pushed, recorded, errors } = await pushCurriculum(
+    levels,
+    { url, apiKey: process.env.CURRICULUM_PUSH_KEY, target, provenance },
+    { dryRun },
+  );
+
+  inserted.forEach((label) => log(`  ${dryRun ? "would insert" : "insert"}: ${label}`));
+  updated.forEach((label) => log(`  ${dryRun ? "would update" : "update"}: ${label}`));
+  errors.forEach((error) => log(`✖ push: ${error}`));
+
+  if (errors.length > 0) {
+    log(`Push failed after writing ${pushed} row(s)`);
+    return 1;
+  }
+  if (dryRun) {
+    log(`Dry run: ${inserted.length} row(s) would be inserted, ${updated.length} updated`);
+  } else {
+    log(`Pushed ${pushed} row(s) to ${url}${recorded > 0 ? `, recorded ${recorded} import(s)` : ""}`);
+  }
+  return 0;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  let args;
+  try {
+    args = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        output: { type: "string", short: "o" },
+        "per-level": { type: "string", short: "p" },
+        verification: { type: "string", short: "v" },
+        rollback: { type: "string", short: "r" },
+        snapshot: { type: "string" },
+        "delete-without-snapshot": { type: "boolean" },
+        target: { type: "string" },
+        diff: { type: "boolean" },
+        dialect: { type: "string", short: "d", default: DEFAULT_DIALECT },
+        "dollar-quote": { type: "boolean" },
+        terms: { type: "string" },
+        "term-names": { type: "string" },
+        aliases: { type: "string" },
+        merge: { type: "string" },
+        mode: { type: "string", short: "m", default: "jsonb" },
+        schema: { type: "boolean", short: "s" },
+        transaction: { type: "string", short: "t", default: "none" },
+        "batch-size": { type: "string", short: "b" },
+        "chunk-size": { type: "string" },
+        "lint-config": { type: "string" },
+        "fix-weeks": { type: "string" },
+        "block-on-lint-errors": { type: "boolean" },
+        "skip-lint": { type: "boolean" },
+        push: { type: "string" },
+        "dry-run": { type: "boolean" },
+        reverse: { type: "boolean" },
+        "sheet-mapping": { type: "string" },
+        profile: { type: "string" },
+        provenance: { type: "string" },
+        stream: { type: "boolean" },
+        quiet: { type: "boolean", short: "q" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    log(error instanceof Error ? error.message : String(error));
+    log(USAGE);
+    return 2;
+  }
+
+  const { values, positionals } = args;
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  if (positionals.length === 0) {
+    log(USAGE);
+    return 2;
+  }
+
+  let terms: TermOptions | undefined;
+  if (values.terms !== undefined || values["term-names"] !== undefined) {
+    const count = values.terms === "auto" ? 'auto' : positiveInteger(values.terms);
+    if (count === null) {
+      log(`Unsupported --terms '${values.terms}'. Expected a positive whole number or auto`);
+      return 2;
+    }
+    terms = {
+      count,
+      names: values["term-names"] === undefined ? undefined : values["term-names"].split(",").map((name) => name.trim()),
+    };
+    const termErrors = validateTermOptions(terms);
+    if (termErrors.length > 0) {
+      log(`Invalid terms: ${termErrors.join("; ")}`);
+      return 2;
+    }
+  }
+
+  let aliases: AliasRegistry | undefined;
+  try {
+    if (values.aliases) {
+      aliases = JSON.parse(fs.readFileSync(values.aliases, "utf8"));
+    }
+  } catch (error) {
+    log(`Could not read alias registry: ${error instanceof Error ? error.message : String(error)}`);
+    return 2;
+  }
+  const aliasErrors = aliases === undefined ? [] : validateAliasRegistry(aliases);
+  if (aliasErrors.length > 0) {
+    log(`Invalid alias registry ${values.aliases}: ${aliasErrors.join("; ")}`);
+    return 2;
+  }
+
+  let target: TargetSchema | undefined;
+  try {
+    if (values.target) {
+      target = JSON.parse(fs.readFileSync(values.target, "utf8"));
+    }
+  } catch (error) {
+    log(`Could not read target schema: ${error instanceof Error ? error.message : String(error)}`);
+    return 2;
+  }
+  const targetErrors = validateTarget(target, allowedTerms(terms));
+  if (targetErrors.length > 0) {
+    log(`Invalid target schema ${values.target}: ${targetErrors.join("; ")}`);
+    return 2;
+  }
+
+  if (values.reverse) {
+    return reverseFiles(positionals, values.output, Boolean(values.quiet), target, terms);
+  }
+
+  const dialect = values.dialect as SqlDialect;
+  if (!DIALECTS[dialect]) {
+    log(`Unsupported dialect '${dialect}'. Expected one of: ${Object.keys(DIALECTS).join(", ")}`);
+    return 2;
+  }
+  if (values["dollar-quote"] && dialect !== 'postgresql') {
+    log("--dollar-quote is only available for the postgresql dialect");
+    return 2;
+  }
+
+  const outputMode = values.mode as OutputMode;
+  if (outputMode !== 'jsonb' && outputMode !== 'relational') {
+    log(`Unsupported mode '${outputMode}'. Expected jsonb or relational`);
+    return 2;
+  }
+
+  const transactionMode = values.transaction as TransactionMode;
+  if (transactionMode !== 'none' && transactionMode !== 'script' && transactionMode !== 'level') {
+    log(`Unsupported transaction mode '${transactionMode}'. Expected none, script or level`);
+    return 2;
+  }
+
+  const batchSize = positiveInteger(values["batch-size"]);
+  const chunkSize = positiveInteger(values["chunk-size"]);
+  if (batchSize === null || chunkSize === null) {
+    log("--batch-size and --chunk-size must be positive whole numbers");
+    return 2;
+  }
+
+  if (chunkSize && !values.output && !values["per-level"]) {
+    log("--chunk-size needs --output or --per-level to name the part files");
+    return 2;
+  }
+
+  if (values.diff && !values.snapshot) {
+    log("--diff needs --snapshot with the rows currently stored");
+    return 2;
+  }
+
+  const provenanceStore = values.provenance as ProvenanceStore | undefined;
+  if (provenanceStore !== undefined && provenanceStore !== 'columns' && provenanceStore !== 'table') {
+    log(`Unsupported provenance store '${provenanceStore}'. Expected columns or table`);
+    return 2;
+  }
+  if (provenanceStore === 'columns' && outputMode !== 'jsonb') {
+    log("--provenance columns needs the jsonb mode; use --provenance table instead");
+    return 2;
+  }
+
+  if (values.push && outputMode !== 'jsonb') {
+    log("--push only supports the jsonb (curriculum_data) mode");
+    return 2;
+  }
+  if (values["dry-run"] && !values.push) {
+    log("--dry-run needs --push");
+    return 2;
+  }
+
+  if (values.stream) {
+    // Each of these needs the whole input, or every level, at once
+    const conflicting = ["per-level", "chunk-size", "diff", "push", "sheet-mapping", "merge"]
+      .filter((name) => values[name as keyof typeof values] !== undefined)
+      .map((name) => `--${name}`);
+    if (values.profile === "auto") conflicting.push("--profile auto");
+    if (values.terms === "auto") conflicting.push("--terms auto");
+    if (!values.output) {
+      log("--stream needs --output to write the scripts to");
+      return 2;
+    }
+    if (conflicting.length > 0) {
+      log(`--stream cannot be combined with ${conflicting.join(", ")}`);
+      return 2;
+    }
+  }
+
+  const merge = values.merge as MergeStrategy | undefined;
+  if (merge !== undefined && MERGE_STRATEGIES.indexOf(merge) === -1) {
+    log(`Unsupported merge strategy '${merge}'. Expected one of: ${MERGE_STRATEGIES.join(", ")}`);
+    return 2;
+  }
+
+  let lint: LintOptions = {};
+  try {
+    if (values["lint-config"]) {
+      lint = JSON.parse(fs.readFileSync(values["lint-config"], "utf8"));
+    }
+  } catch (error) {
+    log(`Could not read lint config: ${error instanceof Error ? error.message : String(error)}`);
+    return 2;
+  }
+
+  // A saved preset ({ name, mapping }) or a bare mapping object
+  let sheetMapping: ColumnMapping | undefined;
+  try {
+    if (values["sheet-mapping"]) {
+      const preset = JSON.parse(fs.readFileSync(values["sheet-mapping"], "utf8"));
+      sheetMapping = preset && preset.mapping ? preset.mapping : preset;
+    }
+  } catch (error) {
+    log(`Could not read sheet mapping: ${error instanceof Error ? error.message : String(error)}`);
+    return 2;
+  }
+
+  // A built-in profile by name, or a profile saved as JSON
+  const profileName = values.profile;
+  let profile: MappingProfile | undefined;
+  if (profileName && profileName !== "auto") {
+    profile = BUILTIN_PROFILES.filter((candidate) => candidate.name === profileName)[0];
+    if (!profile) {
+      try {
+        const loaded = JSON.parse(fs.readFileSync(profileName, "utf8"));
+        const problems = validateProfile(loaded);
+        if (problems.length > 0) {
+          log(`Invalid mapping profile ${profileName}: ${problems.join("; ")}`);
+          return 2;
+        }
+        profile = loaded;
+      } catch (error) {
+        log(`Could not read mapping profile: ${error instanceof Error ? error.message : String(error)}`);
+        return 2;
+      }
+    }
+  }
+
+  let snapshot: unknown;
+  try {
+    if (values.snapshot) {
+      snapshot = JSON.parse(fs.readFileSync(values.snapshot, "utf8"));
+    }
+  } catch (error) {
+    log(`Could not read snapshot: ${error instanceof Error ? error.message : String(error)}`);
+    return 2;
+  }
+
+  const fixWeeks = values["fix-weeks"];
+  if (fixWeeks) {
+    if (fixWeeks !== 'sort' && fixWeeks !== 'renumber') {
+      log(`Unsupported --fix-weeks '${fixWeeks}'. Expected sort or renumber`);
+      return 2;
+    }
+    lint.fixOrder = fixWeeks;
+  }
+  if (values["block-on-lint-errors"]) {
+    lint.blockOnErrors = true;
+  }
+
+  const options: ConvertOptions = {
+    dialect,
+    stringLiterals: values["dollar-quote"] ? 'dollar' : 'quoted',
+    outputMode,
+    terms,
+    aliases,
+    merge,
+    target,
+    lint: values["skip-lint"] ? false : lint,
+    snapshot,
+    deleteWithoutSnapshot: values["delete-without-snapshot"],
+    transaction: transactionMode,
+    batchSize,
+    chunkSize,
+    profile,
+    // Every file of the run shares one import time
+    provenance: { store: provenanceStore, importedAt: new Date().toISOString() },
+  };
+
+  let files: string[];
+  try {
+    files = expandInputs(positionals, [".json", ".jsonl", ".ndjson", ".csv", ".xlsx"]);
+  } catch (error) {
+    log(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+
+  if (files.length === 0) {
+    log("No input files found");
+    return 1;
+  }
+
+  if (terms && terms.count === 'auto') {
+    const detected = await detectTerms(files, options, sheetMapping, profileName === "auto");
+    options.terms = { ...terms, count: resolveTerms(terms, detected).keys.length };
+    log(`Detected ${options.terms.count} term(s)`);
+  }
+  // Streaming reads each item once, so its levels are only renamed; a merged
+  // batch shares alias lists by itself
+  if (aliases && !values.stream && !merge) {
+    options.aliases = await collectAliases(files, options, sheetMapping, profileName === "auto");
+  }
+
+  const schema = values.schema ? generateSchema(options) : "";
+
+  if (values.stream) {
+    const spreadsheets = files.filter((file) => /\.(csv|xlsx)$/i.test(file));
+    if (spreadsheets.length > 0) {
+      log(`--stream reads JSON only: ${spreadsheets.join(", ")}`);
+      return 2;
+    }
+    return streamFiles(
+      files,
+      schema,
+      options,
+      values.output as string,
+      values.verification,
+      values.rollback,
+      Boolean(values.quiet),
+    );
+  }
+
+  const results: FileResult[] = [];
+  let failures = 0;
+
+  if (merge) {
+    const merged = await convertMerged(files, options, Boolean(values.quiet), sheetMapping, profileName === "auto");
+    failures = merged.failures;
+    if (merged.result) results.push(merged.result);
+  } else {
+    for (let i = 0; i < files.length; i++) {
+      const { result, failed } = await convertFile(
+        files[i],
+        options,
+        Boolean(values.quiet),
+        sheetMapping,
+        profileName === "auto",
+      );
+      if (failed) failures++;
+      if (result) results.push(result);
+    }
+  }
+
+  // When pushing or printing a diff, SQL files are only written if asked for
+  if (values["per-level"]) {
+    writePerLevel(results, schema, options, values["per-level"]);
+  } else if ((!values.push && !values.diff) || values.output) {
+    writeCombined(results, schema, options, values.output, values.verification, values.rollback);
+  }
+
+  if (values.diff) {
+    const diff = results.reduce<SubjectDiff[]>((all, result) => [...all, ...result.diff], []);
+    process.stdout.write(`${formatDiff(diff)}\n`);
+  }
+
+  if (failures > 0) {
+    log(`${failures} of ${files.length} file(s) failed to convert`);
+    if (values.push) log("Nothing was pushed");
+    return 1;
+  }
+
+  if (values.push) {
+    return pushLevels(results, values.push, Boolean(values["dry-run"]), target, provenanceStore);
+  }
+
+  return 0;
+};
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+}).catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
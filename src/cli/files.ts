@@ -0,0 +1,97 @@
+import * as fs from "fs";
+import * as path from "path";
+
+const GLOB_CHARS = /[*?[]/;
+
+// Translate a glob (`*`, `**`, `?`, `[...]`) into an anchored regular expression
+const globToRegExp = (glob: string): RegExp => {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // `**/` matches zero or more directories
+        pattern += glob[i + 2] === "/" ? "(?:.*/)?" : ".*";
+        i += glob[i + 2] === "/" ? 2 : 1;
+      } else {
+        pattern += "[^/]*";
+      }
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i);
+      if (end === -1) {
+        pattern += "\\[";
+      } else {
+        pattern += glob.slice(i, end + 1);
+        i = end;
+      }
+    } else {
+      pattern += char.replace(/[.+^${}()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+};
+
+const walk = (dir: string): string[] => {
+  const files: string[] = [];
+  fs.readdirSync(dir, { withFileTypes: true }).forEach((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...walk(fullPath));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  });
+  return files;
+};
+
+const expandGlob = (glob: string): string[] => {
+  const normalized = glob.split(path.sep).join("/");
+  const segments = normalized.split("/");
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  const base = segments.slice(0, firstGlob).join("/") || ".";
+  const matcher = globToRegExp(segments.slice(firstGlob).join("/"));
+
+  if (!fs.existsSync(base)) return [];
+
+  return walk(base).filter((file) => {
+    const relative = path.relative(base, file).split(path.sep).join("/");
+    return matcher.test(relative);
+  });
+};
+
+// Resolve CLI arguments (files, directories or globs) into a sorted, de-duplicated
+// list of files. Directories are searched recursively for files with one of `extensions`.
+export const expandInputs = (inputs: string[], extensions: string[]): string[] => {
+  const files = new Set<string>();
+
+  inputs.forEach((input) => {
+    if (GLOB_CHARS.test(input)) {
+      expandGlob(input).forEach((file) => files.add(file));
+      return;
+    }
+
+    if (!fs.existsSync(input)) {
+      throw new Error(`Input not found: ${input}`);
+    }
+
+    if (fs.statSync(input).isDirectory()) {
+      walk(input)
+        .filter((file) => extensions.some((extension) => file.toLowerCase().endsWith(extension)))
+        .forEach((file) => files.add(file));
+    } else {
+      files.add(input);
+    }
+  });
+
+  return Array.from(files).sort();
+};
+
+// File-system friendly name for an educational level, e.g. "Primary 2" -> "primary-2"
+export const slugify = (value: string): string => {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "level";
+};
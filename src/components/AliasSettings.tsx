@@ -0,0 +1,164 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { AliasRegistry, validateAliasRegistry } from "@/lib/aliases";
+
+interface AliasSettingsProps {
+  aliases?: AliasRegistry;
+  onChange: (aliases: AliasRegistry | undefined) => void;
+}
+
+const REGISTRY_KEY = "curriculum-converter.alias-registry";
+
+const EXAMPLE = JSON.stringify({
+  levels: { "Primary 2": ["Basic 2", "Pry 2"] },
+  subjects: { "English Language": ["English Studies"] },
+}, null, 2);
+
+const buttonClassName = "inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const loadRegistry = (): AliasRegistry | undefined => {
+  try {
+    const stored = window.localStorage.getItem(REGISTRY_KEY);
+    if (!stored) return undefined;
+    const registry = JSON.parse(stored);
+    return validateAliasRegistry(registry).length === 0 ? registry : undefined;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+const saveRegistry = (registry: AliasRegistry) => {
+  window.localStorage.setItem(REGISTRY_KEY, JSON.stringify(registry));
+};
+
+const countEntries = (entries?: Record<string, string[]>): number => entries ? Object.keys(entries).length : 0;
+
+export default function AliasSettings({ aliases, onChange }: AliasSettingsProps) {
+  const [editorText, setEditorText] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [showEditor, setShowEditor] = useState(false);
+  const [saved, setSaved] = useState<AliasRegistry | undefined>(undefined);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // The last registry used lives in localStorage, which is only available after mounting
+  useEffect(() => {
+    setSaved(loadRegistry());
+  }, []);
+
+  const apply = (text: string) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      setErrors([`Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}`]);
+      return;
+    }
+
+    const problems = validateAliasRegistry(parsed);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    saveRegistry(parsed as AliasRegistry);
+    setSaved(parsed as AliasRegistry);
+    setShowEditor(false);
+    onChange(parsed as AliasRegistry);
+  };
+
+  const openEditor = () => {
+    setEditorText(aliases ? JSON.stringify(aliases, null, 2) : EXAMPLE);
+    setErrors([]);
+    setShowEditor(true);
+  };
+
+  const clear = () => {
+    setErrors([]);
+    setShowEditor(false);
+    onChange(undefined);
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files || files.length === 0) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result as string;
+      setEditorText(text);
+      setShowEditor(true);
+      apply(text);
+    };
+    reader.onerror = () => {
+      setErrors(["Failed to read alias registry file"]);
+    };
+    reader.readAsText(files[0]);
+    event.target.value = '';
+  };
+
+  return (
+    <div className="text-sm">
+      <h3 className="font-semibold mb-2 text-gray-800">🪪 Level and subject aliases:</h3>
+      <div className="flex flex-wrap items-center gap-2 text-gray-600">
+        <span>
+          {aliases
+            ? `${countEntries(aliases.levels)} level(s) and ${countEntries(aliases.subjects)} subject(s) with canonical names`
+            : "No alias registry; levels and subjects keep the names they arrive with"}
+        </span>
+        {!aliases && saved && (
+          <button onClick={() => onChange(saved)} className={buttonClassName}>
+            Use saved registry
+          </button>
+        )}
+        <button onClick={openEditor} className={buttonClassName}>
+          ✏️ Edit
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClassName}>
+          📂 Load JSON
+        </button>
+        <button onClick={clear} disabled={!aliases} className={buttonClassName}>
+          Clear
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        Levels and subjects are renamed to their canonical names before the SQL is generated, and levels of the same
+        name share their alternative names. Subjects that two items give different content are reported.
+      </p>
+
+      {showEditor && (
+        <div className="mt-3">
+          <textarea
+            value={editorText}
+            onChange={(e) => setEditorText(e.target.value)}
+            className="w-full h-48 p-2 font-mono text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            spellCheck={false}
+            aria-label="Alias registry JSON"
+          />
+          <div className="flex items-center gap-2 mt-2">
+            <button onClick={() => apply(editorText)} className={buttonClassName}>
+              💾 Save and use
+            </button>
+            <button onClick={() => setShowEditor(false)} className={buttonClassName}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+      {errors.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {errors.map((error, index) => (
+            <p key={index} className="text-red-600">❌ {error}</p>
+          ))}
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleFileUpload}
+        className="hidden"
+        aria-label="Upload alias registry JSON file"
+      />
+    </div>
+  );
+}
@@ -1,49 +1,58 @@
 "use client";
 
 import { useState, useCallback, useMemo, useEffect, useRef } from "react";
-
-// Types
-interface CurriculumData {
-  subject: string;
-  grade: string;
-  topics: Array<{
-    name: string;
-    description: string;
-    objectives: string[];
-  }>;
-}
-
-interface WeekData {
-  week_number: number;
-  topic: string | null;
-  breakdown: string | null;
-  note: string | null;
-}
-
-interface BookData {
-  title: string;
-  author: string;
-  isbn: string;
-}
-
-interface SubjectData {
-  subject_name: string;
-  introduction: string;
-  term_1_weeks: WeekData[];
-  term_2_weeks: WeekData[];
-  term_3_weeks: WeekData[];
-  recommended_books: BookData[];
-  weeks?: WeekData[];
-}
-
-interface EducationalLevelData {
-  educational_level: string;
-  alternative_names: string[];
-  subjects: SubjectData[];
-}
+import AliasSettings from "@/components/AliasSettings";
+import DiffView from "@/components/DiffView";
+import LargeFileConversion from "@/components/LargeFileConversion";
+import LineReportView from "@/components/LineReportView";
+import LiteralSettings from "@/components/LiteralSettings";
+import LintSettings from "@/components/LintSettings";
+import LoadSettings from "@/components/LoadSettings";
+import MergeReportView from "@/components/MergeReportView";
+import MergeSettings from "@/components/MergeSettings";
+import ProfileSettings from "@/components/ProfileSettings";
+import ProvenanceSettings from "@/components/ProvenanceSettings";
+import PushPanel from "@/components/PushPanel";
+import RunSummaryView from "@/components/RunSummaryView";
+import SpreadsheetImport from "@/components/SpreadsheetImport";
+import TargetSettings from "@/components/TargetSettings";
+import TermSettings from "@/components/TermSettings";
+import { convertCurriculum, ConvertOptions, generateSchema, OutputMode } from "@/lib/convert";
+import { formatDiff, SubjectDiff } from "@/lib/diff";
+import { DEFAULT_DIALECT, DIALECTS, SqlDialect } from "@/lib/dialects";
+import { convertJsonLines, LineReport, looksLikeJsonLines } from "@/lib/ndjson";
+import { reverseCurriculum } from "@/lib/reverse";
+import { readSpreadsheet, SpreadsheetTable } from "@/lib/spreadsheet";
+import { LintOptions } from "@/lib/lint";
+import { MergeConflict } from "@/lib/merge";
+import { detectProfile } from "@/lib/profiles";
+import { summarizeRuns } from "@/lib/provenance";
+import { resolveTerms } from "@/lib/terms";
+import { NormalizedLevel } from "@/lib/types";
+import { formatIssue, IssueResolution, ValidationIssue } from "@/lib/validation";
+
+// Uploads above this size skip the text area and are converted as a stream
+const LARGE_FILE_SIZE = 5 * 1024 * 1024;
 
 type ProcessingStatus = 'idle' | 'processing' | 'success' | 'error';
 
+type OutputTab = 'sql' | 'verification' | 'rollback' | 'changes' | 'schema';
+
+const OUTPUT_TABS: { id: OutputTab, label: string, fileName: string }[] = [
+  { id: 'sql', label: "Insert SQL", fileName: "curriculum-insert.sql" },
+  { id: 'verification', label: "Verification", fileName: "curriculum-verification.sql" },
+  { id: 'rollback', label: "Rollback", fileName: "curriculum-rollback.sql" },
+  { id: 'changes', label: "Changes", fileName: "curriculum-changes.txt" },
+  { id: 'schema', label: "Schema", fileName: "curriculum-schema.sql" },
+];
+
+const ISSUE_STYLES: Record<IssueResolution, string> = {
+  'auto-fixed': "bg-orange-100 text-orange-700",
+  'dropped': "bg-red-100 text-red-700",
+  'reported': "bg-yellow-100 text-yellow-800",
+  'fatal': "bg-red-200 text-red-800",
+};
+
 // Constants
 const SAMPLE_JSON = {
   "run_id": "sample-run-id",
@@ -79,95 +88,33 @@ const SAMPLE_JSON = {
   }
 };
 
-// Utility Functions
-const escapeSQL = (str: string): string => {
-  if (typeof str !== 'string') return String(str);
-  return str.replace(/'/g, "''").replace(/\\/g, "\\\\");
-};
-
-const sanitizeString = (str: string): string => {
-  if (typeof str !== 'string') return String(str);
-  return str.replace(/\n/g, " ").trim();
-};
-
-const isValidWeekData = (week: unknown): boolean => {
-  return (
-    typeof week === 'object' && 
-    week !== null && 
-    'week_number' in week && 
-    typeof (week as any).week_number === 'number'
-  );
-};
-
-const parseWeekData = (weekData: unknown): WeekData | null => {
-  try {
-    let week: any;
-
-    if (typeof weekData === "string") {
-      week = JSON.parse(weekData);
-    } else {
-      week = weekData;
-    }
-
-    if (!isValidWeekData(week)) {
-      console.warn(`Invalid week data structure:`, weekData);
-      return null;
-    }
-
-    // Handle breakdown field - it can be a string or array
-    let breakdown = week.breakdown;
-    if (Array.isArray(breakdown)) {
-      breakdown = breakdown.join(', ');
-    } else if (breakdown && typeof breakdown !== 'string') {
-      breakdown = String(breakdown);
-    }
-
-    return {
-      week_number: week.week_number,
-      topic: week.topic || null,
-      breakdown: breakdown || week.objectives || null,
-      note: week.note || null,
-    };
-  } catch (error) {
-    console.warn(`Failed to parse week data:`, weekData, error);
-    return null;
-  }
-};
-
-const fixRecommendedBooks = (books: unknown): BookData[] => {
-  if (!Array.isArray(books)) return [];
-  
-  return books.map((book: unknown) => {
-    if (typeof book === 'string' && book.startsWith('{') && book.endsWith('}')) {
-      try {
-        return JSON.parse(book) as BookData;
-      } catch (error) {
-        console.warn('Failed to parse recommended book JSON string:', book);
-        return { title: book, author: 'Unknown', isbn: '' };
-      }
-    }
-    if (typeof book === 'object' && book !== null) {
-      const bookObj = book as any;
-      return {
-        title: bookObj.title || 'Unknown Title',
-        author: bookObj.author || 'Unknown Author',
-        isbn: bookObj.isbn || ''
-      };
-    }
-    return { title: String(book), author: 'Unknown', isbn: '' };
-  });
-};
-
 export default function CurriculumConverter() {
   const [jsonInput, setJsonInput] = useState("");
   const [sqlOutput, setSqlOutput] = useState("");
   const [verificationQuery, setVerificationQuery] = useState("");
+  const [rollbackScript, setRollbackScript] = useState("");
+  const [sqlChunks, setSqlChunks] = useState<string[]>([]);
+  const [subjectDiffs, setSubjectDiffs] = useState<SubjectDiff[]>([]);
+  const [convertedLevels, setConvertedLevels] = useState<NormalizedLevel[]>([]);
+  const [mergeConflicts, setMergeConflicts] = useState<MergeConflict[]>([]);
+  const [snapshotName, setSnapshotName] = useState("");
+  const [snapshotError, setSnapshotError] = useState("");
   const [jsonError, setJsonError] = useState("");
-  const [copySuccess, setCopySuccess] = useState(false);
+  const [activeTab, setActiveTab] = useState<OutputTab>('sql');
+  const [copiedTab, setCopiedTab] = useState<OutputTab | null>(null);
   const [processingStatus, setProcessingStatus] = useState<ProcessingStatus>('idle');
-  const [formatWarnings, setFormatWarnings] = useState<string[]>([]);
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([]);
+  const [lineReports, setLineReports] = useState<LineReport[]>([]);
   const [showHelp, setShowHelp] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showPush, setShowPush] = useState(false);
+  const [largeFile, setLargeFile] = useState<File | null>(null);
+  const [spreadsheet, setSpreadsheet] = useState<{ fileName: string, table: SpreadsheetTable } | null>(null);
+  const [convertOptions, setConvertOptions] = useState<ConvertOptions>({ dialect: DEFAULT_DIALECT, outputMode: 'jsonb', lint: {} });
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const snapshotInputRef = useRef<HTMLInputElement>(null);
+  const reverseInputRef = useRef<HTMLInputElement>(null);
+  const spreadsheetInputRef = useRef<HTMLInputElement>(null);
   const copyTimeoutRef = useRef<NodeJS.Timeout>();
   const validationTimeoutRef = useRef<NodeJS.Timeout>();
 
@@ -183,248 +130,105 @@ export default function CurriculumConverter() {
     };
   }, []);
 
-  // Extract curriculum data from nested structures
-  const extractCurriculumData = useCallback((data: any): EducationalLevelData | null => {
-    // Handle nested structure with 'data' field
-    if (data.data && typeof data.data === 'object') {
-      data = data.data;
-    }
-    
-    // Check if this looks like curriculum data
-    if (data.educational_level && data.subjects) {
-      return data as EducationalLevelData;
-    }
-    
-    return null;
-  }, []);
-
-  const detectFormatIssues = useCallback((data: unknown): string[] => {
-    const warnings: string[] = [];
-    
-    // Extract actual curriculum data if nested
-    let curriculumData = data;
-    if (typeof data === 'object' && data !== null && 'data' in data) {
-      curriculumData = (data as any).data;
-      warnings.push(`ℹ️ Detected nested structure - extracting curriculum data from 'data' field`);
-    }
-    
-    const checkForJsonStrings = (obj: unknown, path: string = '') => {
-      if (Array.isArray(obj)) {
-        obj.forEach((item, index) => {
-          if (typeof item === 'string' && item.startsWith('{') && item.endsWith('}')) {
-            // Check if this is in a terms weeks array
-            if (path.includes('term_') && path.includes('weeks')) {
-              warnings.push(`🔧 Auto-fixing: ${path}[${index}] JSON string will be parsed to object`);
-            } else if (path.includes('recommended_books')) {
-              warnings.push(`🔧 Auto-fixing: ${path}[${index}] JSON string will be parsed to book object`);
-            } else {
-              warnings.push(`⚠️ JSON string at ${path}[${index}] - will be parsed automatically`);
-            }
-          } else if (typeof item === 'object' && item !== null) {
-            checkForJsonStrings(item, `${path}[${index}]`);
-          }
-        });
-      } else if (typeof obj === 'object' && obj !== null) {
-        Object.keys(obj).forEach(key => {
-          const newPath = path ? `${path}.${key}` : key;
-          const value = (obj as any)[key];
-          checkForJsonStrings(value, newPath);
-        });
-      }
-    };
-    
-    checkForJsonStrings(curriculumData);
-    return warnings;
-  }, []);
+  const generateSQL = useCallback((data: unknown, options: ConvertOptions) => {
+    setProcessingStatus('processing');
 
-  const processTermWeeks = useCallback((subject: SubjectData, termKey: keyof SubjectData): WeekData[] => {
-    const termData = subject[termKey];
-    if (!Array.isArray(termData)) {
-      return [];
+    const result = convertCurriculum(data, options);
+    setValidationIssues(result.issues);
+    setMergeConflicts(result.conflicts);
+    setLineReports([]);
+
+    if (result.errors.length > 0) {
+      // Point at a mapping profile when the input uses another layout
+      const detected = options.profile ? null : detectProfile(data);
+      const hint = detected && detected.profile.name !== "standard"
+        ? `\nThe input looks like the '${detected.profile.name}' layout; choose that mapping profile under ⚙️ Settings.`
+        : "";
+      setJsonError(`Conversion error: ${result.errors.join("\n")}${hint}`);
+      setSqlOutput("");
+      setVerificationQuery("");
+      setRollbackScript("");
+      setSqlChunks([]);
+      setSubjectDiffs([]);
+      setConvertedLevels([]);
+      setProcessingStatus('error');
+      return;
     }
 
-    return termData
-      .map((weekItem: any) => {
-        // Handle JSON strings in the array
-        if (typeof weekItem === 'string' && weekItem.startsWith('{') && weekItem.endsWith('}')) {
-          try {
-            return parseWeekData(JSON.parse(weekItem));
-          } catch (error) {
-            console.warn('Failed to parse week JSON string:', weekItem);
-            return null;
-          }
-        }
-        return parseWeekData(weekItem);
-      })
-      .filter((week): week is WeekData => week !== null);
+    setSqlOutput(result.sql);
+    setVerificationQuery(result.verification);
+    setRollbackScript(result.rollback);
+    setSqlChunks(result.chunks);
+    setSubjectDiffs(result.diff);
+    setConvertedLevels(result.levels);
+    setProcessingStatus('success');
   }, []);
 
-  const generateEducationalLevelSQL = useCallback((curriculum: EducationalLevelData): { sql: string[], verification: string[] } => {
-    const educationalLevel = curriculum.educational_level;
-    const alternativeNames = curriculum.alternative_names || [];
-    const sqlStatements: string[] = [];
-    const verificationStatements: string[] = [];
-
-    // Add header
-    sqlStatements.push(
-      "-- =====================================================",
-      `-- ${educationalLevel.toUpperCase()} CURRICULUM DATA - SQL INSERT STATEMENTS`,
-      "-- =====================================================",
-      "-- Copy and paste this entire script into Supabase SQL Editor",
-      `-- and click \"RUN\" to insert the ${educationalLevel} curriculum data`,
-      "-- =====================================================",
-      "",
-    );
-
-    curriculum.subjects.forEach((subject: SubjectData, subjectIndex: number) => {
-      if (!subject.subject_name) {
-        throw new Error(`Subject at index ${subjectIndex} is missing 'subject_name' field.`);
-      }
-
-      const subjectName = subject.subject_name;
-      const introduction = subject.introduction || "";
-      const recommendedBooks = fixRecommendedBooks(subject.recommended_books || []);
-
-      const term1Weeks = processTermWeeks(subject, "term_1_weeks");
-      const term2Weeks = processTermWeeks(subject, "term_2_weeks");
-      const term3Weeks = processTermWeeks(subject, "term_3_weeks");
-
-      // Handle legacy 'weeks' format for backward compatibility
-      if (subject.weeks && Array.isArray(subject.weeks) && term1Weeks.length === 0) {
-        const legacyWeeks = subject.weeks.map(parseWeekData).filter((week): week is WeekData => week !== null);
-        term1Weeks.push(...legacyWeeks);
-      }
-
-      // Generate the INSERT statement
-      sqlStatements.push(
-        `-- Insert ${educationalLevel} ${subjectName} curriculum`,
-        "INSERT INTO curriculum_data (",
-        "    educational_level,",
-        "    subject_name,",
-        "    alternative_names,",
-        "    introduction,",
-        "    term_1_weeks,",
-        "    term_2_weeks,",
-        "    term_3_weeks,",
-        "    recommended_books",
-        ") VALUES (",
-        `    '${escapeSQL(educationalLevel)}',`,
-        `    '${escapeSQL(subjectName)}',`,
-        `    '${escapeSQL(JSON.stringify(alternativeNames))}'::jsonb,`,
-        `    '${escapeSQL(sanitizeString(introduction))}',`,
-        `    '${escapeSQL(JSON.stringify(term1Weeks, null, 8))}'::jsonb,`,
-        `    '${escapeSQL(JSON.stringify(term2Weeks, null, 8))}'::jsonb,`,
-        `    '${escapeSQL(JSON.stringify(term3Weeks, null, 8))}'::jsonb,`,
-        `    '${escapeSQL(JSON.stringify(recommendedBooks))}'::jsonb`,
-        ")",
-        "ON CONFLICT (educational_level, subject_name)",
-        "DO UPDATE SET",
-        "    alternative_names = EXCLUDED.alternative_names,",
-        "    introduction = EXCLUDED.introduction,",
-        "    term_1_weeks = EXCLUDED.term_1_weeks,",
-        "    term_2_weeks = EXCLUDED.term_2_weeks,",
-        "    term_3_weeks = EXCLUDED.term_3_weeks,",
-        "    recommended_books = EXCLUDED.recommended_books,",
-        "    updated_at = NOW();",
-        "",
-      );
-    });
-
-    // Add verification queries
-    verificationStatements.push(
-      "-- =====================================================",
-      "-- VERIFICATION QUERY",
-      "-- =====================================================",
-      "-- Run this to confirm the data was inserted correctly",
-      "",
-      "-- Check for your specific educational level",
-      "SELECT",
-      "    id,",
-      "    educational_level,",
-      "    subject_name,",
-      "    LENGTH(introduction) as intro_length,",
-      "    jsonb_array_length(term_1_weeks) as term1_weeks_count,",
-      "    jsonb_array_length(term_2_weeks) as term2_weeks_count,",
-      "    jsonb_array_length(term_3_weeks) as term3_weeks_count,",
-      "    jsonb_array_length(recommended_books) as books_count,",
-      "    created_at,",
-      "    updated_at",
-      "FROM curriculum_data",
-      `WHERE educational_level = '${escapeSQL(educationalLevel)}'`,
-      "ORDER BY subject_name;",
-    );
-
-    return { sql: sqlStatements, verification: verificationStatements };
-  }, [processTermWeeks]);
-
-  const generateSQL = useCallback((data: unknown) => {
+  // JSON Lines are converted line by line: failed lines are listed, and the
+  // SQL of the lines that did convert is still shown
+  const generateJsonLinesSQL = useCallback((input: string, options: ConvertOptions) => {
     setProcessingStatus('processing');
 
-    try {
-      if (!data) {
-        throw new Error("No data provided");
-      }
-
-      const dataArray = Array.isArray(data) ? data : [data];
-      let allSqlStatements: string[] = [];
-      let allVerificationStatements: string[] = [];
-
-      dataArray.forEach((item, index) => {
-        if (typeof item !== "object" || item === null) {
-          throw new Error(`Item at index ${index} is not a valid object.`);
-        }
-
-        // Extract curriculum data from nested structures
-        const curriculum = extractCurriculumData(item);
-        
-        if (!curriculum) {
-          throw new Error(`Could not extract curriculum data from item at index ${index}. Expected structure with 'educational_level' and 'subjects' fields, or nested under 'data' field.`);
-        }
-
-        const { sql, verification } = generateEducationalLevelSQL(curriculum);
-        allSqlStatements.push(...sql);
-        allVerificationStatements.push(...verification);
-      });
-
-      setSqlOutput(allSqlStatements.join("\n"));
-      setVerificationQuery(allVerificationStatements.join("\n"));
-      setProcessingStatus('success');
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      setJsonError(`Conversion error: ${errorMessage}`);
-      setSqlOutput("");
-      setVerificationQuery("");
-      setProcessingStatus('error');
-    }
-  }, [generateEducationalLevelSQL, extractCurriculumData]);
+    const result = convertJsonLines(input, options);
+    setValidationIssues(result.issues);
+    setMergeConflicts(result.conflicts);
+    setLineReports(result.lines);
+    setJsonError(result.errors.length > 0 ? `Conversion error: ${result.errors.join("\n")}` : "");
+    setSqlOutput(result.sql);
+    setVerificationQuery(result.verification);
+    setRollbackScript(result.rollback);
+    setSqlChunks(result.chunks);
+    setSubjectDiffs(result.diff);
+    setConvertedLevels(result.levels);
+    setProcessingStatus(result.levels.length > 0 ? 'success' : 'error');
+  }, []);
 
-  const validateAndConvertJson = useCallback((input: string) => {
+  const validateAndConvertJson = useCallback((input: string, options: ConvertOptions = convertOptions) => {
     if (!input.trim()) {
       setJsonError("");
       setSqlOutput("");
       setVerificationQuery("");
-      setFormatWarnings([]);
+      setRollbackScript("");
+      setSqlChunks([]);
+      setSubjectDiffs([]);
+      setConvertedLevels([]);
+      setMergeConflicts([]);
+      setValidationIssues([]);
+      setLineReports([]);
       setProcessingStatus('idle');
       return;
     }
 
+    if (looksLikeJsonLines(input)) {
+      generateJsonLinesSQL(input, options);
+      return;
+    }
+
     try {
       const parsed = JSON.parse(input);
       setJsonError("");
-      
-      // Check for common format issues before conversion
-      const warnings = detectFormatIssues(parsed);
-      setFormatWarnings(warnings);
-      
-      generateSQL(parsed);
+      generateSQL(parsed, options);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
       setJsonError(`Invalid JSON: ${errorMessage}`);
       setSqlOutput("");
       setVerificationQuery("");
+      setRollbackScript("");
+      setSqlChunks([]);
+      setSubjectDiffs([]);
+      setConvertedLevels([]);
+      setMergeConflicts([]);
+      setLineReports([]);
       setProcessingStatus('error');
     }
-  }, [detectFormatIssues, generateSQL]);
+  }, [generateSQL, generateJsonLinesSQL, convertOptions]);
+
+  // Apply changed conversion options and re-run the conversion immediately
+  const updateOptions = useCallback((changes: Partial<ConvertOptions>) => {
+    const nextOptions = { ...convertOptions, ...changes };
+    setConvertOptions(nextOptions);
+    validateAndConvertJson(jsonInput, nextOptions);
+  }, [convertOptions, jsonInput, validateAndConvertJson]);
 
   const handleJsonChange = useCallback((value: string) => {
     setJsonInput(value);
@@ -440,36 +244,57 @@ export default function CurriculumConverter() {
     }, 500);
   }, [validateAndConvertJson]);
 
-  const copyToClipboard = useCallback(async (text: string) => {
+  const copyToClipboard = useCallback(async (text: string, tab: OutputTab) => {
     try {
       await navigator.clipboard.writeText(text);
-      setCopySuccess(true);
+      setCopiedTab(tab);
       
       if (copyTimeoutRef.current) {
         clearTimeout(copyTimeoutRef.current);
       }
       
       copyTimeoutRef.current = setTimeout(() => {
-        setCopySuccess(false);
+        setCopiedTab(null);
       }, 2000);
     } catch (error) {
       console.error("Failed to copy:", error);
     }
   }, []);
 
+  const downloadFile = useCallback((text: string, fileName: string) => {
+    const url = URL.createObjectURL(new Blob([text], { type: fileName.endsWith(".sql") ? "application/sql" : "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  // Puts converted content in the input, remembering the file it came from for
+  // the provenance of the import
+  const loadInput = useCallback((content: string, sourceFile?: string) => {
+    const nextOptions = { ...convertOptions, provenance: { ...convertOptions.provenance, sourceFile } };
+    setConvertOptions(nextOptions);
+    setJsonInput(content);
+    validateAndConvertJson(content, nextOptions);
+  }, [convertOptions, validateAndConvertJson]);
+
   const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files || files.length === 0) return;
 
     const file = files[0];
     
-    if (!file.name.endsWith('.json')) {
-      setJsonError("Please select a valid JSON file");
+    if (!/\.(json|jsonl|ndjson)$/i.test(file.name)) {
+      setJsonError("Please select a valid JSON or JSON Lines file");
       return;
     }
 
-    if (file.size > 10 * 1024 * 1024) {
-      setJsonError("File size too large. Please select a file smaller than 10MB");
+    // Too large for the text area: converted as a stream in a worker instead
+    if (file.size > LARGE_FILE_SIZE) {
+      setJsonError("");
+      setLargeFile(file);
+      event.target.value = '';
       return;
     }
 
@@ -478,8 +303,7 @@ export default function CurriculumConverter() {
     reader.onload = (e) => {
       const content = e.target?.result as string;
       if (content) {
-        setJsonInput(content);
-        validateAndConvertJson(content);
+        loadInput(content, file.name);
       }
     };
 
@@ -488,15 +312,117 @@ export default function CurriculumConverter() {
     };
 
     reader.readAsText(file);
-  }, [validateAndConvertJson]);
+  }, [loadInput]);
+
+  // Opens the column mapping panel for a scheme-of-work spreadsheet
+  const handleSpreadsheetUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files || files.length === 0) return;
+
+    const file = files[0];
+    const reader = new FileReader();
+
+    reader.onload = async (e) => {
+      try {
+        const table = await readSpreadsheet(file.name, e.target?.result as ArrayBuffer);
+        if (table.headers.length === 0) {
+          setJsonError(`${file.name} has no header row`);
+          return;
+        }
+        setSpreadsheet({ fileName: file.name, table });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        setJsonError(`Could not read ${file.name}: ${errorMessage}`);
+      }
+    };
+
+    reader.onerror = () => {
+      setJsonError("Failed to read file");
+    };
+
+    reader.readAsArrayBuffer(file);
+    event.target.value = '';
+  }, []);
+
+  const importSpreadsheetJson = useCallback((json: string) => {
+    loadInput(json, spreadsheet ? spreadsheet.fileName : undefined);
+  }, [loadInput, spreadsheet]);
+
+  // Reads curriculum_data rows (JSON/CSV export or a generated insert script)
+  // back into curriculum JSON and puts it in the input for editing
+  const handleReverseUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files || files.length === 0) return;
+
+    const file = files[0];
+    const reader = new FileReader();
+
+    reader.onload = (e) => {
+      const result = reverseCurriculum(e.target?.result as string, {
+        target: convertOptions.target,
+        terms: convertOptions.terms,
+      });
+      if (result.errors.length > 0) {
+        setJsonError(`Could not read ${file.name}: ${result.errors.join("\n")}`);
+        return;
+      }
+      loadInput(result.json, file.name);
+    };
+
+    reader.onerror = () => {
+      setJsonError("Failed to read file");
+    };
+
+    reader.readAsText(file);
+    event.target.value = '';
+  }, [loadInput, convertOptions.target, convertOptions.terms]);
+
+  const handleSnapshotUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files || files.length === 0) return;
+
+    const file = files[0];
+    const reader = new FileReader();
+
+    reader.onload = (e) => {
+      try {
+        const snapshot = JSON.parse(e.target?.result as string);
+        setSnapshotName(file.name);
+        setSnapshotError("");
+        updateOptions({ snapshot });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        setSnapshotError(`Invalid snapshot JSON: ${errorMessage}`);
+      }
+    };
+
+    reader.onerror = () => {
+      setSnapshotError("Failed to read snapshot file");
+    };
+
+    reader.readAsText(file);
+    event.target.value = '';
+  }, [updateOptions]);
+
+  const clearSnapshot = useCallback(() => {
+    setSnapshotName("");
+    setSnapshotError("");
+    updateOptions({ snapshot: undefined });
+  }, [updateOptions]);
 
   const clearAll = useCallback(() => {
     setJsonInput("");
     setSqlOutput("");
     setVerificationQuery("");
+    setRollbackScript("");
+    setSqlChunks([]);
+    setSubjectDiffs([]);
+    setConvertedLevels([]);
+    setMergeConflicts([]);
     setJsonError("");
-    setFormatWarnings([]);
-    setCopySuccess(false);
+    setValidationIssues([]);
+    setLineReports([]);
+    setCopiedTab(null);
     setProcessingStatus('idle');
     
     if (fileInputRef.current) {
@@ -505,10 +431,44 @@ export default function CurriculumConverter() {
   }, []);
 
   const loadSample = useCallback(() => {
-    const sampleJson = JSON.stringify(SAMPLE_JSON, null, 2);
-    setJsonInput(sampleJson);
-    validateAndConvertJson(sampleJson);
-  }, [validateAndConvertJson]);
+    loadInput(JSON.stringify(SAMPLE_JSON, null, 2));
+  }, [loadInput]);
+
+  const issueCounts = useMemo(() => {
+    const counts: Record<IssueResolution, number> = { 'auto-fixed': 0, 'dropped': 0, 'reported': 0, 'fatal': 0 };
+    validationIssues.forEach((issue) => {
+      counts[issue.resolution]++;
+    });
+    return counts;
+  }, [validationIssues]);
+
+  // Detected terms come from the converted levels, which all share them
+  const termLayout = useMemo(() => (
+    convertedLevels.length > 0 ? convertedLevels[0].terms : resolveTerms(convertOptions.terms)
+  ), [convertedLevels, convertOptions.terms]);
+
+  // The schema only depends on the input through detected terms, so it is always available
+  const schemaOutput = useMemo(() => generateSchema(convertOptions, termLayout), [convertOptions, termLayout]);
+
+  // Kept stable so the worker only restarts when a setting changes
+  const largeFileOptions = useMemo(() => ({
+    ...convertOptions,
+    provenance: { ...convertOptions.provenance, sourceFile: largeFile ? largeFile.name : undefined },
+  }), [convertOptions, largeFile]);
+
+  const importRuns = useMemo(() => summarizeRuns(convertedLevels), [convertedLevels]);
+
+  const diffText = useMemo(() => subjectDiffs.length > 0 ? formatDiff(subjectDiffs) : "", [subjectDiffs]);
+
+  const tabOutputs: Record<OutputTab, string> = {
+    sql: sqlOutput,
+    verification: verificationQuery,
+    rollback: rollbackScript,
+    changes: diffText,
+    schema: schemaOutput,
+  };
+  const activeOutput = tabOutputs[activeTab];
+  const activeFileName = OUTPUT_TABS.filter((tab) => tab.id === activeTab)[0].fileName;
 
   const isInputValid = useMemo(() => jsonInput.trim() && !jsonError, [jsonInput, jsonError]);
   const showProcessing = processingStatus === 'processing';
@@ -537,6 +497,20 @@ export default function CurriculumConverter() {
             >
               📁 Upload JSON
             </button>
+            <button
+              onClick={() => reverseInputRef.current?.click()}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="Load a curriculum_data JSON/CSV export or a generated insert script back as curriculum JSON"
+            >
+              🔁 Import from Database
+            </button>
+            <button
+              onClick={() => spreadsheetInputRef.current?.click()}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="Import a scheme of work from a CSV or XLSX spreadsheet"
+            >
+              📊 Import Spreadsheet
+            </button>
             <button
               onClick={loadSample}
               className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -549,6 +523,18 @@ export default function CurriculumConverter() {
             >
               🗑 Clear All
             </button>
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              ⚙️ Settings
+            </button>
+            <button
+              onClick={() => setShowPush(!showPush)}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              🚀 Push
+            </button>
             <button
               onClick={() => setShowHelp(!showHelp)}
               className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -571,6 +557,7 @@ export default function CurriculumConverter() {
                   <li>• Nested structure with &apos;data&apos; field (handled automatically)</li>
                   <li>• Missing required fields: educational_level, subjects</li>
                   <li>• Malformed week or book data</li>
+                  <li>• Missing, duplicate or out-of-order weeks (see ⚙️ Settings)</li>
                 </ul>
               </div>
               <div>
@@ -578,8 +565,10 @@ export default function CurriculumConverter() {
                 <ul className="space-y-1 text-gray-600">
                   <li>• Nested: &#123;&quot;data&quot;: &#123;&quot;educational_level&quot;: ...&#125;&#125;</li>
                   <li>• Direct: &#123;&quot;educational_level&quot;: ...&#125;</li>
+                  <li>• JSON Lines (.jsonl, .ndjson): one item per line, failed lines reported by number</li>
                   <li>• JSON strings in term weeks (auto-parsed)</li>
                   <li>• JSON strings in recommended_books (auto-parsed)</li>
+                  <li>• Other key names or a terms array, through a mapping profile (see ⚙️ Settings)</li>
                 </ul>
               </div>
             </div>
@@ -587,6 +576,103 @@ export default function CurriculumConverter() {
         </div>
       )}
 
+      {/* Settings Section */}
+      {showSettings && (
+        <div className="bg-blue-50 border-b">
+          <div className="max-w-7xl mx-auto px-4 py-4">
+            <LintSettings
+              options={convertOptions.lint || {}}
+              onChange={(lint: LintOptions) => updateOptions({ lint })}
+            />
+            <div className="border-t border-blue-100 mt-4 pt-4">
+              <LoadSettings options={convertOptions} onChange={updateOptions} />
+            </div>
+            <div className="border-t border-blue-100 mt-4 pt-4">
+              <LiteralSettings
+                stringLiterals={convertOptions.stringLiterals}
+                dialect={convertOptions.dialect}
+                onChange={(stringLiterals) => updateOptions({ stringLiterals })}
+              />
+            </div>
+            <div className="border-t border-blue-100 mt-4 pt-4">
+              <TermSettings
+                terms={convertOptions.terms}
+                onChange={(terms) => updateOptions({ terms })}
+              />
+            </div>
+            <div className="border-t border-blue-100 mt-4 pt-4">
+              <TargetSettings
+                target={convertOptions.target}
+                outputMode={convertOptions.outputMode}
+                terms={termLayout}
+                onChange={(target) => updateOptions({ target })}
+              />
+            </div>
+            <div className="border-t border-blue-100 mt-4 pt-4">
+              <ProfileSettings
+                input={jsonInput}
+                profile={convertOptions.profile}
+                onChange={(profile) => updateOptions({ profile })}
+              />
+            </div>
+            <div className="border-t border-blue-100 mt-4 pt-4">
+              <AliasSettings
+                aliases={convertOptions.aliases}
+                onChange={(aliases) => updateOptions({ aliases })}
+              />
+            </div>
+            <div className="border-t border-blue-100 mt-4 pt-4">
+              <MergeSettings
+                merge={convertOptions.merge}
+                onChange={(merge) => updateOptions({ merge })}
+              />
+            </div>
+            <div className="border-t border-blue-100 mt-4 pt-4">
+              <ProvenanceSettings
+                provenance={convertOptions.provenance}
+                outputMode={convertOptions.outputMode}
+                onChange={(provenance) => updateOptions({ provenance })}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Push Section */}
+      {spreadsheet && (
+        <div className="bg-blue-50 border-b">
+          <div className="max-w-7xl mx-auto px-4 py-4">
+            <SpreadsheetImport
+              fileName={spreadsheet.fileName}
+              table={spreadsheet.table}
+              onImport={importSpreadsheetJson}
+              onClose={() => setSpreadsheet(null)}
+            />
+          </div>
+        </div>
+      )}
+
+      {largeFile && (
+        <div className="bg-blue-50 border-b">
+          <div className="max-w-7xl mx-auto px-4 py-4">
+            <LargeFileConversion file={largeFile} options={largeFileOptions} onClose={() => setLargeFile(null)} />
+          </div>
+        </div>
+      )}
+
+      {showPush && (
+        <div className="bg-green-50 border-b">
+          <div className="max-w-7xl mx-auto px-4 py-4">
+            <PushPanel
+              levels={convertedLevels}
+              outputMode={convertOptions.outputMode}
+              target={convertOptions.target}
+              provenance={convertOptions.provenance && convertOptions.provenance.store}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 py-6">
         <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 min-h-[700px]">
@@ -597,7 +683,7 @@ export default function CurriculumConverter() {
                 📝 JSON Input
               </h2>
               <p className="text-sm text-gray-600 mt-1">
-                Paste your curriculum JSON data here. Validation happens automatically with 500ms delay.
+                Paste your curriculum JSON data here, or JSON Lines with one item per line. Validation happens automatically with 500ms delay.
               </p>
             </div>
             <div className="p-4 flex-1 flex flex-col gap-3 min-h-[500px]">
@@ -619,7 +705,7 @@ export default function CurriculumConverter() {
                 </div>
               )}
 
-              {formatWarnings.length > 0 && (
+              {validationIssues.length > 0 && (
                 <div className="bg-orange-50 border border-orange-200 rounded-md p-3">
                   <div className="flex">
                     <div className="flex-shrink-0">
@@ -627,23 +713,32 @@ export default function CurriculumConverter() {
                     </div>
                     <div className="ml-3">
                       <h3 className="text-sm font-medium text-orange-800">
-                        Format Issues Detected
+                        Validation Issues Detected
                       </h3>
+                      <p className="mt-1 text-xs text-orange-700">
+                        {issueCounts['auto-fixed']} auto-fixed · {issueCounts.dropped} dropped · {issueCounts.reported} to review · {issueCounts.fatal} fatal
+                      </p>
                       <div className="mt-2 space-y-1 max-h-32 overflow-y-auto">
-                        {formatWarnings.map((warning, index) => (
-                          <div key={index} className="text-xs font-mono bg-orange-100 p-1 rounded text-orange-700">
-                            {warning}
+                        {validationIssues.map((issue, index) => (
+                          <div key={index} className={`text-xs font-mono p-1 rounded ${ISSUE_STYLES[issue.resolution]}`}>
+                            {formatIssue(issue)}
                           </div>
                         ))}
                       </div>
                       <p className="mt-2 text-sm text-orange-700">
-                        <strong>Auto-fix enabled:</strong> The converter will attempt to fix these issues automatically.
+                        <strong>Auto-fix enabled:</strong> Auto-fixed values are kept, dropped values are left out of the SQL and fatal issues block conversion.
                       </p>
                     </div>
                   </div>
                 </div>
               )}
 
+              <LineReportView lines={lineReports} />
+
+              <MergeReportView conflicts={mergeConflicts} />
+
+              <RunSummaryView runs={importRuns} />
+
               <div className="flex-1 min-h-[400px]">
                 <textarea
                   placeholder="Paste your curriculum JSON here..."
@@ -664,34 +759,174 @@ export default function CurriculumConverter() {
                     🗄 SQL Output
                   </h2>
                   <p className="text-sm text-gray-600 mt-1">
-                    Generated SQL INSERT statements ready for Supabase.
+                    Generated SQL INSERT statements for {DIALECTS[convertOptions.dialect || DEFAULT_DIALECT].label}.
                   </p>
                 </div>
 
-                {sqlOutput && (
+                <div className="flex items-center gap-2">
+                  <select
+                    value={convertOptions.dialect}
+                    onChange={(e) => {
+                      const dialect = e.target.value as SqlDialect;
+                      // Dollar quoting only exists in PostgreSQL
+                      updateOptions({ dialect, stringLiterals: dialect === 'postgresql' ? convertOptions.stringLiterals : undefined });
+                    }}
+                    className="border border-gray-300 rounded-md text-sm px-2 py-2 text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    aria-label="SQL dialect"
+                  >
+                    {Object.keys(DIALECTS).map((id) => (
+                      <option key={id} value={id}>
+                        {DIALECTS[id as SqlDialect].label}
+                      </option>
+                    ))}
+                  </select>
+
+                  <select
+                    value={convertOptions.outputMode}
+                    onChange={(e) => updateOptions({ outputMode: e.target.value as OutputMode })}
+                    className="border border-gray-300 rounded-md text-sm px-2 py-2 text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    aria-label="Output mode"
+                  >
+                    <option value="jsonb">curriculum_data (JSON columns)</option>
+                    <option value="relational">Normalized tables</option>
+                  </select>
+
+                  <label className="inline-flex items-center gap-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(convertOptions.includeSchema)}
+                      onChange={(e) => updateOptions({ includeSchema: e.target.checked })}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    Include schema
+                  </label>
+                </div>
+              </div>
+            </div>
+            <div className="px-4 pt-3 border-b flex items-end justify-between gap-2 flex-shrink-0">
+              <div className="flex gap-1" role="tablist">
+                {OUTPUT_TABS.map((tab) => (
                   <button
-                    onClick={() => copyToClipboard(sqlOutput)}
-                    disabled={!sqlOutput}
-                    className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    key={tab.id}
+                    role="tab"
+                    aria-selected={activeTab === tab.id}
+                    onClick={() => setActiveTab(tab.id)}
+                    className={`px-3 py-2 text-sm font-medium rounded-t-md border border-b-0 ${
+                      activeTab === tab.id
+                        ? "bg-gray-50 text-blue-700 border-gray-300"
+                        : "bg-white text-gray-600 border-transparent hover:text-gray-900"
+                    }`}
                   >
-                    {copySuccess ? "✅ Copied!" : "📋 Copy SQL"}
+                    {tab.label}
                   </button>
-                )}
+                ))}
               </div>
+
+              {activeOutput && !showProcessing && (
+                <div className="flex items-center gap-2 pb-2">
+                  <button
+                    onClick={() => copyToClipboard(activeOutput, activeTab)}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {copiedTab === activeTab ? "✅ Copied!" : "📋 Copy"}
+                  </button>
+                  <button
+                    onClick={() => downloadFile(activeOutput, activeFileName)}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    ⬇️ Download
+                  </button>
+                </div>
+              )}
             </div>
             <div className="p-4 flex-1 min-h-[500px] flex flex-col">
+              {(activeTab === 'rollback' || activeTab === 'changes') && (
+                <div className="flex items-center justify-between gap-2 mb-2 text-xs text-gray-600">
+                  {activeTab === 'rollback' ? (
+                    <span>
+                      {snapshotName
+                        ? `↩️ Restoring subjects found in ${snapshotName}; other converted subjects are deleted.`
+                        : convertOptions.deleteWithoutSnapshot
+                          ? "↩️ No snapshot loaded: the rollback deletes every converted subject, including subjects that existed before the import."
+                          : "↩️ No snapshot loaded: the rollback changes nothing, as new subjects cannot be told from updated ones. Load a JSON export of the current rows to restore them."}
+                    </span>
+                  ) : (
+                    <span>
+                      {snapshotName
+                        ? `🔀 Compared with the rows in ${snapshotName}. Stored subjects that are not in this input are left unchanged.`
+                        : "🔀 Load a JSON export of the current curriculum_data rows to see what this import changes."}
+                    </span>
+                  )}
+                  <span className="flex gap-2 flex-shrink-0">
+                    {activeTab === 'rollback' && !snapshotName && (
+                      <label className="inline-flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={Boolean(convertOptions.deleteWithoutSnapshot)}
+                          onChange={(e) => updateOptions({ deleteWithoutSnapshot: e.target.checked })}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        Delete all converted subjects
+                      </label>
+                    )}
+                    <button
+                      onClick={() => snapshotInputRef.current?.click()}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      📂 Load snapshot
+                    </button>
+                    {snapshotName && (
+                      <button
+                        onClick={clearSnapshot}
+                        className="px-2 py-1 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </span>
+                </div>
+              )}
+              {(activeTab === 'rollback' || activeTab === 'changes') && snapshotError && (
+                <p className="text-xs text-red-600 mb-2">{snapshotError}</p>
+              )}
               {showProcessing ? (
                 <div className="flex items-center justify-center flex-1 text-gray-500">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
                   <span className="ml-2">Processing...</span>
                 </div>
-              ) : sqlOutput ? (
-                <textarea
-                  value={sqlOutput}
-                  readOnly
-                  className="w-full flex-1 min-h-[400px] font-mono text-sm border border-gray-300 rounded-md p-3 resize-none bg-gray-50"
-                  placeholder="SQL statements will appear here..."
-                />
+              ) : activeOutput ? (
+                <>
+                  {activeTab === 'verification' && (
+                    <p className="text-xs text-gray-500 mb-2">
+                      💡 Run after the insert script. The last query compares the week and book counts of every
+                      subject with this input and reports OK, MISMATCH or MISSING.
+                    </p>
+                  )}
+                  {activeTab === 'sql' && sqlChunks.length > 1 && (
+                    <div className="flex flex-wrap items-center gap-2 mb-2 text-xs text-gray-600">
+                      <span>📦 Split into {sqlChunks.length} parts (without the schema):</span>
+                      {sqlChunks.map((chunk, index) => (
+                        <button
+                          key={index}
+                          onClick={() => downloadFile(chunk, `curriculum-insert.part-${index < 9 ? "0" : ""}${index + 1}.sql`)}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                        >
+                          ⬇️ Part {index + 1}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {activeTab === 'changes' ? (
+                    <DiffView diffs={subjectDiffs} />
+                  ) : (
+                    <textarea
+                      value={activeOutput}
+                      readOnly
+                      className="w-full flex-1 min-h-[400px] font-mono text-sm border border-gray-300 rounded-md p-3 resize-none bg-gray-50"
+                      placeholder="SQL statements will appear here..."
+                    />
+                  )}
+                </>
               ) : (
                 <div className="flex items-center justify-center flex-1 text-gray-500">
                   <div className="text-center">
@@ -716,11 +951,35 @@ export default function CurriculumConverter() {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".json,application/json"
+        accept=".json,.jsonl,.ndjson,application/json,application/x-ndjson"
         onChange={handleFileUpload}
         className="hidden"
         aria-label="Upload JSON file"
       />
+      <input
+        ref={spreadsheetInputRef}
+        type="file"
+        accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        onChange={handleSpreadsheetUpload}
+        className="hidden"
+        aria-label="Upload spreadsheet"
+      />
+      <input
+        ref={reverseInputRef}
+        type="file"
+        accept=".json,.csv,.sql,application/json,text/csv"
+        onChange={handleReverseUpload}
+        className="hidden"
+        aria-label="Upload database export or insert script"
+      />
+      <input
+        ref={snapshotInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleSnapshotUpload}
+        className="hidden"
+        aria-label="Upload snapshot JSON file"
+      />
     </div>
   );
 }
@@ -0,0 +1,117 @@
+"use client";
+
+import { ReactNode } from "react";
+import { BookChange, SubjectDiff, SubjectStatus, WeekChange } from "@/lib/diff";
+import { BookData, WeekData } from "@/lib/types";
+
+interface DiffViewProps {
+  diffs: SubjectDiff[];
+}
+
+const STATUS_STYLES: Record<SubjectStatus, string> = {
+  'new': "bg-green-100 text-green-700",
+  'changed': "bg-yellow-100 text-yellow-800",
+  'unchanged': "bg-gray-100 text-gray-600",
+};
+
+const cellClassName = "p-2 align-top whitespace-pre-wrap break-words";
+const beforeClassName = `${cellClassName} bg-red-50 text-red-900`;
+const afterClassName = `${cellClassName} bg-green-50 text-green-900`;
+
+const WeekCell = ({ week, highlight }: { week: WeekData | null, highlight: string[] }) => {
+  if (!week) return <span className="text-gray-400">—</span>;
+  return (
+    <>
+      {(['topic', 'breakdown', 'note'] as const).map((field) => (
+        <div key={field} className={highlight.indexOf(field) !== -1 ? "font-semibold" : ""}>
+          <span className="text-gray-500">{field}:</span> {week[field] || <span className="text-gray-400">(empty)</span>}
+        </div>
+      ))}
+    </>
+  );
+};
+
+const BookCell = ({ book }: { book: BookData | null }) => {
+  if (!book) return <span className="text-gray-400">—</span>;
+  return <>{book.title} by {book.author} ({book.isbn || "no ISBN"})</>;
+};
+
+// One row of the side-by-side table: what is stored and what the import writes
+const Row = ({ label, before, after }: { label: string, before: ReactNode, after: ReactNode }) => (
+  <tr className="border-t border-gray-200">
+    <td className={`${cellClassName} text-gray-600 font-medium w-40`}>{label}</td>
+    <td className={beforeClassName}>{before}</td>
+    <td className={afterClassName}>{after}</td>
+  </tr>
+);
+
+const weekLabel = (change: WeekChange): string => {
+  return `${change.term_name}, week ${change.week_number} (${change.kind})`;
+};
+
+const bookLabel = (change: BookChange): string => `Book (${change.kind})`;
+
+export default function DiffView({ diffs }: DiffViewProps) {
+  const changed = diffs.filter((diff) => diff.status !== 'unchanged');
+  const unchanged = diffs.filter((diff) => diff.status === 'unchanged');
+
+  return (
+    <div className="flex-1 min-h-[400px] overflow-auto space-y-4 text-sm">
+      {changed.map((diff, index) => (
+        <div key={index} className="border border-gray-300 rounded-md overflow-hidden">
+          <div className="px-3 py-2 bg-gray-50 flex items-center gap-2">
+            <span className="font-semibold text-gray-800">{diff.educational_level} / {diff.subject_name}</span>
+            <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[diff.status]}`}>{diff.status}</span>
+          </div>
+          {diff.status === 'new' ? (
+            <p className="px-3 py-2 text-gray-600">Not stored yet; the whole subject is inserted.</p>
+          ) : (
+            <table className="w-full table-fixed text-xs">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="p-2 w-40"></th>
+                  <th className="p-2">Stored</th>
+                  <th className="p-2">This import</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.introduction && (
+                  <Row label="Introduction" before={diff.introduction.before} after={diff.introduction.after} />
+                )}
+                {diff.alternative_names && (
+                  <Row
+                    label="Alternative names"
+                    before={diff.alternative_names.before.join(", ")}
+                    after={diff.alternative_names.after.join(", ")}
+                  />
+                )}
+                {diff.weeks.map((change, weekIndex) => (
+                  <Row
+                    key={`week-${weekIndex}`}
+                    label={weekLabel(change)}
+                    before={<WeekCell week={change.before} highlight={change.fields} />}
+                    after={<WeekCell week={change.after} highlight={change.fields} />}
+                  />
+                ))}
+                {diff.books.map((change, bookIndex) => (
+                  <Row
+                    key={`book-${bookIndex}`}
+                    label={bookLabel(change)}
+                    before={<BookCell book={change.before} />}
+                    after={<BookCell book={change.after} />}
+                  />
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ))}
+
+      {unchanged.length > 0 && (
+        <p className="text-gray-500">
+          ✅ {unchanged.length} subject(s) unchanged: {unchanged.map((diff) => `${diff.educational_level} / ${diff.subject_name}`).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
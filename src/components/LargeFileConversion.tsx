@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import RunSummaryView from "@/components/RunSummaryView";
+import { ConvertOptions } from "@/lib/convert";
+import { formatIssue } from "@/lib/validation";
+import type { ConvertWorkerMessage } from "@/workers/convert.worker";
+
+interface LargeFileConversionProps {
+  file: File;
+  options: ConvertOptions;
+  onClose: () => void;
+}
+
+type DoneMessage = Extract<ConvertWorkerMessage, { type: 'done' }>;
+
+const buttonClassName = "inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const MAX_ERRORS_SHOWN = 20;
+// How long a download's object URL is kept, in milliseconds
+const URL_LIFETIME = 60 * 1000;
+
+const formatSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${Math.ceil(bytes / 1024)} KB`;
+};
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // The browser may still be reading a large blob when click() returns
+  setTimeout(() => URL.revokeObjectURL(url), URL_LIFETIME);
+};
+
+// Converts a file too large for the text area in a Web Worker, with a progress
+// bar and downloads of the finished scripts instead of the editor view
+export default function LargeFileConversion({ file, options, onClose }: LargeFileConversionProps) {
+  const [progress, setProgress] = useState({ bytes: 0, levels: 0 });
+  const [result, setResult] = useState<DoneMessage | null>(null);
+  const [error, setError] = useState("");
+
+  // Changing a setting starts the conversion over
+  useEffect(() => {
+    setProgress({ bytes: 0, levels: 0 });
+    setResult(null);
+    setError("");
+    const worker = new Worker(new URL("../workers/convert.worker.ts", import.meta.url));
+    worker.onmessage = (event: MessageEvent<ConvertWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setProgress({ bytes: message.bytes, levels: message.levels });
+      } else if (message.type === 'done') {
+        setResult(message);
+        worker.terminate();
+      } else {
+        setError(message.message);
+        worker.terminate();
+      }
+    };
+    worker.onerror = (event) => {
+      setError(event.message || "The conversion worker failed");
+      worker.terminate();
+    };
+    worker.postMessage({ file, options });
+
+    return () => worker.terminate();
+  }, [file, options]);
+
+  const percent = file.size > 0 ? Math.round((progress.bytes / file.size) * 100) : 100;
+  const running = !result && !error;
+  const summary = result && result.summary;
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold text-gray-800">
+          📦 {file.name} ({formatSize(file.size)}) is converted as a stream
+        </h3>
+        <button onClick={onClose} className={buttonClassName}>
+          {running ? "Cancel" : "Close"}
+        </button>
+      </div>
+
+      {running && (
+        <div className="mt-2">
+          <div className="w-full h-2 bg-gray-200 rounded">
+            <div className="h-2 bg-blue-600 rounded" style={{ width: `${percent}%` }} />
+          </div>
+          <p className="mt-1 text-gray-600">
+            {percent}% read · {progress.levels} educational level(s) converted
+          </p>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-red-600">❌ {error}</p>}
+
+      {result && summary && (
+        <div className="mt-2 space-y-2">
+          <p className={summary.errors.length > 0 ? "text-orange-700" : "text-green-700"}>
+            {summary.errors.length > 0 ? "⚠️" : "✅"} {summary.levels} educational level(s) and {summary.subjects} subject(s)
+            converted from {summary.items} item(s) · {summary.issueCounts['auto-fixed']} auto-fixed ·{" "}
+            {summary.issueCounts.dropped} dropped · {summary.issueCounts.reported} to review · {summary.errors.length} failed
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => download(result.sql, "curriculum-insert.sql")} className={buttonClassName}>
+              ⬇️ Insert SQL ({formatSize(result.sql.size)})
+            </button>
+            <button onClick={() => download(result.verification, "curriculum-verification.sql")} className={buttonClassName}>
+              ⬇️ Verification
+            </button>
+            <button onClick={() => download(result.rollback, "curriculum-rollback.sql")} className={buttonClassName}>
+              ⬇️ Rollback
+            </button>
+          </div>
+          {summary.errors.length > 0 && (
+            <div className="space-y-1">
+              {summary.errors.slice(0, MAX_ERRORS_SHOWN).map((message, index) => (
+                <p key={index} className="text-red-600 font-mono text-xs">❌ {message}</p>
+              ))}
+              {summary.errors.length > MAX_ERRORS_SHOWN && (
+                <p className="text-gray-500 text-xs">… and {summary.errors.length - MAX_ERRORS_SHOWN} more</p>
+              )}
+            </div>
+          )}
+          {result.issues.length > 0 && (
+            <details className="text-xs">
+              <summary className="cursor-pointer text-gray-600">First {result.issues.length} validation issue(s)</summary>
+              <div className="mt-1 max-h-40 overflow-y-auto space-y-1">
+                {result.issues.map((issue, index) => (
+                  <div key={index} className="font-mono">{formatIssue(issue)}</div>
+                ))}
+              </div>
+            </details>
+          )}
+          <RunSummaryView runs={summary.runs} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { LineReport, LineStatus } from "@/lib/ndjson";
+
+interface LineReportViewProps {
+  lines: LineReport[];
+}
+
+const MAX_FAILED_SHOWN = 50;
+
+// Per-line outcome of a JSON Lines input: counts, and the reason for every failed line
+export default function LineReportView({ lines }: LineReportViewProps) {
+  if (lines.length === 0) return null;
+
+  const counts: Record<LineStatus, number> = { 'converted': 0, 'auto-fixed': 0, 'failed': 0 };
+  lines.forEach((report) => {
+    counts[report.status]++;
+  });
+  const failed = lines.filter((report) => report.status === 'failed');
+
+  return (
+    <div className={`border rounded-md p-3 ${failed.length > 0 ? "bg-orange-50 border-orange-200" : "bg-green-50 border-green-200"}`}>
+      <h3 className={`text-sm font-medium ${failed.length > 0 ? "text-orange-800" : "text-green-800"}`}>
+        📄 JSON Lines: {lines.length} line(s)
+      </h3>
+      <p className="mt-1 text-xs text-gray-700">
+        {counts.converted} converted · {counts['auto-fixed']} auto-fixed · {counts.failed} failed
+      </p>
+      {failed.length > 0 && (
+        <div className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+          {failed.slice(0, MAX_FAILED_SHOWN).map((report) => (
+            <div key={report.line} className="text-xs font-mono p-1 rounded bg-red-100 text-red-800">
+              line {report.line}: {report.errors.join("; ")}
+            </div>
+          ))}
+          {failed.length > MAX_FAILED_SHOWN && (
+            <p className="text-gray-500 text-xs">… and {failed.length - MAX_FAILED_SHOWN} more</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
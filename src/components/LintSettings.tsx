@@ -0,0 +1,117 @@
+"use client";
+
+import { DEFAULT_LINT_OPTIONS, DEFAULT_LINT_SEVERITIES, LintOptions, LintRule, WeekOrderFix } from "@/lib/lint";
+import { IssueSeverity } from "@/lib/validation";
+
+interface LintSettingsProps {
+  options: LintOptions;
+  onChange: (options: LintOptions) => void;
+}
+
+const RULE_LABELS: Record<LintRule, string> = {
+  'week-gap': "Missing weeks",
+  'duplicate-week': "Duplicate week numbers",
+  'week-order': "Weeks out of order",
+  'empty-topic': "Empty topics",
+  'short-breakdown': "Short breakdowns",
+  'term-length': "Term length out of range",
+};
+
+const inputClassName = "border border-gray-300 rounded-md text-sm px-2 py-1 text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function LintSettings({ options, onChange }: LintSettingsProps) {
+  const settings = { ...DEFAULT_LINT_OPTIONS, ...options };
+  const severities = { ...DEFAULT_LINT_SEVERITIES, ...options.rules };
+
+  const update = (changes: Partial<LintOptions>) => onChange({ ...options, ...changes });
+
+  const updateNumber = (key: 'minWeeksPerTerm' | 'maxWeeksPerTerm' | 'minBreakdownLength', value: string) => {
+    const number = parseInt(value, 10);
+    update({ [key]: isNaN(number) ? undefined : number });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+      <div>
+        <h3 className="font-semibold mb-2 text-gray-800">🔎 Content checks:</h3>
+        <div className="space-y-1">
+          {(Object.keys(RULE_LABELS) as LintRule[]).map((rule) => (
+            <label key={rule} className="flex items-center justify-between gap-2 text-gray-600">
+              <span>{RULE_LABELS[rule]}</span>
+              <select
+                value={severities[rule]}
+                onChange={(e) => update({
+                  rules: { ...options.rules, [rule]: e.target.value as IssueSeverity | 'off' },
+                })}
+                className={inputClassName}
+              >
+                <option value="error">Error</option>
+                <option value="warning">Warning</option>
+                <option value="info">Info</option>
+                <option value="off">Off</option>
+              </select>
+            </label>
+          ))}
+        </div>
+      </div>
+      <div>
+        <h3 className="font-semibold mb-2 text-gray-800">⚙️ Limits and fixes:</h3>
+        <div className="space-y-1 text-gray-600">
+          <label className="flex items-center justify-between gap-2">
+            <span>Weeks per term</span>
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0}
+                value={settings.minWeeksPerTerm}
+                onChange={(e) => updateNumber('minWeeksPerTerm', e.target.value)}
+                className={`${inputClassName} w-16`}
+                aria-label="Minimum weeks per term"
+              />
+              –
+              <input
+                type="number"
+                min={0}
+                value={settings.maxWeeksPerTerm}
+                onChange={(e) => updateNumber('maxWeeksPerTerm', e.target.value)}
+                className={`${inputClassName} w-16`}
+                aria-label="Maximum weeks per term"
+              />
+            </span>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span>Minimum breakdown length</span>
+            <input
+              type="number"
+              min={0}
+              value={settings.minBreakdownLength}
+              onChange={(e) => updateNumber('minBreakdownLength', e.target.value)}
+              className={`${inputClassName} w-16`}
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span>Week order</span>
+            <select
+              value={settings.fixOrder}
+              onChange={(e) => update({ fixOrder: e.target.value as WeekOrderFix })}
+              className={inputClassName}
+            >
+              <option value="none">Keep as is</option>
+              <option value="sort">Sort by week number</option>
+              <option value="renumber">Sort and renumber 1..n</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.blockOnErrors}
+              onChange={(e) => update({ blockOnErrors: e.target.checked })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Block SQL generation on content errors</span>
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { SqlDialect, StringLiteralStyle } from "@/lib/dialects";
+
+interface LiteralSettingsProps {
+  stringLiterals?: StringLiteralStyle;
+  dialect?: SqlDialect;
+  onChange: (stringLiterals: StringLiteralStyle) => void;
+}
+
+const inputClassName = "border border-gray-300 rounded-md text-sm px-2 py-1 text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+// How string values are written into the SQL; only PostgreSQL has a choice
+export default function LiteralSettings({ stringLiterals, dialect, onChange }: LiteralSettingsProps) {
+  const postgres = (dialect || 'postgresql') === 'postgresql';
+
+  return (
+    <div className="text-sm">
+      <h3 className="font-semibold mb-2 text-gray-800">🔤 String literals:</h3>
+      <div className="flex flex-wrap items-center gap-2 text-gray-600">
+        <select
+          value={postgres ? stringLiterals || 'quoted' : 'quoted'}
+          onChange={(e) => onChange(e.target.value as StringLiteralStyle)}
+          className={inputClassName}
+          disabled={!postgres}
+        >
+          <option value="quoted">Quoted (&apos;it&apos;&apos;s&apos;)</option>
+          <option value="dollar">Dollar-quoted ($$it&apos;s$$)</option>
+        </select>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        {postgres
+          ? "Values are written exactly, including backslashes, line breaks and control characters. PostgreSQL cannot store NUL characters, so they are left out."
+          : "Dollar quoting is only available for PostgreSQL. Control characters are written as escapes or character functions."}
+      </p>
+    </div>
+  );
+}
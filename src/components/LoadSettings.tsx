@@ -0,0 +1,65 @@
+"use client";
+
+import { TransactionMode } from "@/lib/batching";
+import { ConvertOptions } from "@/lib/convert";
+
+type LoadOptions = Pick<ConvertOptions, 'transaction' | 'batchSize' | 'chunkSize'>;
+
+interface LoadSettingsProps {
+  options: LoadOptions;
+  onChange: (changes: LoadOptions) => void;
+}
+
+const inputClassName = "border border-gray-300 rounded-md text-sm px-2 py-1 text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function LoadSettings({ options, onChange }: LoadSettingsProps) {
+  const updateNumber = (key: 'batchSize' | 'chunkSize', value: string) => {
+    const number = parseInt(value, 10);
+    onChange({ [key]: isNaN(number) || number < 1 ? undefined : number });
+  };
+
+  return (
+    <div className="text-sm">
+      <h3 className="font-semibold mb-2 text-gray-800">📦 Large loads:</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-gray-600">
+        <label className="flex items-center justify-between gap-2">
+          <span>Transaction</span>
+          <select
+            value={options.transaction || 'none'}
+            onChange={(e) => onChange({ transaction: e.target.value as TransactionMode })}
+            className={inputClassName}
+          >
+            <option value="none">None</option>
+            <option value="script">Whole script</option>
+            <option value="level">Per educational level</option>
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>Rows per INSERT</span>
+          <input
+            type="number"
+            min={1}
+            value={options.batchSize || 1}
+            onChange={(e) => updateNumber('batchSize', e.target.value)}
+            className={`${inputClassName} w-20`}
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>Split into parts of at most</span>
+          <span className="flex items-center gap-1">
+            <input
+              type="number"
+              min={1}
+              value={options.chunkSize || ""}
+              placeholder="off"
+              onChange={(e) => updateNumber('chunkSize', e.target.value)}
+              className={`${inputClassName} w-24`}
+              aria-label="Maximum characters per part"
+            />
+            characters
+          </span>
+        </label>
+      </div>
+    </div>
+  );
+}
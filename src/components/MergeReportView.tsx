@@ -0,0 +1,47 @@
+"use client";
+
+import { MergeConflict, MergeSource } from "@/lib/merge";
+
+interface MergeReportViewProps {
+  conflicts: MergeConflict[];
+}
+
+const sourceText = (source: MergeSource): string => {
+  if (source.item === null) return `left out (only in ${source.overridden.join(", ")})`;
+  return source.overridden.length > 0 ? `${source.item}, replaces ${source.overridden.join(", ")}` : source.item;
+};
+
+// Subjects that several items had with different content, and where each of
+// their weeks and books came from
+export default function MergeReportView({ conflicts }: MergeReportViewProps) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3">
+      <h3 className="text-sm font-medium text-yellow-800">🧩 Merge conflicts: {conflicts.length} subject(s)</h3>
+      <div className="mt-2 space-y-2 max-h-48 overflow-y-auto text-xs text-gray-700">
+        {conflicts.map((conflict, index) => (
+          <div key={index}>
+            <p className="font-medium">
+              {conflict.educational_level} / {conflict.subject_name}{" "}
+              <span className="text-gray-500">(items {conflict.items.join(", ")})</span>
+            </p>
+            <ul className="ml-4 font-mono">
+              <li>introduction: {sourceText(conflict.introduction)}</li>
+              {conflict.weeks.map((week, weekIndex) => (
+                <li key={`week-${weekIndex}`} className={week.overridden.length > 0 ? "text-yellow-800" : ""}>
+                  {week.term_name} week {week.week_number}: {sourceText(week)}
+                </li>
+              ))}
+              {conflict.books.map((book, bookIndex) => (
+                <li key={`book-${bookIndex}`} className={book.overridden.length > 0 ? "text-yellow-800" : ""}>
+                  book {book.title}: {sourceText(book)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { MergeStrategy } from "@/lib/merge";
+
+interface MergeSettingsProps {
+  merge?: MergeStrategy;
+  onChange: (merge: MergeStrategy | undefined) => void;
+}
+
+const inputClassName = "border border-gray-300 rounded-md text-sm px-2 py-1 text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const DESCRIPTIONS: Record<MergeStrategy, string> = {
+  'last-wins': "A subject in several items is taken whole from the last of them.",
+  'first-wins': "A subject in several items is taken whole from the first of them.",
+  'merge-by-week-number': "Weeks are combined by term and week number and books by ISBN or title; the later item wins where both have one.",
+  'fail-on-conflict': "Levels whose copies differ are not converted.",
+};
+
+// How items for the same educational level and subject are combined
+export default function MergeSettings({ merge, onChange }: MergeSettingsProps) {
+  return (
+    <div className="text-sm">
+      <h3 className="font-semibold mb-2 text-gray-800">🧩 Repeated levels:</h3>
+      <div className="flex flex-wrap items-center gap-2 text-gray-600">
+        <span>Merge strategy</span>
+        <select
+          value={merge || ""}
+          onChange={(e) => onChange(e.target.value ? e.target.value as MergeStrategy : undefined)}
+          className={inputClassName}
+        >
+          <option value="">None (one upsert per item)</option>
+          <option value="last-wins">Last item wins</option>
+          <option value="first-wins">First item wins</option>
+          <option value="merge-by-week-number">Merge by week number</option>
+          <option value="fail-on-conflict">Fail on conflict</option>
+        </select>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        {merge
+          ? `${DESCRIPTIONS[merge]} The conflict report lists which weeks and books came from which item.`
+          : "Every item gets its own upserts, so the last item with a subject silently replaces the others. Not available for large files."}
+      </p>
+    </div>
+  );
+}
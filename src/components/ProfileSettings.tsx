@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { BUILTIN_PROFILES, detectProfile, MappingProfile, validateProfile } from "@/lib/profiles";
+
+interface ProfileSettingsProps {
+  // The pasted JSON, for suggesting a profile
+  input: string;
+  profile?: MappingProfile;
+  onChange: (profile: MappingProfile | undefined) => void;
+}
+
+const PROFILES_KEY = "curriculum-converter.mapping-profiles";
+
+const inputClassName = "border border-gray-300 rounded-md text-sm px-2 py-1 text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+const buttonClassName = "inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const loadProfiles = (): MappingProfile[] => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(PROFILES_KEY) || "[]");
+    return Array.isArray(stored) ? stored.filter((profile) => validateProfile(profile).length === 0) : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+const saveProfiles = (profiles: MappingProfile[]) => {
+  window.localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+const isBuiltin = (name: string): boolean => BUILTIN_PROFILES.some((profile) => profile.name === name);
+
+export default function ProfileSettings({ input, profile, onChange }: ProfileSettingsProps) {
+  const [saved, setSaved] = useState<MappingProfile[]>([]);
+  const [editorText, setEditorText] = useState("");
+  const [editorErrors, setEditorErrors] = useState<string[]>([]);
+  const [showEditor, setShowEditor] = useState(false);
+
+  // Saved profiles live in localStorage, which is only available after mounting
+  useEffect(() => {
+    setSaved(loadProfiles());
+  }, []);
+
+  const profiles = useMemo(() => [...BUILTIN_PROFILES, ...saved], [saved]);
+
+  const suggestion = useMemo(() => {
+    if (!input.trim()) return null;
+    try {
+      return detectProfile(JSON.parse(input), profiles);
+    } catch (error) {
+      return null;
+    }
+  }, [input, profiles]);
+
+  const selectedName = profile ? profile.name : "standard";
+  const selectedProfile = profiles.filter((candidate) => candidate.name === selectedName)[0];
+
+  const selectProfile = (name: string) => {
+    const selected = profiles.filter((candidate) => candidate.name === name)[0];
+    // The standard layout needs no profile
+    onChange(!selected || name === "standard" ? undefined : selected);
+  };
+
+  const openEditor = () => {
+    const base = profile || BUILTIN_PROFILES[0];
+    setEditorText(JSON.stringify(isBuiltin(base.name) ? { ...base, name: `${base.name}-custom` } : base, null, 2));
+    setEditorErrors([]);
+    setShowEditor(true);
+  };
+
+  const saveEditor = () => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(editorText);
+    } catch (error) {
+      setEditorErrors([`Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}`]);
+      return;
+    }
+
+    const problems = validateProfile(parsed);
+    const candidate = parsed as MappingProfile;
+    if (problems.length === 0 && isBuiltin(candidate.name)) {
+      problems.push(`'${candidate.name}' is a built-in profile; choose another name`);
+    }
+    setEditorErrors(problems);
+    if (problems.length > 0) return;
+
+    const next = [...saved.filter((stored) => stored.name !== candidate.name), candidate];
+    saveProfiles(next);
+    setSaved(next);
+    setShowEditor(false);
+    onChange(candidate);
+  };
+
+  const deleteProfile = () => {
+    const next = saved.filter((stored) => stored.name !== selectedName);
+    saveProfiles(next);
+    setSaved(next);
+    onChange(undefined);
+  };
+
+  return (
+    <div className="text-sm">
+      <h3 className="font-semibold mb-2 text-gray-800">🧭 Input layout:</h3>
+      <div className="flex flex-wrap items-center gap-2 text-gray-600">
+        <span>Mapping profile</span>
+        <select
+          value={selectedName}
+          onChange={(e) => selectProfile(e.target.value)}
+          className={inputClassName}
+        >
+          {profiles.map((candidate) => (
+            <option key={candidate.name} value={candidate.name}>
+              {candidate.name}{isBuiltin(candidate.name) ? "" : " (saved)"}
+            </option>
+          ))}
+        </select>
+        <button onClick={openEditor} className={buttonClassName}>
+          ✏️ Edit as new profile
+        </button>
+        <button onClick={deleteProfile} disabled={isBuiltin(selectedName)} className={buttonClassName}>
+          Delete
+        </button>
+      </div>
+
+      {selectedProfile && selectedProfile.description && (
+        <p className="mt-1 text-xs text-gray-500">{selectedProfile.description}</p>
+      )}
+
+      {suggestion && suggestion.profile.name !== selectedName && (
+        <p className="mt-2 text-gray-600">
+          💡 The input looks like the <strong>{suggestion.profile.name}</strong> layout
+          ({Math.round(suggestion.score * 100)}% of its fields found).{" "}
+          <button
+            onClick={() => selectProfile(suggestion.profile.name)}
+            className="text-blue-700 underline hover:text-blue-900"
+          >
+            Use it
+          </button>
+        </p>
+      )}
+
+      {showEditor && (
+        <div className="mt-3">
+          <p className="text-xs text-gray-500 mb-1">
+            Fields name JSON pointers relative to the level, subject, term or week they belong to. A list of
+            pointers is tried in order; <code>{"{ \"path\": ..., \"transform\": [...] }"}</code> applies trim,
+            string, number, join or split to the value.
+          </p>
+          <textarea
+            value={editorText}
+            onChange={(e) => setEditorText(e.target.value)}
+            className="w-full h-64 p-2 font-mono text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            spellCheck={false}
+            aria-label="Mapping profile JSON"
+          />
+          <div className="flex items-center gap-2 mt-2">
+            <button onClick={saveEditor} className={buttonClassName}>
+              💾 Save and use
+            </button>
+            <button onClick={() => setShowEditor(false)} className={buttonClassName}>
+              Cancel
+            </button>
+          </div>
+          {editorErrors.map((error, index) => (
+            <p key={index} className="mt-1 text-red-600">❌ {error}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { OutputMode } from "@/lib/convert";
+import { ProvenanceOptions, ProvenanceStore } from "@/lib/provenance";
+
+interface ProvenanceSettingsProps {
+  provenance?: ProvenanceOptions;
+  outputMode?: OutputMode;
+  onChange: (provenance: ProvenanceOptions) => void;
+}
+
+const inputClassName = "border border-gray-300 rounded-md text-sm px-2 py-1 text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function ProvenanceSettings({ provenance, outputMode, onChange }: ProvenanceSettingsProps) {
+  const current = provenance || {};
+
+  return (
+    <div className="text-sm">
+      <h3 className="font-semibold mb-2 text-gray-800">🏷️ Provenance:</h3>
+      <div className="flex flex-wrap items-center gap-2 text-gray-600">
+        <span>Record run_id, source file, import time and usage</span>
+        <select
+          value={current.store || ""}
+          onChange={(e) => onChange({ ...current, store: (e.target.value || undefined) as ProvenanceStore | undefined })}
+          className={inputClassName}
+        >
+          <option value="">Not at all</option>
+          <option value="columns" disabled={outputMode === 'relational'}>As extra curriculum_data columns</option>
+          <option value="table">In the curriculum_imports table</option>
+        </select>
+        {current.sourceFile && <span className="text-gray-500">Source file: {current.sourceFile}</span>}
+      </div>
+      {current.store === 'table' && (
+        <p className="mt-1 text-xs text-gray-500">
+          Each import adds one row per subject, keyed by educational level and subject name; the rollback removes them again.
+        </p>
+      )}
+      {current.store === 'columns' && (
+        <p className="mt-1 text-xs text-gray-500">
+          The columns hold the latest import of each subject. Include the schema to add them to the table.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { OutputMode } from "@/lib/convert";
+import { ProvenanceStore } from "@/lib/provenance";
+import { pushCurriculum, PushResult } from "@/lib/push";
+import { TargetSchema } from "@/lib/sql";
+import { NormalizedLevel } from "@/lib/types";
+
+interface PushPanelProps {
+  levels: NormalizedLevel[];
+  outputMode?: OutputMode;
+  target?: TargetSchema;
+  provenance?: ProvenanceStore;
+}
+
+const inputClassName = "border border-gray-300 rounded-md text-sm px-2 py-1 text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+const buttonClassName = "inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function PushPanel({ levels, outputMode, target, provenance }: PushPanelProps) {
+  const [url, setUrl] = useState("");
+  // Kept in memory only, never stored
+  const [apiKey, setApiKey] = useState("");
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<PushResult | null>(null);
+
+  const subjectCount = levels.reduce((count, level) => count + level.subjects.length, 0);
+  const disabled = running || !url.trim() || subjectCount === 0 || outputMode === 'relational';
+
+  const run = async (dryRun: boolean) => {
+    setRunning(true);
+    setResult(null);
+    try {
+      setResult(await pushCurriculum(levels, { url: url.trim(), apiKey: apiKey.trim() || undefined, target, provenance }, { dryRun }));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="text-sm">
+      <h3 className="font-semibold mb-2 text-gray-800">🚀 Push to Supabase / PostgREST:</h3>
+      <div className="flex flex-wrap items-center gap-2 text-gray-600">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://<project>.supabase.co/rest/v1"
+          className={`${inputClassName} w-80`}
+          aria-label="REST endpoint URL"
+        />
+        <input
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          placeholder="API key (optional)"
+          className={`${inputClassName} w-56`}
+          aria-label="API key"
+          autoComplete="off"
+        />
+        <button onClick={() => run(true)} disabled={disabled} className={buttonClassName}>
+          🔍 Dry run
+        </button>
+        <button onClick={() => run(false)} disabled={disabled} className={buttonClassName}>
+          🚀 Push {subjectCount} row(s)
+        </button>
+        {running && <span className="text-gray-500">Working...</span>}
+      </div>
+
+      {outputMode === 'relational' && (
+        <p className="text-xs text-gray-500 mt-2">
+          Push writes curriculum_data rows; switch the output mode to JSON columns to use it.
+        </p>
+      )}
+
+      {result && (
+        <div className="mt-3 space-y-1">
+          {result.errors.map((error, index) => (
+            <p key={index} className="text-red-600">❌ {error}</p>
+          ))}
+          {result.errors.length > 0 && !result.dryRun && (
+            <p className="text-gray-600">{result.pushed} row(s) were written before the error.</p>
+          )}
+          {result.errors.length === 0 && (
+            <>
+              <p className="text-green-700">
+                {result.dryRun
+                  ? `✅ Dry run: ${result.inserted.length} row(s) would be inserted, ${result.updated.length} updated`
+                  : `✅ Pushed ${result.pushed} row(s)${result.recorded > 0 ? `, recorded ${result.recorded} import(s)` : ""}`}
+              </p>
+              {result.inserted.length > 0 && (
+                <p className="text-gray-600">
+                  <span className="font-medium">{result.dryRun ? "Would insert" : "Inserted"}:</span> {result.inserted.join(", ")}
+                </p>
+              )}
+              {result.updated.length > 0 && (
+                <p className="text-gray-600">
+                  <span className="font-medium">{result.dryRun ? "Would update" : "Updated"}:</span> {result.updated.join(", ")}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { RunSummary } from "@/lib/provenance";
+
+interface RunSummaryViewProps {
+  runs: RunSummary[];
+}
+
+const formatCount = (value: number | null): string => (value === null ? "—" : value.toLocaleString());
+
+// One row per extraction run of the converted input
+export default function RunSummaryView({ runs }: RunSummaryViewProps) {
+  if (runs.length === 0) return null;
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-md p-3">
+      <h3 className="text-sm font-medium text-blue-800">📊 Import runs</h3>
+      <table className="mt-2 w-full text-xs text-left text-gray-700">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="pr-2 font-medium">Run</th>
+            <th className="pr-2 font-medium">Source file</th>
+            <th className="pr-2 font-medium">Levels</th>
+            <th className="pr-2 font-medium text-right">Subjects</th>
+            <th className="pr-2 font-medium text-right">Pages</th>
+            <th className="font-medium text-right">Output tokens</th>
+          </tr>
+        </thead>
+        <tbody>
+          {runs.map((run, index) => (
+            <tr key={index} className="align-top">
+              <td className="pr-2 font-mono break-all">{run.run_id || <span className="text-gray-400">(none)</span>}</td>
+              <td className="pr-2 break-all">{run.source_file || <span className="text-gray-400">(pasted)</span>}</td>
+              <td className="pr-2">{run.levels.join(", ")}</td>
+              <td className="pr-2 text-right">{run.subjects}</td>
+              <td className="pr-2 text-right">{formatCount(run.pages_extracted)}</td>
+              <td className="text-right">{formatCount(run.output_tokens)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  ColumnMapping,
+  guessMapping,
+  MappingPreset,
+  missingFields,
+  SPREADSHEET_FIELDS,
+  SpreadsheetField,
+  SpreadsheetTable,
+  spreadsheetToCurriculum,
+} from "@/lib/spreadsheet";
+import { formatIssue, ValidationIssue } from "@/lib/validation";
+
+interface SpreadsheetImportProps {
+  fileName: string;
+  table: SpreadsheetTable;
+  onImport: (json: string) => void;
+  onClose: () => void;
+}
+
+const PRESETS_KEY = "curriculum-converter.mapping-presets";
+const PREVIEW_ROWS = 5;
+
+const inputClassName = "border border-gray-300 rounded-md text-sm px-2 py-1 text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+const buttonClassName = "inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const loadPresets = (): MappingPreset[] => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(PRESETS_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+const savePresets = (presets: MappingPreset[]) => {
+  window.localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
+
+// A preset fits a sheet when every column it maps exists there
+const presetFits = (preset: MappingPreset, headers: string[]): boolean => {
+  return missingFields(preset.mapping, headers).length === 0 &&
+    SPREADSHEET_FIELDS.every(({ field }) => !preset.mapping[field] || headers.indexOf(preset.mapping[field] as string) !== -1);
+};
+
+export default function SpreadsheetImport({ fileName, table, onImport, onClose }: SpreadsheetImportProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessMapping(table.headers));
+  const [presets, setPresets] = useState<MappingPreset[]>([]);
+  const [presetName, setPresetName] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [imported, setImported] = useState<number | null>(null);
+
+  // Presets live in localStorage, which is only available after mounting.
+  // The first saved preset that fits the sheet replaces the guessed mapping.
+  useEffect(() => {
+    const stored = loadPresets();
+    setPresets(stored);
+    const fitting = stored.filter((preset) => presetFits(preset, table.headers))[0];
+    if (fitting) {
+      setMapping(fitting.mapping);
+      setPresetName(fitting.name);
+    }
+  }, [table]);
+
+  const updateField = (field: SpreadsheetField, header: string) => {
+    setMapping({ ...mapping, [field]: header || undefined });
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = presets.filter((candidate) => candidate.name === name)[0];
+    if (preset) {
+      setMapping(preset.mapping);
+      setPresetName(preset.name);
+    }
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const next = [...presets.filter((preset) => preset.name !== name), { name, mapping }];
+    savePresets(next);
+    setPresets(next);
+  };
+
+  const deletePreset = () => {
+    const next = presets.filter((preset) => preset.name !== presetName.trim());
+    savePresets(next);
+    setPresets(next);
+    setPresetName("");
+  };
+
+  const runImport = () => {
+    const result = spreadsheetToCurriculum(table, mapping);
+    setErrors(result.errors);
+    setIssues(result.issues);
+    if (result.errors.length === 0) {
+      setImported(result.levels.length);
+      onImport(result.json);
+    } else {
+      setImported(null);
+    }
+  };
+
+  const missing = missingFields(mapping, table.headers);
+  const mappedColumns = SPREADSHEET_FIELDS
+    .map(({ field }) => mapping[field])
+    .filter((header): header is string => Boolean(header));
+
+  return (
+    <div className="text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-gray-800">📊 Import spreadsheet: {fileName}</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-800" aria-label="Close spreadsheet import">
+          ✕
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-gray-600">
+        <span>Preset:</span>
+        <select
+          value={presets.some((preset) => preset.name === presetName) ? presetName : ""}
+          onChange={(e) => applyPreset(e.target.value)}
+          className={inputClassName}
+        >
+          <option value="">Guessed from headers</option>
+          {presets.map((preset) => (
+            <option key={preset.name} value={preset.name}>{preset.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Preset name"
+          className={`${inputClassName} w-40`}
+          aria-label="Preset name"
+        />
+        <button onClick={savePreset} disabled={!presetName.trim()} className={buttonClassName}>
+          💾 Save preset
+        </button>
+        <button
+          onClick={deletePreset}
+          disabled={!presets.some((preset) => preset.name === presetName.trim())}
+          className={buttonClassName}
+        >
+          Delete
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3 text-gray-600">
+        {SPREADSHEET_FIELDS.map(({ field, label, required }) => (
+          <label key={field} className="flex flex-col gap-1">
+            <span>
+              {label}
+              {required && <span className="text-red-600"> *</span>}
+            </span>
+            <select
+              value={mapping[field] || ""}
+              onChange={(e) => updateField(field, e.target.value)}
+              className={inputClassName}
+            >
+              <option value="">(not in sheet)</option>
+              {table.headers.map((header, index) => (
+                <option key={index} value={header}>{header}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto mb-3 border border-gray-200 rounded-md">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="bg-gray-50 text-left">
+              {table.headers.map((header, index) => (
+                <th
+                  key={index}
+                  className={`p-2 font-medium ${mappedColumns.indexOf(header) !== -1 ? "text-blue-700" : "text-gray-400"}`}
+                >
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+              <tr key={rowIndex} className="border-t border-gray-100">
+                {table.headers.map((_, index) => (
+                  <td key={index} className="p-2 text-gray-700 truncate max-w-xs">{row[index]}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="px-2 py-1 text-xs text-gray-500">
+          {table.rows.length} row(s); showing the first {Math.min(PREVIEW_ROWS, table.rows.length)}.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button onClick={runImport} disabled={missing.length > 0} className={buttonClassName}>
+          📥 Import into input
+        </button>
+        {missing.length > 0 && (
+          <span className="text-gray-500">
+            Map {missing.map((field) => SPREADSHEET_FIELDS.filter((entry) => entry.field === field)[0].label).join(", ")} first.
+          </span>
+        )}
+      </div>
+
+      {(errors.length > 0 || issues.length > 0 || imported !== null) && (
+        <div className="mt-3 space-y-1 max-h-40 overflow-y-auto">
+          {errors.map((error, index) => (
+            <p key={index} className="text-red-600">❌ {error}</p>
+          ))}
+          {imported !== null && (
+            <p className="text-green-700">✅ Imported {imported} educational level(s) into the input.</p>
+          )}
+          {issues.map((issue, index) => (
+            <p key={index} className="text-gray-600 text-xs">{formatIssue(issue)}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import { OutputMode } from "@/lib/convert";
+import { ConstantValue, curriculumColumns, CurriculumField, TargetSchema, validateTarget } from "@/lib/sql";
+import { TermLayout } from "@/lib/types";
+
+interface TargetSettingsProps {
+  target?: TargetSchema;
+  outputMode?: OutputMode;
+  // Terms with a week column each
+  terms?: TermLayout;
+  onChange: (target: TargetSchema | undefined) => void;
+}
+
+const inputClassName = "border border-gray-300 rounded-md text-sm px-2 py-1 text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+// Drops empty settings so an untouched form means the standard table
+const clean = (target: TargetSchema): TargetSchema | undefined => {
+  const result: TargetSchema = {};
+  if (target.table) result.table = target.table;
+  if (target.schema) result.schema = target.schema;
+  const columns = target.columns || {};
+  const named = Object.keys(columns).filter((field) => columns[field as CurriculumField]);
+  if (named.length > 0) {
+    result.columns = {};
+    named.forEach((field) => {
+      (result.columns as Record<string, string>)[field] = columns[field as CurriculumField] as string;
+    });
+  }
+  if (target.conflictColumns && target.conflictColumns.length > 0) result.conflictColumns = target.conflictColumns;
+  if (target.extraColumns && Object.keys(target.extraColumns).length > 0) result.extraColumns = target.extraColumns;
+  if (target.updatedAtColumn !== undefined) result.updatedAtColumn = target.updatedAtColumn;
+  if (target.updatedAtExpression) result.updatedAtExpression = target.updatedAtExpression;
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+export default function TargetSettings({ target, outputMode, terms, onChange }: TargetSettingsProps) {
+  const current = target || {};
+  const [extraText, setExtraText] = useState(() => (current.extraColumns ? JSON.stringify(current.extraColumns) : ""));
+  const [extraError, setExtraError] = useState("");
+
+  const update = (changes: Partial<TargetSchema>) => {
+    onChange(clean({ ...current, ...changes }));
+  };
+
+  const updateColumn = (field: CurriculumField, name: string) => {
+    update({ columns: { ...(current.columns || {}), [field]: name.trim() } });
+  };
+
+  const applyExtra = (text: string) => {
+    setExtraText(text);
+    if (!text.trim()) {
+      setExtraError("");
+      update({ extraColumns: undefined });
+      return;
+    }
+    try {
+      const parsed = JSON.parse(text);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        setExtraError("Extra columns must be a JSON object");
+        return;
+      }
+      setExtraError("");
+      update({ extraColumns: parsed as Record<string, ConstantValue> });
+    } catch (error) {
+      setExtraError(`Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  };
+
+  const errors = validateTarget(current, terms);
+
+  return (
+    <div className="text-sm">
+      <h3 className="font-semibold mb-2 text-gray-800">🗄️ Target table:</h3>
+      {outputMode === 'relational' && (
+        <p className="mb-2 text-gray-500">These settings apply to the curriculum_data (JSON columns) layout only.</p>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-gray-600">
+        <label className="flex items-center justify-between gap-2">
+          <span>Schema</span>
+          <input
+            type="text"
+            value={current.schema || ""}
+            placeholder="none"
+            onChange={(e) => update({ schema: e.target.value.trim() })}
+            className={`${inputClassName} w-40`}
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>Table</span>
+          <input
+            type="text"
+            value={current.table || ""}
+            placeholder="curriculum_data"
+            onChange={(e) => update({ table: e.target.value.trim() })}
+            className={`${inputClassName} w-40`}
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>Conflict columns</span>
+          <input
+            type="text"
+            value={(current.conflictColumns || []).join(", ")}
+            placeholder="level and subject columns"
+            onChange={(e) => update({
+              conflictColumns: e.target.value.split(",").map((name) => name.trim()).filter((name) => name),
+            })}
+            className={`${inputClassName} w-48`}
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>Updated-at column</span>
+          <input
+            type="text"
+            value={current.updatedAtColumn === undefined ? "updated_at" : current.updatedAtColumn || ""}
+            placeholder="none"
+            onChange={(e) => update({
+              updatedAtColumn: e.target.value.trim() === "updated_at" ? undefined : e.target.value.trim() || null,
+            })}
+            className={`${inputClassName} w-40`}
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>Updated-at value</span>
+          <input
+            type="text"
+            value={current.updatedAtExpression || ""}
+            placeholder="current time"
+            onChange={(e) => update({ updatedAtExpression: e.target.value.trim() })}
+            className={`${inputClassName} w-40`}
+          />
+        </label>
+      </div>
+
+      <p className="mt-3 mb-1 text-gray-600">
+        Column names (JSON fields given the same name share one column, holding an object keyed by field):
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-gray-600">
+        {curriculumColumns(terms).map((column) => (
+          <label key={column.name} className="flex flex-col gap-1">
+            <span className="text-xs">{column.name}</span>
+            <input
+              type="text"
+              value={(current.columns || {})[column.name as CurriculumField] || ""}
+              placeholder={column.name}
+              onChange={(e) => updateColumn(column.name as CurriculumField, e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+        ))}
+      </div>
+
+      <label className="flex flex-col gap-1 mt-3 text-gray-600">
+        <span>Extra constant columns, e.g. {"{ \"tenant_id\": 42, \"source_run_id\": { \"sql\": \"current_setting('app.run_id')\" } }"}</span>
+        <input
+          type="text"
+          value={extraText}
+          onChange={(e) => applyExtra(e.target.value)}
+          className={`${inputClassName} font-mono`}
+          spellCheck={false}
+        />
+      </label>
+
+      {(extraError || errors.length > 0) && (
+        <div className="mt-2 space-y-1">
+          {extraError && <p className="text-red-600">❌ {extraError}</p>}
+          {errors.map((error, index) => (
+            <p key={index} className="text-red-600">❌ {error}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
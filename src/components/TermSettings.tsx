@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_TERMS, TermOptions, validateTermOptions } from "@/lib/terms";
+
+interface TermSettingsProps {
+  terms?: TermOptions;
+  onChange: (terms: TermOptions | undefined) => void;
+}
+
+const inputClassName = "border border-gray-300 rounded-md text-sm px-2 py-1 text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const COUNTS: number[] = [];
+for (let count = 1; count <= MAX_TERMS; count++) COUNTS.push(count);
+
+// Drops empty settings so an untouched form means the standard three terms
+const clean = (terms: TermOptions): TermOptions | undefined => {
+  const result: TermOptions = {};
+  if (terms.count !== undefined) result.count = terms.count;
+  if (terms.names && terms.names.length > 0) result.names = terms.names;
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+export default function TermSettings({ terms, onChange }: TermSettingsProps) {
+  const current = terms || {};
+  const [namesText, setNamesText] = useState(() => (current.names || []).join(", "));
+
+  const update = (changes: Partial<TermOptions>) => onChange(clean({ ...current, ...changes }));
+
+  const applyNames = (text: string) => {
+    setNamesText(text);
+    const names = text.split(",").map((name) => name.trim());
+    update({ names: names.length === 1 && !names[0] ? undefined : names });
+  };
+
+  const errors = validateTermOptions(current);
+
+  return (
+    <div className="text-sm">
+      <h3 className="font-semibold mb-2 text-gray-800">🗓️ Terms:</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-gray-600">
+        <label className="flex items-center justify-between gap-2">
+          <span>Terms per year</span>
+          <select
+            value={current.count === undefined ? "" : String(current.count)}
+            onChange={(e) => update({
+              count: e.target.value === "" ? undefined : e.target.value === 'auto' ? 'auto' : Number(e.target.value),
+            })}
+            className={inputClassName}
+          >
+            <option value="">3 (standard)</option>
+            <option value="auto">Detect from input</option>
+            {COUNTS.map((count) => (
+              <option key={count} value={String(count)}>{count}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2 md:col-span-2">
+          <span>Names</span>
+          <input
+            type="text"
+            value={namesText}
+            placeholder="Term 1, Term 2, ..."
+            onChange={(e) => applyNames(e.target.value)}
+            className={`${inputClassName} flex-1`}
+          />
+        </label>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        Weeks of term n are read from term_n_weeks; a legacy weeks array is split by each week&apos;s term field.
+        Terms beyond the number set here are reported and left out. Detection is not available for large files.
+      </p>
+      {errors.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {errors.map((error, index) => (
+            <p key={index} className="text-red-600">❌ {error}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  AliasRegistry,
+  canonicalizeLevel,
+  describeConflict,
+  extendRegistry,
+  findSubjectConflicts,
+  validateAliasRegistry,
+} from "./aliases";
+import { convertCurriculum } from "./convert";
+import { NormalizedLevel } from "./types";
+import { IssueContext } from "./validation";
+
+const item = (name: string, alternativeNames: string[], subjects: Array<[string, string]>) => ({
+  educational_level: name,
+  alternative_names: alternativeNames,
+  subjects: subjects.map(([subjectName, introduction]) => ({
+    subject_name: subjectName,
+    introduction,
+    term_1_weeks: [{ week_number: 1, topic: "Overview", breakdown: "What the term covers", note: null }],
+    term_2_weeks: [],
+    term_3_weeks: [],
+    recommended_books: [],
+  })),
+});
+
+const read = (...items: unknown[]): NormalizedLevel[] => {
+  const result = convertCurriculum(items, { lint: false });
+  expect(result.errors).toEqual([]);
+  return result.levels;
+};
+
+const registry: AliasRegistry = {
+  levels: { "Primary 2": ["Basic 2", "Pry 2"] },
+  subjects: { "Mathematics": ["Maths", "Math"] },
+};
+
+describe("canonicalizeLevel", () => {
+  it("renames a level and its subjects found through an alias", () => {
+    const [level] = read(item("basic-2", [], [["maths", "Numbers"], ["English", "Reading"]]));
+    const context: IssueContext = { path: "[0]", issues: [] };
+    canonicalizeLevel(level, registry, context);
+
+    expect(level.educational_level).toBe("Primary 2");
+    expect(level.alternative_names).toEqual(["Basic 2", "Pry 2"]);
+    expect(level.subjects.map((subject) => [subject.educational_level, subject.subject_name])).toEqual([
+      ["Primary 2", "Mathematics"],
+      ["Primary 2", "English"],
+    ]);
+    expect(context.issues.map((issue) => [issue.path, issue.resolution, issue.message])).toEqual([
+      ['[0].educational_level', 'auto-fixed', "Educational level 'basic-2' renamed to its canonical name 'Primary 2'"],
+      ['[0].subjects[0].subject_name', 'auto-fixed', "Subject 'maths' renamed to its canonical name 'Mathematics'"],
+    ]);
+  });
+
+  it("looks a level up by its alternative names", () => {
+    const [level] = read(item("Class Two", ["PRY.2", "Year 2"], [["English", "Reading"]]));
+    canonicalizeLevel(level, registry);
+    expect(level.educational_level).toBe("Primary 2");
+    // The registry's aliases, then the level's own, then the name replaced
+    expect(level.alternative_names).toEqual(["Basic 2", "Pry 2", "Class Two", "Year 2"]);
+  });
+
+  it("leaves levels and subjects the registry does not list as they are", () => {
+    const [level] = read(item("Primary 3", ["Basic 3"], [["Science", "Plants"]]));
+    const context: IssueContext = { path: "[0]", issues: [] };
+    canonicalizeLevel(level, registry, context);
+    expect(level.educational_level).toBe("Primary 3");
+    expect(level.alternative_names).toEqual(["Basic 3"]);
+    expect(level.subjects[0].subject_name).toBe("Science");
+    expect(context.issues).toEqual([]);
+  });
+
+  it("writes the same upsert keys for every spelling", () => {
+    const result = convertCurriculum([item("Pry 2", [], [["Math", "Numbers"]])], { aliases: registry, lint: false });
+    expect(result.sql).toBe(convertCurriculum([item("Primary 2", [], [["Mathematics", "Numbers"]])], { aliases: registry, lint: false }).sql);
+  });
+});
+
+describe("extendRegistry", () => {
+  it("adds the alternative names every level arrives with", () => {
+    const levels = read(item("Primary 2", ["P2"], []), item("Primary 1", ["Basic 1"], []));
+    levels.forEach((level) => canonicalizeLevel(level, registry));
+    expect(extendRegistry(registry, levels)).toEqual({
+      levels: { "Primary 2": ["Basic 2", "Pry 2", "P2"], "Primary 1": ["Basic 1"] },
+      subjects: registry.subjects,
+    });
+  });
+});
+
+describe("validateAliasRegistry", () => {
+  it("accepts a registry with distinct names", () => {
+    expect(validateAliasRegistry(registry)).toEqual([]);
+  });
+
+  it("rejects a name claimed by two canonical names", () => {
+    expect(validateAliasRegistry({ levels: { "Primary 2": ["Basic 2"], "Primary 3": ["basic_2"] } })).toEqual([
+      "levels: 'basic_2' is listed under both 'Primary 2' and 'Primary 3'",
+    ]);
+    expect(validateAliasRegistry({ subjects: { "Mathematics": ["Maths"], "Maths": [] } })).toEqual([
+      "subjects: 'Maths' is listed under both 'Mathematics' and 'Maths'",
+    ]);
+  });
+
+  it("rejects malformed registries", () => {
+    expect(validateAliasRegistry([])).toEqual(["The alias registry must be an object with 'levels' and/or 'subjects'"]);
+    expect(validateAliasRegistry({ levels: { "Primary 2": "Basic 2" }, grades: {} })).toEqual([
+      "Unknown alias registry field 'grades'",
+      "levels.Primary 2 must be an array of non-empty strings",
+    ]);
+  });
+});
+
+describe("findSubjectConflicts", () => {
+  it("reports a subject that two levels have with different content", () => {
+    const levels = read(
+      item("Primary 2", [], [["Mathematics", "Numbers"], ["English", "Reading"]]),
+      item("Primary 1", [], [["Mathematics", "Counting"]]),
+      item("primary 2", [], [["Mathematics", "Numbers and shapes"], ["English", "Reading"]]),
+    );
+    const conflicts = findSubjectConflicts(levels);
+    expect(conflicts).toEqual([{
+      educational_level: "primary 2",
+      subject_name: "Mathematics",
+      first: 0,
+      second: 2,
+      fields: ["introduction"],
+    }]);
+    expect(describeConflict(conflicts[0], "a.json")).toBe(
+      "primary 2 / Mathematics also comes from a.json with different introduction; this later upsert wins",
+    );
+  });
+
+  it("reports conflicts across items renamed by the registry", () => {
+    const result = convertCurriculum([
+      item("Basic 2", [], [["Maths", "Numbers"]]),
+      item("Primary 2", [], [["Mathematics", "Numbers and shapes"]]),
+    ], { aliases: registry, lint: false });
+    expect(result.issues.filter((issue) => issue.resolution === 'reported')).toEqual([{
+      path: "[1]",
+      severity: 'warning',
+      resolution: 'reported',
+      message: "Primary 2 / Mathematics also comes from [0] with different introduction; this later upsert wins",
+    }]);
+  });
+});
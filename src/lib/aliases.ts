@@ -0,0 +1,190 @@
+import { diffSubject } from "./diff";
+import { NormalizedLevel } from "./types";
+import { childContext, IssueContext, reportIssue } from "./validation";
+
+// Level-alias registry: the canonical names of educational levels and
+// subjects, with the other names they arrive under ("Basic 2" and "Pry 2" for
+// "Primary 2"). Levels and subjects are renamed to their canonical names
+// before SQL is generated, so inputs that name them differently update the
+// same rows instead of creating duplicates.
+
+export interface AliasRegistry {
+  // Canonical level name -> the other names of the level
+  levels?: Record<string, string[]>;
+  // Canonical subject name -> the other names of the subject, in every level
+  subjects?: Record<string, string[]>;
+}
+
+// A subject that two levels of a batch both have, with different content
+export interface SubjectConflict {
+  educational_level: string;
+  subject_name: string;
+  // Indexes of the two levels in the list that was checked
+  first: number;
+  second: number;
+  // What differs: 'introduction', 'weeks' and/or 'books'
+  fields: string[];
+}
+
+type AliasEntries = Record<string, string[]>;
+
+// Names match regardless of case, spacing, dots, hyphens and underscores
+export const aliasKey = (name: string): string => name.toLowerCase().replace(/[\s._-]+/g, " ").trim();
+
+// Canonical name `name` is listed under, null when the entries do not list it
+export const canonicalName = (entries: AliasEntries | undefined, name: string): string | null => {
+  if (!entries) return null;
+  const key = aliasKey(name);
+  const matches = Object.keys(entries).filter((canonical) =>
+    aliasKey(canonical) === key || (entries[canonical] || []).some((alias) => aliasKey(alias) === key)
+  );
+  return matches.length > 0 ? matches[0] : null;
+};
+
+// The names in order without repeats (first spelling wins), leaving out
+// those matching `exclude`
+export const mergeNames = (names: string[], exclude: string): string[] => {
+  const seen = [aliasKey(exclude)];
+  return names.filter((name) => {
+    const key = aliasKey(name);
+    if (!key || seen.indexOf(key) !== -1) return false;
+    seen.push(key);
+    return true;
+  });
+};
+
+const validateEntries = (value: unknown, field: string): string[] => {
+  if (value === undefined) return [];
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [`${field} must be an object mapping canonical names to lists of aliases`];
+  }
+
+  const errors: string[] = [];
+  const entries = value as Record<string, unknown>;
+  // Which canonical name each name (canonical or alias) belongs to
+  const owners: Record<string, string> = {};
+  const claim = (name: string, canonical: string) => {
+    const key = aliasKey(name);
+    const owner = owners[key];
+    if (owner !== undefined && owner !== canonical) {
+      errors.push(`${field}: '${name}' is listed under both '${owner}' and '${canonical}'`);
+    }
+    owners[key] = canonical;
+  };
+
+  Object.keys(entries).forEach((canonical) => {
+    if (!aliasKey(canonical)) {
+      errors.push(`${field}: canonical names must not be empty`);
+      return;
+    }
+    claim(canonical, canonical);
+    const aliases = entries[canonical];
+    if (!Array.isArray(aliases) || aliases.some((alias) => typeof alias !== 'string' || !aliasKey(alias))) {
+      errors.push(`${field}.${canonical} must be an array of non-empty strings`);
+      return;
+    }
+    aliases.forEach((alias: string) => claim(alias, canonical));
+  });
+  return errors;
+};
+
+// Problems with a registry, e.g. one read from a JSON file
+export const validateAliasRegistry = (value: unknown): string[] => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ["The alias registry must be an object with 'levels' and/or 'subjects'"];
+  }
+  const registry = value as Record<string, unknown>;
+  const unknownKeys = Object.keys(registry).filter((key) => key !== 'levels' && key !== 'subjects');
+  return [
+    ...unknownKeys.map((key) => `Unknown alias registry field '${key}'`),
+    ...validateEntries(registry.levels, "levels"),
+    ...validateEntries(registry.subjects, "subjects"),
+  ];
+};
+
+// Renames the level and its subjects to their canonical names. A level not
+// listed by its own name is looked up by its alternative names. Its
+// alternative names become the registry's aliases of the level followed by
+// its own and the name replaced.
+export const canonicalizeLevel = (level: NormalizedLevel, registry: AliasRegistry, context?: IssueContext): void => {
+  const original = level.educational_level;
+  const names = [original, ...level.alternative_names];
+  const canonical = names
+    .map((name) => canonicalName(registry.levels, name))
+    .filter((name): name is string => name !== null)[0] || original;
+
+  if (canonical !== original) {
+    reportIssue(context, 'info', 'auto-fixed', `Educational level '${original}' renamed to its canonical name '${canonical}'`, 'educational_level');
+  }
+  const registered = (registry.levels && registry.levels[canonical]) || [];
+  level.educational_level = canonical;
+  level.alternative_names = mergeNames([...registered, ...names], canonical);
+
+  const subjectsContext = context && childContext(context, 'subjects');
+  level.subjects.forEach((subject, index) => {
+    subject.educational_level = level.educational_level;
+    subject.alternative_names = level.alternative_names;
+
+    const subjectName = canonicalName(registry.subjects, subject.subject_name);
+    if (subjectName !== null && subjectName !== subject.subject_name) {
+      reportIssue(
+        subjectsContext && childContext(subjectsContext, index),
+        'info',
+        'auto-fixed',
+        `Subject '${subject.subject_name}' renamed to its canonical name '${subjectName}'`,
+        'subject_name',
+      );
+      subject.subject_name = subjectName;
+    }
+  });
+};
+
+// The registry with every alternative name the (canonicalized) levels arrive
+// with added to their entries. Canonicalizing the levels again with it gives
+// every level of the same name the whole alias list, which each of its rows
+// stores; inputs converted in parts, like the files of a CLI run, can share
+// the lists through it.
+export const extendRegistry = (registry: AliasRegistry, levels: NormalizedLevel[]): AliasRegistry => {
+  const entries: AliasEntries = { ...(registry.levels || {}) };
+  levels.forEach((level) => {
+    const canonical = canonicalName(entries, level.educational_level) || level.educational_level;
+    entries[canonical] = mergeNames([...(entries[canonical] || []), ...level.alternative_names], canonical);
+  });
+  return { ...registry, levels: entries };
+};
+
+// Subjects that more than one of the levels has (by canonical level and
+// subject name) with different content. The upsert of the later one wins.
+export const findSubjectConflicts = (levels: NormalizedLevel[]): SubjectConflict[] => {
+  const conflicts: SubjectConflict[] = [];
+  levels.forEach((level, second) => {
+    level.subjects.forEach((subject) => {
+      for (let first = 0; first < second; first++) {
+        const earlier = levels[first];
+        if (aliasKey(earlier.educational_level) !== aliasKey(level.educational_level)) continue;
+        const before = earlier.subjects.filter((candidate) => aliasKey(candidate.subject_name) === aliasKey(subject.subject_name))[0];
+        if (!before) continue;
+
+        const diff = diffSubject(before, subject, level.terms);
+        const fields: string[] = [];
+        if (diff.introduction) fields.push("introduction");
+        if (diff.weeks.length > 0) fields.push("weeks");
+        if (diff.books.length > 0) fields.push("books");
+        if (fields.length > 0) {
+          conflicts.push({
+            educational_level: level.educational_level,
+            subject_name: subject.subject_name,
+            first,
+            second,
+            fields,
+          });
+        }
+      }
+    });
+  });
+  return conflicts;
+};
+
+export const describeConflict = (conflict: SubjectConflict, firstSource: string): string => {
+  return `${conflict.educational_level} / ${conflict.subject_name} also comes from ${firstSource} with different ${conflict.fields.join(", ")}; this later upsert wins`;
+};
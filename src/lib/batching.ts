@@ -0,0 +1,116 @@
+import { Dialect } from "./dialects";
+
+// Helpers for large loads: multi-row statement batches, transaction wrapping
+// and splitting a script into parts small enough for a SQL editor.
+
+// 'script' runs the whole insert script in one transaction, 'level' gives
+// every educational level its own
+export type TransactionMode = 'none' | 'script' | 'level';
+
+// Splits items into batches of at most `size`. With `key`, an item whose key
+// is already in the current batch starts a new one: PostgreSQL and SQL Server
+// reject a multi-row upsert that touches the same row twice.
+export const batchItems = <T>(items: T[], size: number, key?: (item: T) => string): T[][] => {
+  const limit = Math.max(1, Math.floor(size) || 1);
+  const batches: T[][] = [];
+  let keys: string[] = [];
+
+  items.forEach((item) => {
+    const current = batches[batches.length - 1];
+    const itemKey = key ? key(item) : "";
+    if (!current || current.length >= limit || (key && keys.indexOf(itemKey) !== -1)) {
+      batches.push([item]);
+      keys = [itemKey];
+    } else {
+      current.push(item);
+      keys.push(itemKey);
+    }
+  });
+
+  return batches;
+};
+
+const isComment = (line: string): boolean => line.indexOf("--") === 0;
+
+// Splits script lines into statements at the blank lines the generators put
+// between them. A block of comments only (such as a script header) stays with
+// the statement that follows it.
+export const splitStatements = (lines: string[]): string[] => {
+  const statements: string[] = [];
+  let current: string[] = [];
+  let pendingComments: string[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    if (current.every(isComment)) {
+      pendingComments = pendingComments.concat(current, [""]);
+    } else {
+      statements.push(pendingComments.concat(current).join("\n"));
+      pendingComments = [];
+    }
+    current = [];
+  };
+
+  lines.forEach((line) => {
+    if (line === "") {
+      flush();
+    } else {
+      current.push(line);
+    }
+  });
+  flush();
+  if (pendingComments.length > 0) {
+    statements.push(pendingComments.slice(0, -1).join("\n"));
+  }
+
+  return statements;
+};
+
+export interface ChunkOptions {
+  // Maximum length of a part in characters
+  maxLength: number;
+  // With a transaction mode other than 'none', every part is wrapped in its
+  // own transaction, since each part is run separately
+  transaction?: TransactionMode;
+}
+
+const chunkHeader = (part: number, total: number): string => `-- Part ${part} of ${total}`;
+
+// Packs the statements of each level into numbered parts of at most
+// `maxLength` characters. Levels are kept whole where they fit; a level that
+// is too long on its own is split between statements. A single statement
+// longer than `maxLength` gets a part of its own.
+export const chunkStatements = (levels: string[][], dialect: Dialect, options: ChunkOptions): string[] => {
+  const wraps = Boolean(options.transaction) && options.transaction !== 'none';
+  const render = (statements: string[], header: string): string => [
+    header,
+    ...(wraps ? [dialect.beginTransaction, ...statements, dialect.commitTransaction] : statements),
+  ].join("\n\n");
+  const budget = options.maxLength - render([], chunkHeader(999, 999)).length - 2;
+
+  const parts: string[][] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  const add = (statements: string[]) => {
+    const length = statements.join("\n\n").length;
+    if (current.length > 0 && currentLength + 2 + length > budget) {
+      parts.push(current);
+      current = [];
+      currentLength = 0;
+    }
+    currentLength += (current.length > 0 ? 2 : 0) + length;
+    current = current.concat(statements);
+  };
+
+  levels.forEach((statements) => {
+    if (statements.join("\n\n").length <= budget) {
+      add(statements);
+    } else {
+      statements.forEach((statement) => add([statement]));
+    }
+  });
+  if (current.length > 0) parts.push(current);
+
+  return parts.map((statements, index) => render(statements, chunkHeader(index + 1, parts.length)));
+};
@@ -0,0 +1,484 @@
+import {
+  AliasRegistry,
+  canonicalizeLevel,
+  describeConflict,
+  extendRegistry,
+  findSubjectConflicts,
+  validateAliasRegistry,
+} from "./aliases";
+import { chunkStatements, splitStatements, TransactionMode } from "./batching";
+import {
+  checkPostgresText,
+  DEFAULT_DIALECT,
+  getDialect,
+  ParameterizedStatement,
+  SqlDialect,
+  StringLiteralStyle,
+  transaction,
+} from "./dialects";
+import { diffLevels, SubjectDiff } from "./diff";
+import { lintLevel, LintOptions } from "./lint";
+import { MERGE_STRATEGIES, MergeConflict, mergeLevels, MergeStrategy } from "./merge";
+import { detectFormatIssues, extractCurriculumData, normalizeLevel } from "./parse";
+import { applyProfile, MappingProfile } from "./profiles";
+import {
+  generateImportsRollbackSQL,
+  generateImportsSchemaSQL,
+  generateImportsSQL,
+  generateImportsStatements,
+  importsTable,
+  ProvenanceOptions,
+  readProvenance,
+  RunSummary,
+  summarizeRuns,
+  withProvenanceColumns,
+} from "./provenance";
+import { checkRelationalLevel, generateRelationalLevelSQL, generateRelationalSchemaSQL } from "./relational";
+import { generateRollbackSQL, parseSnapshot } from "./rollback";
+import { generateSchemaSQL } from "./schema";
+import {
+  generateEducationalLevelSQL,
+  generateEducationalLevelStatements,
+  resolveTarget,
+  TargetSchema,
+  validateTarget,
+} from "./sql";
+import { allowedTerms, detectSubjectTerms, resolveTerms, TermOptions, validateTermOptions, withTerms } from "./terms";
+import { NormalizedLevel, SubjectRecord, TermLayout } from "./types";
+import { childContext, IssueContext, isFatal, reportIssue, ValidationIssue } from "./validation";
+
+// 'jsonb' writes one curriculum_data row per subject, 'relational' writes the
+// normalized educational_levels / subjects / terms / weeks / books tables
+export type OutputMode = 'jsonb' | 'relational';
+
+export interface ConvertOptions {
+  // Target database, defaults to PostgreSQL (Supabase)
+  dialect?: SqlDialect;
+  // 'dollar' writes PostgreSQL strings as $$...$$ instead of '...'
+  stringLiterals?: StringLiteralStyle;
+  // Table layout to target, defaults to 'jsonb'
+  outputMode?: OutputMode;
+  // Number and names of the terms, defaults to Term 1..Term 3
+  terms?: TermOptions;
+  // Canonical names of levels and subjects; inputs are renamed to them and
+  // levels of the same name share their alternative names
+  aliases?: AliasRegistry;
+  // How levels and subjects that arrive in more than one item are combined.
+  // Without it every copy gets its own upsert and the last one wins.
+  merge?: MergeStrategy;
+  // Table, schema and column names of curriculum_data in 'jsonb' mode;
+  // snapshots are read with the same column names
+  target?: TargetSchema;
+  // Prepend the idempotent CREATE TABLE / index / trigger DDL to the script
+  includeSchema?: boolean;
+  // Content quality checks on the parsed weeks, run unless set to false
+  lint?: LintOptions | false;
+  // Rows stored before this import (a JSON export of curriculum_data). The
+  // rollback restores them and `diff` compares against them; without it the
+  // rollback leaves the subjects as they are.
+  snapshot?: unknown;
+  // Without a snapshot, have the rollback delete every converted subject,
+  // including those the import only updated
+  deleteWithoutSnapshot?: boolean;
+  // Wrap the insert script in transactions, defaults to 'none'
+  transaction?: TransactionMode;
+  // Rows per multi-row INSERT: subjects in jsonb mode, weeks, books and
+  // aliases in relational mode. Defaults to 1 (one statement per row).
+  batchSize?: number;
+  // Also split the insert script into `chunks` of at most this many characters
+  chunkSize?: number;
+  // Reads input laid out differently from the standard format. Without it
+  // items must use the standard keys, optionally nested under 'data'.
+  profile?: MappingProfile;
+  // Source file and import time recorded with each level, and whether they are
+  // stored as extra columns ('jsonb' mode only) or in curriculum_imports
+  provenance?: ProvenanceOptions;
+}
+
+// SQL produced for a single educational level
+export interface LevelScript {
+  educational_level: string;
+  sql: string;
+  // The insert statements of `sql` one by one, without any transaction
+  statements: string[];
+  // The same inserts with bound values instead of literals ('jsonb' mode only)
+  parameterized: ParameterizedStatement[];
+  verification: string;
+  // Rollback statements for the level, without the surrounding transaction
+  rollback: string;
+}
+
+export interface ConvertResult {
+  sql: string;
+  verification: string;
+  // Undoes the whole conversion in a single transaction
+  rollback: string;
+  // Schema DDL, empty unless `includeSchema` is set
+  schema: string;
+  // The insert script (without the schema) split into numbered parts, empty
+  // unless `chunkSize` is set
+  chunks: string[];
+  // Per subject changes against `snapshot`, empty without one
+  diff: SubjectDiff[];
+  // Subjects whose copies differed when merging, empty without `merge`
+  conflicts: MergeConflict[];
+  warnings: string[];
+  // Every problem found in the input, with its JSON path and how it was handled
+  issues: ValidationIssue[];
+  errors: string[];
+  levels: NormalizedLevel[];
+  scripts: LevelScript[];
+  // Converted levels grouped by extraction run, with their usage totals
+  runs: RunSummary[];
+  // The parameterized inserts of every level, in script order; empty in
+  // 'relational' mode
+  parameterized: ParameterizedStatement[];
+}
+
+// Reported when the rollback deletes subjects without knowing which ones are new
+export const ROLLBACK_DELETES_ALL = "No snapshot supplied: the rollback deletes every converted subject, including those that existed before the import";
+
+const emptyResult = (): ConvertResult => ({
+  sql: "",
+  verification: "",
+  rollback: "",
+  schema: "",
+  chunks: [],
+  diff: [],
+  conflicts: [],
+  warnings: [],
+  issues: [],
+  errors: [],
+  levels: [],
+  scripts: [],
+  runs: [],
+  parameterized: [],
+});
+
+const errorMessage = (error: unknown): string => {
+  return error instanceof Error ? error.message : "Unknown error";
+};
+
+// Schema DDL matching the tables the chosen output mode writes to. `terms`
+// is the layout detected when the options leave the number of terms to 'auto'.
+export const generateSchema = (options: ConvertOptions = {}, terms: TermLayout = resolveTerms(options.terms)): string => {
+  const dialect = getDialect(options.dialect);
+  const store = options.provenance && options.provenance.store;
+  const schema = options.outputMode === 'relational'
+    ? generateRelationalSchemaSQL(options.dialect)
+    : generateSchemaSQL(
+      options.dialect,
+      store === 'columns' ? withProvenanceColumns(options.target, dialect) : options.target,
+      terms,
+    );
+  if (store === 'table') {
+    schema.push(...generateImportsSchemaSQL(dialect, importsTable(options.target)));
+  }
+  return schema.join("\n");
+};
+
+// Problems with the options themselves, which would fail every item alike
+export const validateConvertOptions = (options: ConvertOptions): string[] => {
+  if (options.stringLiterals === 'dollar' && (options.dialect || DEFAULT_DIALECT) !== 'postgresql') {
+    return ["Dollar-quoted strings are only available for PostgreSQL"];
+  }
+  const termErrors = validateTermOptions(options.terms || {});
+  if (termErrors.length > 0) return termErrors;
+  if (options.merge && MERGE_STRATEGIES.indexOf(options.merge) === -1) {
+    return [`Unknown merge strategy '${options.merge}'. Expected one of: ${MERGE_STRATEGIES.join(", ")}`];
+  }
+  if (options.aliases) {
+    const aliasErrors = validateAliasRegistry(options.aliases);
+    if (aliasErrors.length > 0) return aliasErrors.map((error) => `Alias registry: ${error}`);
+  }
+  const store = options.provenance && options.provenance.store;
+  if (store === 'columns' && options.outputMode === 'relational') {
+    return ["Provenance columns are only written to curriculum_data (JSON columns); store provenance in the curriculum_imports table instead"];
+  }
+
+  // Checked with the provenance columns so they cannot collide with the target's own,
+  // and with every term the input may have when their number is detected
+  const targetErrors = options.outputMode === 'relational' ? [] : validateTarget(
+    store === 'columns' ? withProvenanceColumns(options.target, getDialect(options.dialect)) : options.target,
+    allowedTerms(options.terms),
+  );
+  return targetErrors.map((error) => `Target schema: ${error}`);
+};
+
+// Highest term any level of the input has weeks for, as the 'auto' number of
+// terms finds it. Inputs converted in parts, like the files of a CLI run, can
+// settle on one number of terms with it first.
+export const detectTermCount = (input: unknown, options: ConvertOptions = {}): number => {
+  return (Array.isArray(input) ? input : [input]).reduce<number>((highest, item) => {
+    if (typeof item !== "object" || item === null) return highest;
+    const curriculum = options.profile
+      ? applyProfile(item, options.profile, { path: "", issues: [] })
+      : extractCurriculumData(item);
+    if (!curriculum || !Array.isArray(curriculum.subjects)) return highest;
+    return curriculum.subjects.reduce((most, subject) => Math.max(most, detectSubjectTerms(subject)), highest);
+  }, 0);
+};
+
+// Reads one input item into a level, reporting problems at `context.path`.
+// `label` says where the item is in messages, e.g. "at index 2". The item
+// cannot be converted if any of the issues it adds is fatal.
+export const readLevel = (
+  item: unknown,
+  label: string,
+  context: IssueContext,
+  options: ConvertOptions,
+  importedAt: string,
+): NormalizedLevel | null => {
+  if (typeof item !== "object" || item === null) {
+    reportIssue(context, 'error', 'fatal', `Item ${label} is not a valid object.`);
+    return null;
+  }
+
+  // Extract curriculum data from nested structures
+  const curriculum = options.profile
+    ? applyProfile(item, options.profile, context)
+    : extractCurriculumData(item);
+
+  if (!curriculum && options.profile) {
+    reportIssue(context, 'error', 'fatal', `Could not extract curriculum data from item ${label} with the '${options.profile.name}' mapping profile. Its educational level or subjects were not found.`);
+    return null;
+  }
+  if (!curriculum) {
+    reportIssue(context, 'error', 'fatal', `Could not extract curriculum data from item ${label}. Expected structure with 'educational_level' and 'subjects' fields, or nested under 'data' field.`);
+    return null;
+  }
+
+  const issueCount = context.issues.length;
+  const levelContext = !options.profile && curriculum !== item ? childContext(context, "data") : context;
+  if (levelContext !== context) {
+    reportIssue(levelContext, 'info', 'auto-fixed', "Curriculum data extracted from nested 'data' field");
+  }
+  const level = normalizeLevel(curriculum, levelContext, options.terms);
+  level.provenance = readProvenance(item, options.provenance, importedAt);
+  if (options.aliases) {
+    canonicalizeLevel(level, options.aliases, levelContext);
+  }
+  if ((options.dialect || DEFAULT_DIALECT) === 'postgresql') {
+    checkPostgresText(level, levelContext);
+  }
+
+  // Content checks only make sense once the structure itself is valid
+  const structurallyValid = !context.issues.slice(issueCount).some(isFatal);
+  if (structurallyValid && options.lint !== false) {
+    lintLevel(level, levelContext, options.lint);
+  }
+  if (structurallyValid && options.outputMode === 'relational') {
+    checkRelationalLevel(level, levelContext);
+  }
+  return level;
+};
+
+// The levels of the input that can be read, without content checks or any
+// report. Inputs converted in parts, like the files of a CLI run, can look at
+// all their levels first with it.
+export const readLevels = (input: unknown, options: ConvertOptions = {}): NormalizedLevel[] => {
+  const importedAt = (options.provenance && options.provenance.importedAt) || new Date().toISOString();
+  const levels: NormalizedLevel[] = [];
+  (Array.isArray(input) ? input : [input]).forEach((item, index) => {
+    const context: IssueContext = { path: "", issues: [] };
+    const level = readLevel(item, `at index ${index}`, context, { ...options, lint: false }, importedAt);
+    if (level && !context.issues.some(isFatal)) levels.push(level);
+  });
+  return levels;
+};
+
+// Insert, verification and rollback SQL of one level. Throws when the level
+// cannot be written in the chosen dialect.
+export const generateLevelScript = (
+  level: NormalizedLevel,
+  options: ConvertOptions,
+  snapshot?: SubjectRecord[],
+): LevelScript => {
+  const dialect = getDialect(options.dialect, options.stringLiterals);
+  const store = options.provenance && options.provenance.store;
+  const target = options.outputMode === 'relational' ? undefined : resolveTarget(options.target, level.terms);
+  const levelTarget = store === 'columns'
+    ? withProvenanceColumns(options.target, dialect, level.provenance)
+    : options.target;
+  const { sql, verification } = options.outputMode === 'relational'
+    ? generateRelationalLevelSQL(level, options.dialect, options.batchSize, options.stringLiterals)
+    : generateEducationalLevelSQL(level, options.dialect, options.batchSize, levelTarget, options.stringLiterals);
+  const rollback = generateRollbackSQL(level, dialect, options.outputMode, snapshot, target, options.deleteWithoutSnapshot);
+  const parameterized = options.outputMode === 'relational'
+    ? []
+    : generateEducationalLevelStatements(level, options.dialect, options.batchSize, levelTarget);
+  if (store === 'table') {
+    sql.push(...generateImportsSQL(level, dialect, importsTable(options.target), options.batchSize));
+    rollback.push(...generateImportsRollbackSQL(level, dialect, importsTable(options.target)));
+    if (parameterized.length > 0) {
+      parameterized.push(...generateImportsStatements(level, dialect, importsTable(options.target), options.batchSize));
+    }
+  }
+  return {
+    educational_level: level.educational_level,
+    sql: (options.transaction === 'level' ? transaction(dialect, sql) : sql).join("\n"),
+    statements: splitStatements(sql),
+    parameterized,
+    verification: verification.join("\n"),
+    rollback: rollback.join("\n"),
+  };
+};
+
+// An input item with its JSON path and how messages refer to it
+export interface InputItem {
+  value: unknown;
+  path: string;
+  label: string;
+  // Settings of this item only, e.g. the mapping profile of the file it came from
+  options?: ConvertOptions;
+}
+
+// Convert already parsed curriculum JSON (a single item or an array of items)
+// into SQL. Each item is converted independently so one bad item is reported
+// in `errors` without hiding problems in the others.
+export const convertCurriculum = (input: unknown, options: ConvertOptions = {}): ConvertResult => {
+  if (!input) {
+    return { ...emptyResult(), errors: ["No data provided"] };
+  }
+
+  const items = (Array.isArray(input) ? input : [input]).map((value, index) => ({
+    value,
+    path: Array.isArray(input) ? `[${index}]` : "",
+    label: `at index ${index}`,
+  }));
+  return convertItems(items, options, detectFormatIssues(input));
+};
+
+// convertCurriculum for items that were already taken apart, such as the
+// lines of a JSON Lines file
+export const convertItems = (items: InputItem[], options: ConvertOptions = {}, warnings: string[] = []): ConvertResult => {
+  const result = emptyResult();
+
+  const optionErrors = validateConvertOptions(options);
+  if (optionErrors.length > 0) {
+    result.errors.push(...optionErrors);
+    return result;
+  }
+  // One import time for every level of the conversion
+  const importedAt = (options.provenance && options.provenance.importedAt) || new Date().toISOString();
+
+  result.warnings = warnings;
+
+  let levels: NormalizedLevel[] = [];
+  // Where each level came from, for reporting on the batch as a whole
+  const levelContexts: IssueContext[] = [];
+
+  items.forEach((item) => {
+    const context: IssueContext = { path: item.path, issues: result.issues };
+    const issueCount = result.issues.length;
+    const itemOptions = item.options ? { ...options, ...item.options } : options;
+    const level = readLevel(item.value, item.label, context, itemOptions, importedAt);
+
+    const fatalIssues = result.issues.slice(issueCount).filter(isFatal);
+    if (fatalIssues.length > 0) {
+      result.errors.push(...fatalIssues.map((issue) => `${issue.path}: ${issue.message}`));
+    } else if (level) {
+      levels.push(level);
+      levelContexts.push(context);
+    }
+  });
+
+  // Levels that arrive under different names may have different alias lists
+  if (options.aliases) {
+    const registry = extendRegistry(options.aliases, levels);
+    levels.forEach((level) => canonicalizeLevel(level, registry));
+    // A merge strategy reports the conflicts itself
+    if (!options.merge) {
+      findSubjectConflicts(levels).forEach((conflict) => {
+        const source = levelContexts[conflict.first].path || "an earlier item";
+        reportIssue(levelContexts[conflict.second], 'warning', 'reported', describeConflict(conflict, source));
+      });
+    }
+  }
+
+  // Detected terms: every level gets as many as the level with the most, so
+  // they all fit the same table
+  let terms = resolveTerms(options.terms);
+  if (options.terms && options.terms.count === 'auto') {
+    const detected = levels.reduce((highest, level) => Math.max(highest, level.terms.keys.length), 0);
+    terms = resolveTerms(options.terms, detected);
+    levels = levels.map((level) => withTerms(level, terms));
+  }
+
+  // Copies of a level become one before any SQL is written. Conflicts are
+  // reported at the last item with the subject.
+  if (options.merge) {
+    const merged = mergeLevels(levels, levelContexts.map((context) => context.path || "(root)"), options.merge);
+    levels = merged.levels;
+    result.conflicts = merged.conflicts;
+    merged.conflicts.forEach((conflict) => {
+      const context: IssueContext = { path: conflict.items[conflict.items.length - 1], issues: result.issues };
+      const message = `${conflict.educational_level} / ${conflict.subject_name} differs between items ${conflict.items.join(", ")}`;
+      if (options.merge === 'fail-on-conflict') {
+        reportIssue(context, 'error', 'fatal', `${message}; the level is not converted`);
+        result.errors.push(`${context.path}: ${message}; the level is not converted`);
+      } else {
+        reportIssue(context, 'warning', 'reported', `${message}; combined by ${options.merge}`);
+      }
+    });
+  }
+  const target = options.outputMode === 'relational' ? undefined : resolveTarget(options.target, terms);
+
+  // A rollback built from a partly unreadable snapshot could delete rows that
+  // existed before, so nothing is generated unless the whole snapshot is valid
+  let snapshot: SubjectRecord[] | undefined;
+  if (options.snapshot !== undefined) {
+    const issueCount = result.issues.length;
+    snapshot = parseSnapshot(options.snapshot, { path: "snapshot", issues: result.issues }, target);
+    const fatalIssues = result.issues.slice(issueCount).filter(isFatal);
+    if (fatalIssues.length > 0) {
+      result.errors.push(...fatalIssues.map((issue) => `${issue.path}: ${issue.message}`));
+      return result;
+    }
+  }
+
+  if (!snapshot && options.deleteWithoutSnapshot && levels.length > 0) {
+    reportIssue({ path: "snapshot", issues: result.issues }, 'warning', 'reported', ROLLBACK_DELETES_ALL);
+  }
+
+  levels.forEach((level) => {
+    try {
+      result.scripts.push(generateLevelScript(level, options, snapshot));
+      result.levels.push(level);
+    } catch (error) {
+      result.errors.push(errorMessage(error));
+    }
+  });
+
+  if (snapshot) {
+    result.diff = diffLevels(result.levels, snapshot);
+  }
+  result.runs = summarizeRuns(result.levels);
+  result.scripts.forEach((script) => result.parameterized.push(...script.parameterized));
+
+  if (options.includeSchema) {
+    result.schema = generateSchema(options, terms);
+  }
+
+  result.verification = result.scripts.map((script) => script.verification).join("\n");
+  if (result.scripts.length === 0) {
+    result.sql = result.schema;
+    return result;
+  }
+
+  // The schema stays outside the transaction: MySQL commits DDL implicitly
+  const dialect = getDialect(options.dialect);
+  const scripts = result.scripts.map((script) => script.sql);
+  result.sql = [result.schema, ...(options.transaction === 'script' ? transaction(dialect, scripts) : scripts)]
+    .filter((part) => part)
+    .join("\n");
+  result.rollback = transaction(dialect, result.scripts.map((script) => script.rollback)).join("\n");
+
+  if (options.chunkSize) {
+    result.chunks = chunkStatements(result.scripts.map((script) => script.statements), dialect, {
+      maxLength: options.chunkSize,
+      transaction: options.transaction,
+    });
+  }
+  return result;
+};
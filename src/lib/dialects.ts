@@ -0,0 +1,390 @@
+// SQL dialect support. Each dialect knows how to write literals, the upsert
+// statement for curriculum_data and the functions used by the verification query.
+
+import { NormalizedLevel } from "./types";
+import { childContext, IssueContext, reportIssue } from "./validation";
+
+export type SqlDialect = 'postgresql' | 'mysql' | 'sqlite' | 'sqlserver';
+
+// How PostgreSQL string literals are written: 'quoted' ('it''s') or 'dollar'
+// ($q$it's$q$). Other dialects only have quoted literals.
+export type StringLiteralStyle = 'quoted' | 'dollar';
+
+export interface InsertStatement {
+  table: string;
+  columns: string[];
+  // Already rendered SQL expressions: one list per row, one value per column.
+  // More than one row renders a multi-row `VALUES (...), (...)` statement.
+  rows: string[][];
+}
+
+export interface UpdateStatement {
+  table: string;
+  columns: string[];
+  values: string[];
+}
+
+export interface UpsertStatement extends InsertStatement {
+  conflictColumns: string[];
+  updateColumns: string[];
+  // Column set to the current time when an existing row is updated
+  touchColumn?: string;
+  // What `touchColumn` is set to instead of the dialect's current time
+  touchExpression?: string;
+}
+
+// A statement with placeholders and the values bound to them, for drivers
+// that send the values separately
+export interface ParameterizedStatement {
+  text: string;
+  values: string[];
+}
+
+export interface Dialect {
+  id: SqlDialect;
+  label: string;
+  // Where and how the generated script is meant to be run, used in script headers
+  target: string;
+  runAction: string;
+  // The inside of a quoted literal. Reading a script back relies on it telling
+  // whether backslashes are escapes.
+  escape: (value: string) => string;
+  // A complete string literal (or expression) that yields exactly `value`
+  text: (value: string) => string;
+  json: (value: string) => string;
+  // Placeholder for the 1-based `index`th bound value of a statement
+  parameter: (index: number, json: boolean) => string;
+  boolean: (value: boolean) => string;
+  now: string;
+  textLength: (column: string) => string;
+  // `key` counts the array under that key of a JSON object column
+  jsonArrayLength: (column: string, key?: string) => string;
+  upsert: (statement: UpsertStatement) => string[];
+  beginTransaction: string;
+  commitTransaction: string;
+}
+
+const INDENT = "    ";
+
+const doubleQuotes = (value: string): string => value.replace(/'/g, "''");
+
+// Control characters other than newline and tab. Dialects write them as
+// escapes or function calls where they can, so an editor or a line-ending
+// conversion cannot change them unnoticed.
+const isControl = (code: number): boolean => (code < 0x20 && code !== 0x0a && code !== 0x09) || code === 0x7f;
+
+// Splits a value into runs of other characters and single control characters
+const controlRuns = (value: string): string[] => {
+  const runs: string[] = [];
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (isControl(value.charCodeAt(i))) {
+      if (i > start) runs.push(value.slice(start, i));
+      runs.push(value[i]);
+      start = i + 1;
+    }
+  }
+  if (start < value.length || runs.length === 0) runs.push(value.slice(start));
+  return runs;
+};
+
+const isControlRun = (run: string): boolean => run.length === 1 && isControl(run.charCodeAt(0));
+
+// Quoted text joined with a function call per control character, e.g.
+// 'a' || char(13) || 'b', for dialects without escapes in literals
+const concatenated = (
+  value: string,
+  quote: (text: string) => string,
+  control: (code: number) => string,
+  operator: string,
+): string => {
+  return controlRuns(value)
+    .map((run) => isControlRun(run) ? control(run.charCodeAt(0)) : quote(run))
+    .join(` ${operator} `);
+};
+
+const hex = (code: number): string => (code < 0x10 ? "0" : "") + code.toString(16).toUpperCase();
+
+// PostgreSQL text cannot hold NUL at all, so it is left out
+const withoutNul = (value: string): string => value.split("\0").join("");
+
+// Same for the \u0000 escapes of JSON text, which jsonb rejects. Escaped
+// backslashes are matched first so `\\u0000` (a backslash and "u0000") stays.
+const withoutJsonNul = (value: string): string => {
+  return value.replace(/\\(\\|u0000)/g, (match, escaped: string) => escaped === "\\" ? match : "");
+};
+
+// Reports every value of the level the PostgreSQL literals above leave NUL out of
+export const checkPostgresText = (level: NormalizedLevel, context: IssueContext) => {
+  const check = (value: string | null, fieldContext: IssueContext, key: string | number) => {
+    if (value !== null && value.indexOf("\0") !== -1) {
+      reportIssue(fieldContext, 'warning', 'auto-fixed', "NUL characters removed; PostgreSQL text cannot hold them", key);
+    }
+  };
+
+  check(level.educational_level, context, 'educational_level');
+  const aliases = childContext(context, "alternative_names");
+  level.alternative_names.forEach((name, index) => check(name, aliases, index));
+  const subjects = childContext(context, "subjects");
+  level.subjects.forEach((subject, index) => {
+    const subjectContext = childContext(subjects, index);
+    check(subject.subject_name, subjectContext, 'subject_name');
+    check(subject.introduction, subjectContext, 'introduction');
+    level.terms.keys.forEach((termKey) => {
+      const weeks = childContext(subjectContext, termKey);
+      (subject[termKey] || []).forEach((week, weekIndex) => {
+        const weekContext = childContext(weeks, weekIndex);
+        check(week.topic, weekContext, 'topic');
+        check(week.breakdown, weekContext, 'breakdown');
+        check(week.note, weekContext, 'note');
+      });
+    });
+    const books = childContext(subjectContext, "recommended_books");
+    subject.recommended_books.forEach((book, bookIndex) => {
+      const bookContext = childContext(books, bookIndex);
+      check(book.title, bookContext, 'title');
+      check(book.author, bookContext, 'author');
+      check(book.isbn, bookContext, 'isbn');
+    });
+  });
+};
+
+// With standard_conforming_strings on (the default since PostgreSQL 9.1 and on
+// Supabase) backslashes in '...' are plain characters. Control characters need
+// an E'...' literal, where backslashes are escapes.
+const postgresText = (value: string): string => {
+  const runs = controlRuns(withoutNul(value));
+  if (!runs.some(isControlRun)) return `'${doubleQuotes(runs.join(""))}'`;
+  const escaped = runs.map((run) => {
+    if (!isControlRun(run)) return doubleQuotes(run.replace(/\\/g, "\\\\"));
+    return run === "\r" ? "\\r" : `\\x${hex(run.charCodeAt(0))}`;
+  });
+  return `E'${escaped.join("")}'`;
+};
+
+// $$...$$, or $q$...$q$, $q1$...$q1$ when the value itself contains the delimiter
+const dollarQuoted = (value: string): string => {
+  const text = withoutNul(value);
+  for (let attempt = 0; ; attempt++) {
+    const delimiter = `$${attempt === 0 ? "" : `q${attempt === 1 ? "" : attempt - 1}`}$`;
+    if ((text + delimiter).indexOf(delimiter) === text.length) return `${delimiter}${text}${delimiter}`;
+  }
+};
+
+// Backslash escapes MySQL reads inside string literals; other control
+// characters have none and are written as they are
+const MYSQL_ESCAPES: Record<string, string> = { "\0": "\\0", "\b": "\\b", "\r": "\\r", "\x1a": "\\Z" };
+
+// Value lines of every row, rows separated by `), (`. The caller writes the
+// opening `(` and the closing `)`.
+const rowLines = (rows: string[][]): string[] => {
+  return rows.reduce<string[]>((lines, row, rowIndex) => [
+    ...lines,
+    ...(rowIndex > 0 ? ["), ("] : []),
+    ...row.map((value, index) => `${INDENT}${value}${index < row.length - 1 ? "," : ""}`),
+  ], []);
+};
+
+// Plain INSERT, written the same way by every dialect
+export const insertStatement = ({ table, columns, rows }: InsertStatement): string[] => [
+  `INSERT INTO ${table} (`,
+  ...columns.map((column, index) => `${INDENT}${column}${index < columns.length - 1 ? "," : ""}`),
+  ") VALUES (",
+  ...rowLines(rows),
+  ")",
+];
+
+// `a = x AND b = y` for the given key columns and rendered values
+export const keyCondition = (columns: string[], values: string[]): string => {
+  return columns.map((column, index) => `${column} = ${values[index]}`).join(" AND ");
+};
+
+// Plain UPDATE of the given columns for the rows matching `condition`
+export const updateStatement = ({ table, columns, values }: UpdateStatement, condition: string): string[] => [
+  `UPDATE ${table} SET`,
+  ...columns.map((column, index) => `${INDENT}${column} = ${values[index]}${index < columns.length - 1 ? "," : ""}`),
+  `WHERE ${condition};`,
+];
+
+export const deleteStatement = (table: string, condition: string): string => {
+  return `DELETE FROM ${table} WHERE ${condition};`;
+};
+
+// Text written into a `--` comment. A line break would end the comment and run
+// the rest of the text as SQL, and NUL cuts a script short for some clients, so
+// line breaks and control characters become spaces.
+export const commentText = (value: string): string => {
+  return String(value).replace(/[\x00-\x08\x0a-\x1f\x7f\u0085\u2028\u2029]+/g, " ");
+};
+
+// Wraps statements so they are applied all together or not at all
+export const transaction = (dialect: Dialect, lines: string[]): string[] => [
+  dialect.beginTransaction,
+  "",
+  ...lines,
+  dialect.commitTransaction,
+];
+
+// Renders `column = <source>` assignments, terminated by the dialect's statement end
+const assignments = (
+  statement: UpsertStatement,
+  source: (column: string) => string,
+  now: string,
+  terminator: string,
+): string[] => {
+  const lines = statement.updateColumns.map((column) => `${column} = ${source(column)}`);
+  if (statement.touchColumn) {
+    lines.push(`${statement.touchColumn} = ${statement.touchExpression || now}`);
+  }
+  return lines.map((line, index) => `${INDENT}${line}${index < lines.length - 1 ? "," : terminator}`);
+};
+
+const postgresql: Dialect = {
+  id: 'postgresql',
+  label: 'PostgreSQL / Supabase',
+  target: 'Supabase SQL Editor',
+  runAction: 'click "RUN"',
+  escape: doubleQuotes,
+  text: postgresText,
+  json: (value) => `${postgresText(withoutJsonNul(value))}::jsonb`,
+  parameter: (index, json) => `$${index}${json ? "::jsonb" : ""}`,
+  boolean: (value) => value ? "TRUE" : "FALSE",
+  now: "NOW()",
+  textLength: (column) => `LENGTH(${column})`,
+  jsonArrayLength: (column, key) => `jsonb_array_length(${key ? `${column} -> '${key}'` : column})`,
+  upsert: (statement) => [
+    ...insertStatement(statement),
+    `ON CONFLICT (${statement.conflictColumns.join(", ")})`,
+    "DO UPDATE SET",
+    ...assignments(statement, (column) => `EXCLUDED.${column}`, postgresql.now, ";"),
+  ],
+  beginTransaction: "BEGIN;",
+  commitTransaction: "COMMIT;",
+};
+
+const mysql: Dialect = {
+  id: 'mysql',
+  label: 'MySQL',
+  target: 'your MySQL client',
+  runAction: 'execute it',
+  // MySQL treats backslash as an escape character inside string literals
+  escape: (value) => doubleQuotes(value.replace(/\\/g, "\\\\"))
+    .replace(/[\0\b\r\x1a]/g, (char) => MYSQL_ESCAPES[char]),
+  text: (value) => `'${mysql.escape(value)}'`,
+  json: (value) => `'${mysql.escape(value)}'`,
+  parameter: () => "?",
+  boolean: (value) => value ? "TRUE" : "FALSE",
+  now: "NOW()",
+  textLength: (column) => `CHAR_LENGTH(${column})`,
+  jsonArrayLength: (column, key) => `JSON_LENGTH(${column}${key ? `, '$.${key}'` : ""})`,
+  upsert: (statement) => [
+    ...insertStatement(statement),
+    "ON DUPLICATE KEY UPDATE",
+    ...assignments(statement, (column) => `VALUES(${column})`, mysql.now, ";"),
+  ],
+  beginTransaction: "START TRANSACTION;",
+  commitTransaction: "COMMIT;",
+};
+
+const sqlite: Dialect = {
+  id: 'sqlite',
+  label: 'SQLite',
+  target: 'the sqlite3 shell',
+  runAction: 'execute it',
+  escape: doubleQuotes,
+  text: (value) => concatenated(value, (text) => `'${sqlite.escape(text)}'`, (code) => `char(${code})`, "||"),
+  json: (value) => sqlite.text(value),
+  parameter: () => "?",
+  boolean: (value) => value ? "1" : "0",
+  now: "CURRENT_TIMESTAMP",
+  textLength: (column) => `LENGTH(${column})`,
+  jsonArrayLength: (column, key) => `json_array_length(${column}${key ? `, '$.${key}'` : ""})`,
+  upsert: (statement) => [
+    ...insertStatement(statement),
+    `ON CONFLICT (${statement.conflictColumns.join(", ")})`,
+    "DO UPDATE SET",
+    ...assignments(statement, (column) => `excluded.${column}`, sqlite.now, ";"),
+  ],
+  beginTransaction: "BEGIN TRANSACTION;",
+  commitTransaction: "COMMIT;",
+};
+
+const sqlserver: Dialect = {
+  id: 'sqlserver',
+  label: 'SQL Server',
+  target: 'SQL Server Management Studio',
+  runAction: 'click "Execute"',
+  escape: doubleQuotes,
+  // Concatenated text is cast to NVARCHAR(MAX) first, as it would otherwise be
+  // cut off at 4000 characters
+  text: (value) => {
+    const text = concatenated(value, (run) => `N'${sqlserver.escape(run)}'`, (code) => `NCHAR(${code})`, "+");
+    return controlRuns(value).length > 1 ? `CAST(N'' AS NVARCHAR(MAX)) + ${text}` : text;
+  },
+  json: (value) => sqlserver.text(value),
+  // Named @p1, @p2, ... parameters as the mssql / tedious drivers bind them
+  parameter: (index) => `@p${index}`,
+  boolean: (value) => value ? "1" : "0",
+  now: "SYSUTCDATETIME()",
+  textLength: (column) => `LEN(${column})`,
+  jsonArrayLength: (column, key) => `(SELECT COUNT(*) FROM OPENJSON(${column}${key ? `, '$.${key}'` : ""}))`,
+  upsert: (statement) => {
+    const { table, columns, rows, conflictColumns } = statement;
+    return [
+      `MERGE INTO ${table} AS target`,
+      "USING (VALUES (",
+      ...rowLines(rows),
+      `)) AS source (${columns.join(", ")})`,
+      `ON ${conflictColumns.map((column) => `target.${column} = source.${column}`).join(" AND ")}`,
+      "WHEN MATCHED THEN UPDATE SET",
+      ...assignments(statement, (column) => `source.${column}`, sqlserver.now, ""),
+      `WHEN NOT MATCHED THEN INSERT (${columns.join(", ")})`,
+      `${INDENT}VALUES (${columns.map((column) => `source.${column}`).join(", ")});`,
+    ];
+  },
+  beginTransaction: "BEGIN TRANSACTION;",
+  commitTransaction: "COMMIT TRANSACTION;",
+};
+
+// Renders one statement with placeholders instead of string and JSON literals.
+// `render` writes the statement with the dialect it is given, whose `text` and
+// `json` bind their value; booleans, numbers and raw SQL stay inline.
+export const parameterize = (dialect: Dialect, render: (parameters: Dialect) => string[]): ParameterizedStatement => {
+  const values: string[] = [];
+  const bind = (value: string, json: boolean): string => {
+    // Bound as the literal would store it
+    values.push(dialect.id === 'postgresql' ? (json ? withoutJsonNul(value) : withoutNul(value)) : value);
+    return dialect.parameter(values.length, json);
+  };
+  const parameters: Dialect = {
+    ...dialect,
+    text: (value) => bind(value, false),
+    json: (value) => bind(value, true),
+  };
+  return { text: render(parameters).join("\n"), values };
+};
+
+export const DIALECTS: Record<SqlDialect, Dialect> = {
+  postgresql,
+  mysql,
+  sqlite,
+  sqlserver,
+};
+
+export const DEFAULT_DIALECT: SqlDialect = 'postgresql';
+
+export const getDialect = (id: SqlDialect = DEFAULT_DIALECT, literals: StringLiteralStyle = 'quoted'): Dialect => {
+  const dialect = DIALECTS[id];
+  if (!dialect) {
+    throw new Error(`Unsupported SQL dialect '${id}'. Expected one of: ${Object.keys(DIALECTS).join(", ")}.`);
+  }
+  if (literals === 'quoted') return dialect;
+  if (id !== 'postgresql') {
+    throw new Error(`Dollar-quoted strings are only available for PostgreSQL, not ${dialect.label}.`);
+  }
+  return {
+    ...dialect,
+    text: dollarQuoted,
+    json: (value) => `${dollarQuoted(withoutJsonNul(value))}::jsonb`,
+  };
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { formatDiff } from "./diff";
+
+describe("formatDiff", () => {
+  it("indents every line of a multi-line value", () => {
+    const text = formatDiff([{
+      educational_level: "Primary 1",
+      subject_name: "Mathematics",
+      status: 'changed',
+      introduction: { before: "Numbers", after: "Numbers\nand shapes\r\nto 100" },
+      weeks: [{
+        term: 'term_1_weeks',
+        term_name: "First Term",
+        week_number: 1,
+        kind: 'changed',
+        before: { week_number: 1, topic: "Counting", breakdown: "1 to 10", note: null },
+        after: { week_number: 1, topic: "Counting", breakdown: "1 to 10\n10 to 20", note: null },
+        fields: ['breakdown'],
+      }],
+      books: [],
+    }]);
+    expect(text.split("\n")).toEqual([
+      "~ Primary 1 / Mathematics (changed)",
+      "    introduction:",
+      "      - Numbers",
+      "      + Numbers",
+      "        and shapes",
+      "        to 100",
+      "    First Term week 1 changed (breakdown)",
+      "      - breakdown: 1 to 10",
+      "      + breakdown: 1 to 10",
+      "        10 to 20",
+      "",
+      "0 new, 1 changed, 0 unchanged subject(s)",
+    ]);
+  });
+});
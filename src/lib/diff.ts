@@ -0,0 +1,238 @@
+import { sanitizeString } from "./sql";
+import { DEFAULT_TERMS, termName } from "./terms";
+import { BookData, NormalizedLevel, SubjectRecord, TermKey, TermLayout, WeekData } from "./types";
+
+// Compares converted subjects with the rows currently stored (the same JSON
+// export of curriculum_data used as the rollback snapshot), so reviewers can
+// see what an upsert would change. Stored subjects that are not in the
+// conversion are left alone by the upsert and are not reported.
+
+export type SubjectStatus = 'new' | 'changed' | 'unchanged';
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export type WeekField = 'topic' | 'breakdown' | 'note';
+export type BookField = 'title' | 'author' | 'isbn';
+
+export interface WeekChange {
+  term: TermKey;
+  // Display name of the term, e.g. "Semester 2"
+  term_name: string;
+  week_number: number;
+  kind: ChangeKind;
+  before: WeekData | null;
+  after: WeekData | null;
+  // Fields that differ, for 'changed'
+  fields: WeekField[];
+}
+
+export interface BookChange {
+  kind: ChangeKind;
+  before: BookData | null;
+  after: BookData | null;
+  fields: BookField[];
+}
+
+export interface ValueChange<T> {
+  before: T;
+  after: T;
+}
+
+export interface SubjectDiff {
+  educational_level: string;
+  subject_name: string;
+  status: SubjectStatus;
+  introduction?: ValueChange<string>;
+  alternative_names?: ValueChange<string[]>;
+  weeks: WeekChange[];
+  books: BookChange[];
+}
+
+const WEEK_FIELDS: WeekField[] = ['topic', 'breakdown', 'note'];
+const BOOK_FIELDS: BookField[] = ['title', 'author', 'isbn'];
+
+// Stored rows may miss fields the converter always writes
+const fieldValue = (value: unknown): string | null => value == null ? null : String(value);
+
+// Pairs items with the same key in order of appearance, so a repeated week
+// number is matched with the repeated week on the other side
+const pairByKey = <T>(before: T[], after: T[], key: (item: T) => string): Array<[T | null, T | null]> => {
+  const remaining = before.slice();
+  const remainingKeys = remaining.map(key);
+  const pairs: Array<[T | null, T | null]> = [];
+
+  after.forEach((item) => {
+    const index = remainingKeys.indexOf(key(item));
+    if (index === -1) {
+      pairs.push([null, item]);
+    } else {
+      pairs.push([remaining[index], item]);
+      remaining.splice(index, 1);
+      remainingKeys.splice(index, 1);
+    }
+  });
+  remaining.forEach((item) => pairs.push([item, null]));
+
+  return pairs;
+};
+
+const diffWeeks = (term: TermKey, termName: string, before: WeekData[], after: WeekData[]): WeekChange[] => {
+  const changes: WeekChange[] = [];
+
+  pairByKey(before, after, (week) => String(week.week_number)).forEach(([old, current]) => {
+    const week = (current || old) as WeekData;
+    if (!old || !current) {
+      changes.push({
+        term,
+        term_name: termName,
+        week_number: week.week_number,
+        kind: old ? 'removed' : 'added',
+        before: old,
+        after: current,
+        fields: [],
+      });
+      return;
+    }
+
+    const fields = WEEK_FIELDS.filter((field) => fieldValue(old[field]) !== fieldValue(current[field]));
+    if (fields.length > 0) {
+      changes.push({ term, term_name: termName, week_number: week.week_number, kind: 'changed', before: old, after: current, fields });
+    }
+  });
+
+  return changes.sort((a, b) => a.week_number - b.week_number);
+};
+
+// Books are matched by a valid ISBN, otherwise by title
+export const bookKey = (book: BookData): string => {
+  return book.isbn_valid ? `isbn:${book.isbn}` : `title:${String(book.title).trim().toLowerCase()}`;
+};
+
+const diffBooks = (before: BookData[], after: BookData[]): BookChange[] => {
+  const changes: BookChange[] = [];
+
+  pairByKey(before, after, bookKey).forEach(([old, current]) => {
+    if (!old || !current) {
+      changes.push({ kind: old ? 'removed' : 'added', before: old, after: current, fields: [] });
+      return;
+    }
+
+    const fields = BOOK_FIELDS.filter((field) => fieldValue(old[field]) !== fieldValue(current[field]));
+    if (fields.length > 0) {
+      changes.push({ kind: 'changed', before: old, after: current, fields });
+    }
+  });
+
+  return changes;
+};
+
+export const diffSubject = (
+  before: SubjectRecord | undefined,
+  after: SubjectRecord,
+  terms: TermLayout = DEFAULT_TERMS,
+): SubjectDiff => {
+  const diff: SubjectDiff = {
+    educational_level: after.educational_level,
+    subject_name: after.subject_name,
+    status: before ? 'unchanged' : 'new',
+    weeks: [],
+    books: [],
+  };
+  if (!before) return diff;
+
+  // Compare with what the upsert would actually write
+  const introduction = sanitizeString(after.introduction);
+  if (fieldValue(before.introduction) !== introduction) {
+    diff.introduction = { before: fieldValue(before.introduction) || "", after: introduction };
+  }
+
+  if (JSON.stringify(before.alternative_names) !== JSON.stringify(after.alternative_names)) {
+    diff.alternative_names = { before: before.alternative_names, after: after.alternative_names };
+  }
+
+  // A stored row may have no column for a term the layout adds
+  terms.keys.forEach((termKey) => {
+    diff.weeks.push(...diffWeeks(termKey, termName(terms, termKey), before[termKey] || [], after[termKey]));
+  });
+  diff.books = diffBooks(before.recommended_books, after.recommended_books);
+
+  if (diff.introduction || diff.alternative_names || diff.weeks.length > 0 || diff.books.length > 0) {
+    diff.status = 'changed';
+  }
+  return diff;
+};
+
+export const diffLevels = (levels: NormalizedLevel[], existing: SubjectRecord[]): SubjectDiff[] => {
+  const diffs: SubjectDiff[] = [];
+  levels.forEach((level) => {
+    level.subjects.forEach((subject) => {
+      const before = existing.filter((row) =>
+        row.educational_level === subject.educational_level && row.subject_name === subject.subject_name
+      )[0];
+      diffs.push(diffSubject(before, subject, level.terms));
+    });
+  });
+  return diffs;
+};
+
+const describeWeek = (week: WeekData): string => {
+  return WEEK_FIELDS
+    .filter((field) => week[field] != null && week[field] !== "")
+    .map((field) => `${field}: ${week[field]}`)
+    .join("; ") || "(empty)";
+};
+
+const describeBook = (book: BookData): string => `${book.title} by ${book.author} (${book.isbn || "no ISBN"})`;
+
+// A removed or added value, its continuation lines indented to its first line
+const changeLine = (marker: '-' | '+', text: string): string => {
+  return `      ${marker} ${text.split(/\r?\n/).join("\n        ")}`;
+};
+
+// Plain text rendering for the CLI and for copying
+export const formatDiff = (diffs: SubjectDiff[]): string => {
+  const lines: string[] = [];
+  const counts: Record<SubjectStatus, number> = { new: 0, changed: 0, unchanged: 0 };
+
+  diffs.forEach((diff) => {
+    counts[diff.status]++;
+    if (diff.status === 'unchanged') return;
+
+    lines.push(`${diff.status === 'new' ? "+" : "~"} ${diff.educational_level} / ${diff.subject_name} (${diff.status})`);
+
+    if (diff.introduction) {
+      lines.push("    introduction:", changeLine('-', diff.introduction.before), changeLine('+', diff.introduction.after));
+    }
+    if (diff.alternative_names) {
+      lines.push(
+        "    alternative_names:",
+        changeLine('-', diff.alternative_names.before.join(", ")),
+        changeLine('+', diff.alternative_names.after.join(", ")),
+      );
+    }
+    diff.weeks.forEach((change) => {
+      const label = `    ${change.term_name} week ${change.week_number}`;
+      if (change.kind === 'added' && change.after) {
+        lines.push(`${label} added`, changeLine('+', describeWeek(change.after)));
+      } else if (change.kind === 'removed' && change.before) {
+        lines.push(`${label} removed`, changeLine('-', describeWeek(change.before)));
+      } else if (change.before && change.after) {
+        lines.push(`${label} changed (${change.fields.join(", ")})`);
+        change.fields.forEach((field) => {
+          lines.push(changeLine('-', `${field}: ${fieldValue(change.before && change.before[field]) || "(empty)"}`));
+          lines.push(changeLine('+', `${field}: ${fieldValue(change.after && change.after[field]) || "(empty)"}`));
+        });
+      }
+    });
+    diff.books.forEach((change) => {
+      if (change.before) lines.push(`    book ${change.kind}`, changeLine('-', describeBook(change.before)));
+      if (change.after) {
+        if (!change.before) lines.push(`    book ${change.kind}`);
+        lines.push(changeLine('+', describeBook(change.after)));
+      }
+    });
+    lines.push("");
+  });
+
+  lines.push(`${counts.new} new, ${counts.changed} changed, ${counts.unchanged} unchanged subject(s)`);
+  return lines.join("\n");
+};
@@ -0,0 +1,25 @@
+export * from "./types";
+export * from "./validation";
+export * from "./isbn";
+export * from "./terms";
+export * from "./parse";
+export * from "./lint";
+export * from "./dialects";
+export * from "./batching";
+export * from "./verification";
+export * from "./sql";
+export * from "./schema";
+export * from "./relational";
+export * from "./rollback";
+export * from "./diff";
+export * from "./aliases";
+export * from "./merge";
+export * from "./xlsx";
+export * from "./spreadsheet";
+export * from "./profiles";
+export * from "./provenance";
+export * from "./reverse";
+export * from "./convert";
+export * from "./ndjson";
+export * from "./stream";
+export * from "./push";
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { cleanIsbn, normalizeIsbn } from "./isbn";
+import { fixRecommendedBooks } from "./parse";
+import { IssueContext } from "./validation";
+
+describe("normalizeIsbn", () => {
+  it.each([
+    // ISBN-13 as given, and with prefixes, hyphens and spaces stripped
+    ["9780306406157", "9780306406157", true, false],
+    ["978-0-306-40615-7", "9780306406157", true, false],
+    ["ISBN-13: 978 0 306 40615 7", "9780306406157", true, false],
+    ["isbn9780306406157", "9780306406157", true, false],
+    // ISBN-10 converted to ISBN-13, including an X check digit
+    ["0-306-40615-2", "9780306406157", true, true],
+    ["ISBN-10: 080442957x", "9780804429573", true, true],
+    ["ISBN 0 8044 2957 X", "9780804429573", true, true],
+    // Checksum failures keep the cleaned input
+    ["978-0-306-40615-8", "9780306406158", false, false],
+    ["0-306-40615-3", "0306406153", false, false],
+    // Wrong length, prefix or characters
+    ["12345", "12345", false, false],
+    ["9770306406157", "9770306406157", false, false],
+    ["X306406152", "X306406152", false, false],
+    ["", "", false, false],
+  ])("normalizes '%s' to %s (valid: %s, converted: %s)", (input, isbn, valid, converted) => {
+    expect(normalizeIsbn(input)).toEqual({ isbn, valid, converted });
+  });
+
+  it("cleans without validating", () => {
+    expect(cleanIsbn("  ISBN-10:0-306 40615-2 ")).toBe("0306406152");
+  });
+});
+
+describe("fixRecommendedBooks", () => {
+  it("flags every book's ISBN as valid or not and says what was changed", () => {
+    const context: IssueContext = { path: "books", issues: [] };
+    const books = fixRecommendedBooks([
+      { title: "A", author: "X", isbn: "978-0-306-40615-7" },
+      { title: "B", author: "Y", isbn: "080442957X" },
+      { title: "C", author: "Z", isbn: "978-0-306-40615-8" },
+      { title: "D", author: "W", isbn: "" },
+      // The same book as A under its ISBN-10
+      { title: "A (reprint)", author: "X", isbn: "0306406152" },
+    ], context);
+
+    expect(books.map((book) => [book.title, book.isbn, book.isbn_valid])).toEqual([
+      ["A", "9780306406157", true],
+      ["B", "9780804429573", true],
+      ["C", "9780306406158", false],
+      ["D", "", false],
+    ]);
+    expect(context.issues.map((issue) => [issue.path, issue.resolution, issue.message])).toEqual([
+      ["books[0].isbn", 'auto-fixed', "ISBN '978-0-306-40615-7' normalized to 9780306406157"],
+      ["books[1].isbn", 'auto-fixed', "ISBN-10 '080442957X' converted to ISBN-13 9780804429573"],
+      ["books[2].isbn", 'reported', "Invalid ISBN '978-0-306-40615-8' (wrong length or checksum)"],
+      ["books[3].isbn", 'reported', "Book has no ISBN"],
+      ["books[4].isbn", 'auto-fixed', "ISBN-10 '0306406152' converted to ISBN-13 9780306406157"],
+      ["books[4]", 'dropped', "Duplicate of an earlier book ('A (reprint)')"],
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+// ISBN-10 / ISBN-13 checksum validation and normalization
+
+export interface NormalizedIsbn {
+  // Bare ISBN-13 digits when valid, otherwise the cleaned input
+  isbn: string;
+  valid: boolean;
+  // True when a valid ISBN-10 was converted to ISBN-13
+  converted: boolean;
+}
+
+// Strip an "ISBN", "ISBN-10:" or "ISBN-13:" prefix, hyphens and spaces
+export const cleanIsbn = (value: string): string => {
+  return value
+    .trim()
+    .replace(/^ISBN(?:-1[03])?:?/i, "")
+    .replace(/[\s-]/g, "")
+    .toUpperCase();
+};
+
+export const isValidIsbn10 = (isbn: string): boolean => {
+  if (!/^\d{9}[\dX]$/.test(isbn)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const digit = isbn[i] === "X" ? 10 : Number(isbn[i]);
+    sum += digit * (10 - i);
+  }
+  return sum % 11 === 0;
+};
+
+const isbn13CheckDigit = (first12: string): number => {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(first12[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidIsbn13 = (isbn: string): boolean => {
+  if (!/^97[89]\d{10}$/.test(isbn)) return false;
+  return isbn13CheckDigit(isbn.slice(0, 12)) === Number(isbn[12]);
+};
+
+export const isbn10To13 = (isbn10: string): string => {
+  const first12 = `978${isbn10.slice(0, 9)}`;
+  return `${first12}${isbn13CheckDigit(first12)}`;
+};
+
+export const normalizeIsbn = (value: string): NormalizedIsbn => {
+  const isbn = cleanIsbn(value);
+
+  if (isValidIsbn13(isbn)) {
+    return { isbn, valid: true, converted: false };
+  }
+  if (isValidIsbn10(isbn)) {
+    return { isbn: isbn10To13(isbn), valid: true, converted: true };
+  }
+  return { isbn, valid: false, converted: false };
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { convertCurriculum } from "./convert";
+import { LintOptions } from "./lint";
+import { WeekData } from "./types";
+
+const BREAKDOWN = "What the week covers";
+
+const week = (number: number, topic = "Topic", breakdown = BREAKDOWN): WeekData => ({ week_number: number, topic, breakdown, note: null });
+
+const convert = (weeks: WeekData[], lint: LintOptions = {}) => {
+  return convertCurriculum([{
+    educational_level: "Primary 1",
+    alternative_names: [],
+    subjects: [{
+      subject_name: "Mathematics",
+      introduction: "Numbers",
+      term_1_weeks: weeks,
+      term_2_weeks: [week(1), week(2)],
+      term_3_weeks: [week(1), week(2)],
+      recommended_books: [],
+    }],
+  }], { lint });
+};
+
+// The lint issues as [rule, severity, resolution, message]
+const lintIssues = (weeks: WeekData[], lint: LintOptions = {}) => {
+  return convert(weeks, lint).issues
+    .filter((issue) => issue.rule)
+    .map((issue) => [issue.rule, issue.severity, issue.resolution, issue.message]);
+};
+
+describe("lintLevel", () => {
+  it("passes a complete term", () => {
+    expect(lintIssues([week(1), week(2), week(3)])).toEqual([]);
+  });
+
+  it.each([
+    ["week-gap", [week(1), week(4)], 'warning', "Missing weeks 2, 3"],
+    ["duplicate-week", [week(1), week(2), week(2)], 'error', "Duplicate week_number: week 2"],
+    ["week-order", [week(2), week(1)], 'warning', "Weeks are out of order: 2, 1"],
+    ["empty-topic", [week(1, " ")], 'warning', "Week 1 has an empty topic"],
+    ["short-breakdown", [week(1, "Topic", "Short")], 'info', "Week 1 breakdown is shorter than 15 characters"],
+    ["term-length", [], 'warning', "Term has 0 week(s), expected 1-16"],
+  ] as const)("reports %s", (rule, weeks, severity, message) => {
+    expect(lintIssues(weeks.slice())).toEqual([[rule, severity, 'reported', message]]);
+  });
+
+  it("reports at the term of the subject", () => {
+    const [issue] = convert([week(1), week(3)]).issues.filter((entry) => entry.rule);
+    expect(issue.path).toBe("[0].subjects[0].term_1_weeks");
+  });
+
+  it("uses the configured limits", () => {
+    expect(lintIssues([week(1, "Topic", "Short")], { minWeeksPerTerm: 2, minBreakdownLength: 5 })).toEqual([
+      ["term-length", 'warning', 'reported', "Term has 1 week(s), expected 2-16"],
+    ]);
+    expect(lintIssues([week(1), week(2), week(3)], { maxWeeksPerTerm: 2 })).toEqual([
+      ["term-length", 'warning', 'reported', "Term has 3 week(s), expected 1-2"],
+    ]);
+  });
+
+  it("uses an overridden severity and leaves out rules turned off", () => {
+    const weeks = [week(2), week(2, "")];
+    expect(lintIssues(weeks, { rules: { 'duplicate-week': 'warning', 'week-gap': 'error', 'empty-topic': 'off' } })).toEqual([
+      ["duplicate-week", 'warning', 'reported', "Duplicate week_number: week 2"],
+      ["week-gap", 'error', 'reported', "Missing week 1"],
+    ]);
+  });
+
+  it("still converts a level with errors unless they block", () => {
+    const weeks = [week(1), week(1)];
+    expect(convert(weeks).errors).toEqual([]);
+
+    const blocked = convert(weeks, { blockOnErrors: true });
+    expect(blocked.levels).toEqual([]);
+    expect(blocked.errors).toEqual(["[0].subjects[0].term_1_weeks: Duplicate week_number: week 1"]);
+    // Warnings never block
+    expect(convert([week(2), week(1)], { blockOnErrors: true }).errors).toEqual([]);
+  });
+
+  it("fixes the order of weeks when asked to", () => {
+    const weeks = [week(3, "C"), week(1, "A"), week(1, "B")];
+    const sorted = convert(weeks, { fixOrder: 'sort' });
+    expect(sorted.levels[0].subjects[0].term_1_weeks.map((entry) => [entry.week_number, entry.topic])).toEqual([
+      [1, "A"], [1, "B"], [3, "C"],
+    ]);
+    expect(sorted.issues.filter((issue) => issue.rule === 'week-order').map((issue) => issue.resolution)).toEqual(['auto-fixed']);
+
+    const renumbered = convert(weeks, { fixOrder: 'renumber', blockOnErrors: true });
+    expect(renumbered.errors).toEqual([]);
+    expect(renumbered.levels[0].subjects[0].term_1_weeks.map((entry) => [entry.week_number, entry.topic])).toEqual([
+      [1, "A"], [2, "B"], [3, "C"],
+    ]);
+    expect(renumbered.issues.filter((issue) => issue.rule).map((issue) => [issue.rule, issue.resolution])).toEqual([
+      ["duplicate-week", 'auto-fixed'],
+      ["week-gap", 'auto-fixed'],
+      ["week-order", 'auto-fixed'],
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+import { NormalizedLevel, SubjectRecord, TermLayout, WeekData } from "./types";
+import { childPath, IssueContext, IssueSeverity, ValidationIssue } from "./validation";
+
+// Content quality checks on the parsed weeks of every term. They run after
+// parsing, so the data is structurally valid but may still have gaps,
+// duplicates, out-of-order weeks or thin content.
+
+export type LintRule =
+  | 'week-gap'
+  | 'duplicate-week'
+  | 'week-order'
+  | 'empty-topic'
+  | 'short-breakdown'
+  | 'term-length';
+
+// 'sort' orders weeks by week_number, 'renumber' also renumbers them 1..n
+export type WeekOrderFix = 'none' | 'sort' | 'renumber';
+
+export interface LintOptions {
+  // Override the severity of a rule, or turn it off
+  rules?: Partial<Record<LintRule, IssueSeverity | 'off'>>;
+  minWeeksPerTerm?: number;
+  maxWeeksPerTerm?: number;
+  minBreakdownLength?: number;
+  fixOrder?: WeekOrderFix;
+  // Treat remaining lint errors as fatal so no SQL is generated for the level
+  blockOnErrors?: boolean;
+}
+
+export const DEFAULT_LINT_SEVERITIES: Record<LintRule, IssueSeverity> = {
+  'week-gap': 'warning',
+  'duplicate-week': 'error',
+  'week-order': 'warning',
+  'empty-topic': 'warning',
+  'short-breakdown': 'info',
+  'term-length': 'warning',
+};
+
+export const DEFAULT_LINT_OPTIONS: Required<Omit<LintOptions, 'rules'>> = {
+  minWeeksPerTerm: 1,
+  maxWeeksPerTerm: 16,
+  minBreakdownLength: 15,
+  fixOrder: 'none',
+  blockOnErrors: false,
+};
+
+const describeWeeks = (weekNumbers: number[]): string => {
+  return weekNumbers.length === 1 ? `week ${weekNumbers[0]}` : `weeks ${weekNumbers.join(", ")}`;
+};
+
+const lintTerm = (
+  weeks: WeekData[],
+  path: string,
+  options: LintOptions,
+  report: (rule: LintRule, path: string, message: string, fixed: boolean) => void,
+): WeekData[] => {
+  const settings = { ...DEFAULT_LINT_OPTIONS, ...options };
+  const numbers = weeks.map((week) => week.week_number);
+  const sortedNumbers = numbers.slice().sort((a, b) => a - b);
+  const sorts = settings.fixOrder === 'sort' || settings.fixOrder === 'renumber';
+  const renumbers = settings.fixOrder === 'renumber';
+
+  if (weeks.length < settings.minWeeksPerTerm || weeks.length > settings.maxWeeksPerTerm) {
+    report(
+      'term-length',
+      path,
+      `Term has ${weeks.length} week(s), expected ${settings.minWeeksPerTerm}-${settings.maxWeeksPerTerm}`,
+      false,
+    );
+  }
+
+  const duplicates = sortedNumbers.filter((number, index) => index > 0 && sortedNumbers[index - 1] === number);
+  if (duplicates.length > 0) {
+    const unique = duplicates.filter((number, index) => duplicates.indexOf(number) === index);
+    report('duplicate-week', path, `Duplicate week_number: ${describeWeeks(unique)}`, renumbers);
+  }
+
+  const highest = sortedNumbers.length > 0 ? sortedNumbers[sortedNumbers.length - 1] : 0;
+  const missing: number[] = [];
+  for (let number = 1; number <= highest; number++) {
+    if (numbers.indexOf(number) === -1) missing.push(number);
+  }
+  if (missing.length > 0) {
+    report('week-gap', path, `Missing ${describeWeeks(missing)}`, renumbers);
+  }
+
+  const outOfOrder = numbers.some((number, index) => index > 0 && number < numbers[index - 1]);
+  if (outOfOrder) {
+    report('week-order', path, `Weeks are out of order: ${numbers.join(", ")}`, sorts);
+  }
+
+  weeks.forEach((week) => {
+    if (!week.topic || !week.topic.trim()) {
+      report('empty-topic', path, `Week ${week.week_number} has an empty topic`, false);
+    }
+    if ((week.breakdown || "").trim().length < settings.minBreakdownLength) {
+      report(
+        'short-breakdown',
+        path,
+        `Week ${week.week_number} breakdown is shorter than ${settings.minBreakdownLength} characters`,
+        false,
+      );
+    }
+  });
+
+  if (!sorts) return weeks;
+
+  // Array.prototype.sort is not guaranteed stable on older engines, so keep
+  // the original position as a tie-breaker for duplicate week numbers.
+  const sorted = weeks
+    .map((week, index) => ({ week, index }))
+    .sort((a, b) => a.week.week_number - b.week.week_number || a.index - b.index)
+    .map(({ week }) => week);
+
+  return renumbers ? sorted.map((week, index) => ({ ...week, week_number: index + 1 })) : sorted;
+};
+
+const lintSubject = (
+  subject: SubjectRecord,
+  terms: TermLayout,
+  path: string,
+  options: LintOptions,
+  issues: ValidationIssue[],
+) => {
+  const severities = { ...DEFAULT_LINT_SEVERITIES, ...options.rules };
+
+  terms.keys.forEach((termKey) => {
+    subject[termKey] = lintTerm(subject[termKey], childPath(path, termKey), options, (rule, issuePath, message, fixed) => {
+      const severity = severities[rule];
+      if (severity === 'off') return;
+
+      const blocks = !fixed && severity === 'error' && Boolean(options.blockOnErrors);
+      issues.push({
+        path: issuePath,
+        severity,
+        resolution: fixed ? 'auto-fixed' : blocks ? 'fatal' : 'reported',
+        message,
+        rule,
+      });
+    });
+  });
+};
+
+// Run the content checks on every subject of a parsed level. Issues are added
+// to `context.issues`; with `fixOrder` set, weeks are sorted or renumbered in place.
+export const lintLevel = (level: NormalizedLevel, context: IssueContext, options: LintOptions = {}) => {
+  const subjectsPath = childPath(context.path, 'subjects');
+  level.subjects.forEach((subject, index) => {
+    lintSubject(subject, level.terms, childPath(subjectsPath, index), options, context.issues);
+  });
+};
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { convertCurriculum } from "./convert";
+import { formatMergeConflicts, MergeStrategy } from "./merge";
+
+const week = (number: number, topic: string) => ({ week_number: number, topic, breakdown: "Overview of the week", note: null });
+const book = (title: string, isbn: string) => ({ title, author: "Author", isbn });
+
+const mathematics = (introduction: string, weeks: unknown[], books: unknown[]) => ({
+  educational_level: "Primary 1",
+  alternative_names: [],
+  subjects: [{
+    subject_name: "Mathematics",
+    introduction,
+    term_1_weeks: weeks,
+    term_2_weeks: [],
+    term_3_weeks: [],
+    recommended_books: books,
+  }],
+});
+
+// Two copies of one subject. The first repeats week 2; the second has no
+// introduction, a new edition of the first book and a week 3.
+const input = [
+  mathematics("Numbers", [week(1, "Counting"), week(2, "Adding"), week(2, "Taking away")], [
+    book("Maths 1", "9780306406157"),
+    book("Workbook", ""),
+  ]),
+  mathematics("", [week(1, "Counting to 20"), week(3, "Shapes"), week(2, "Adding")], [
+    book("Maths 1, 2nd edition", "9780306406157"),
+  ]),
+  {
+    educational_level: "Primary 2",
+    alternative_names: [],
+    subjects: [mathematics("Fractions", [week(1, "Halves")], []).subjects[0]],
+  },
+];
+
+const merge = (strategy: MergeStrategy) => {
+  const result = convertCurriculum(input, { merge: strategy, lint: false });
+  const subject = result.levels.length > 0 ? result.levels[0].subjects[0] : undefined;
+  return { result, subject, conflict: result.conflicts[0] };
+};
+
+const topics = (weeks: Array<{ topic: string | null }>) => weeks.map((entry) => entry.topic);
+
+describe("mergeLevels", () => {
+  it("takes the last copy whole with last-wins", () => {
+    const { result, subject, conflict } = merge('last-wins');
+    expect(result.errors).toEqual([]);
+    expect(subject && subject.introduction).toBe("");
+    expect(subject && topics(subject.term_1_weeks)).toEqual(["Counting to 20", "Shapes", "Adding"]);
+    expect(subject && subject.recommended_books.map((entry) => entry.title)).toEqual(["Maths 1, 2nd edition"]);
+
+    expect(conflict.items).toEqual(["[0]", "[1]"]);
+    expect(conflict.introduction).toEqual({ item: "[1]", overridden: ["[0]"] });
+    // The second week 2 of the first copy is its own entry
+    expect(conflict.weeks.map(({ week_number, item, overridden }) => [week_number, item, overridden])).toEqual([
+      [1, "[1]", ["[0]"]],
+      [2, "[1]", []],
+      [2, null, ["[0]"]],
+      [3, "[1]", []],
+    ]);
+    expect(conflict.books.map(({ title, item, overridden }) => [title, item, overridden])).toEqual([
+      ["Maths 1, 2nd edition", "[1]", ["[0]"]],
+      ["Workbook", null, ["[0]"]],
+    ]);
+  });
+
+  it("takes the first copy whole with first-wins", () => {
+    const { subject, conflict } = merge('first-wins');
+    expect(subject && subject.introduction).toBe("Numbers");
+    expect(subject && topics(subject.term_1_weeks)).toEqual(["Counting", "Adding", "Taking away"]);
+    expect(subject && subject.recommended_books.map((entry) => entry.title)).toEqual(["Maths 1", "Workbook"]);
+
+    // An empty introduction is not overridden
+    expect(conflict.introduction).toEqual({ item: "[0]", overridden: [] });
+    expect(conflict.weeks.map(({ week_number, item, overridden }) => [week_number, item, overridden])).toEqual([
+      [1, "[0]", ["[1]"]],
+      [2, "[0]", []],
+      [2, "[0]", []],
+      [3, null, ["[1]"]],
+    ]);
+    expect(conflict.books.map(({ title, item, overridden }) => [title, item, overridden])).toEqual([
+      ["Maths 1", "[0]", ["[1]"]],
+      ["Workbook", "[0]", []],
+    ]);
+  });
+
+  it("combines weeks and books with merge-by-week-number", () => {
+    const { subject, conflict } = merge('merge-by-week-number');
+    // The empty introduction of the later copy does not win
+    expect(subject && subject.introduction).toBe("Numbers");
+    expect(subject && topics(subject.term_1_weeks)).toEqual(["Counting to 20", "Adding", "Taking away", "Shapes"]);
+    expect(subject && subject.recommended_books.map((entry) => entry.title)).toEqual(["Maths 1, 2nd edition", "Workbook"]);
+
+    expect(conflict.introduction).toEqual({ item: "[0]", overridden: [] });
+    expect(conflict.weeks.map(({ week_number, item, overridden }) => [week_number, item, overridden])).toEqual([
+      [1, "[1]", ["[0]"]],
+      [2, "[1]", []],
+      [2, "[0]", []],
+      [3, "[1]", []],
+    ]);
+    expect(conflict.books.map(({ title, item, overridden }) => [title, item, overridden])).toEqual([
+      ["Maths 1, 2nd edition", "[1]", ["[0]"]],
+      ["Workbook", "[0]", []],
+    ]);
+  });
+
+  it("leaves out a level whose copies differ with fail-on-conflict", () => {
+    const { result, conflict } = merge('fail-on-conflict');
+    expect(result.levels.map((level) => level.educational_level)).toEqual(["Primary 2"]);
+    expect(result.sql).not.toContain("Counting");
+    expect(result.errors).toEqual(["[1]: Primary 1 / Mathematics differs between items [0], [1]; the level is not converted"]);
+    expect(result.issues).toContainEqual({
+      path: "[1]",
+      severity: 'error',
+      resolution: 'fatal',
+      message: "Primary 1 / Mathematics differs between items [0], [1]; the level is not converted",
+    });
+    // The report shows what first-wins would have taken
+    expect(conflict.introduction).toEqual({ item: "[0]", overridden: [] });
+  });
+
+  it("converts copies that agree with fail-on-conflict", () => {
+    const result = convertCurriculum([input[0], input[0]], { merge: 'fail-on-conflict', lint: false });
+    expect(result.errors).toEqual([]);
+    expect(result.conflicts).toEqual([]);
+    expect(result.levels[0].subjects).toHaveLength(1);
+  });
+});
+
+describe("formatMergeConflicts", () => {
+  it("says where each week and book came from", () => {
+    expect(formatMergeConflicts(merge('last-wins').result.conflicts).split("\n")).toEqual([
+      "~ Primary 1 / Mathematics (items [0], [1])",
+      "    introduction from [1] (replaces [0])",
+      "    Term 1 week 1 from [1] (replaces [0])",
+      "    Term 1 week 2 from [1]",
+      "    Term 1 week 2 left out (only in [0])",
+      "    Term 1 week 3 from [1]",
+      "    book Maths 1, 2nd edition (9780306406157) from [1] (replaces [0])",
+      "    book Workbook (no ISBN) left out (only in [0])",
+      "",
+      "1 subject(s) with conflicting copies",
+    ]);
+  });
+});
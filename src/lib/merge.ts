@@ -0,0 +1,273 @@
+import { mergeNames } from "./aliases";
+import { bookKey } from "./diff";
+import { sanitizeString } from "./sql";
+import { termName } from "./terms";
+import { BookData, NormalizedLevel, SubjectRecord, TermKey, TermLayout, WeekData } from "./types";
+
+// Levels that arrive more than once in a batch, e.g. the same class extracted
+// from several files. Without a strategy every copy gets its own upsert and the
+// last one silently wins; with one, the copies of each subject are combined
+// before any SQL is generated and the report says what came from which item.
+
+// 'last-wins' / 'first-wins': the whole subject of the last / first item
+// 'merge-by-week-number':     weeks are combined by term and week number, books
+//                             by ISBN or title; the later item wins where both
+//                             have a week or book
+// 'fail-on-conflict':         levels whose copies differ are not converted; the
+//                             report shows what first-wins would have taken
+export type MergeStrategy = 'last-wins' | 'first-wins' | 'merge-by-week-number' | 'fail-on-conflict';
+
+export const MERGE_STRATEGIES: MergeStrategy[] = ['last-wins', 'first-wins', 'merge-by-week-number', 'fail-on-conflict'];
+
+// Where a value of a merged subject came from
+export interface MergeSource {
+  // Path of the input item it was taken from, null when it was left out
+  item: string | null;
+  // Items whose different version was left out
+  overridden: string[];
+}
+
+export interface WeekSource extends MergeSource {
+  term: TermKey;
+  term_name: string;
+  week_number: number;
+}
+
+export interface BookSource extends MergeSource {
+  title: string;
+  isbn: string;
+}
+
+// A subject that several items have with different content
+export interface MergeConflict {
+  educational_level: string;
+  subject_name: string;
+  // Paths of the items with the subject, in input order
+  items: string[];
+  introduction: MergeSource;
+  // Every week and book of any copy
+  weeks: WeekSource[];
+  books: BookSource[];
+}
+
+export interface MergeResult {
+  // One level per educational level, in order of first appearance
+  levels: NormalizedLevel[];
+  conflicts: MergeConflict[];
+}
+
+// A copy of a value and the item it came from
+interface Version<T> {
+  copy: number;
+  item: string;
+  value: T;
+}
+
+interface MergedValue<T> {
+  value: T;
+  kept: boolean;
+  source: MergeSource;
+}
+
+const sameWeek = (a: WeekData, b: WeekData): boolean => {
+  return a.topic === b.topic && a.breakdown === b.breakdown && a.note === b.note;
+};
+
+const sameBook = (a: BookData, b: BookData): boolean => {
+  return a.title === b.title && a.author === b.author && a.isbn === b.isbn;
+};
+
+// Groups the values of every copy by key (a repeated key within one copy is
+// its own entry) and picks one version of each
+const mergeVersions = <T>(
+  lists: Array<Version<T[]>>,
+  key: (value: T) => string,
+  same: (a: T, b: T) => boolean,
+  choose: (versions: Array<Version<T>>) => Version<T> | undefined,
+): Array<MergedValue<T>> => {
+  const keys: string[] = [];
+  const grouped: Array<Array<Version<T>>> = [];
+  lists.forEach((list) => {
+    const occurrences: Record<string, number> = {};
+    list.value.forEach((value) => {
+      const base = key(value);
+      occurrences[base] = (occurrences[base] || 0) + 1;
+      const entryKey = `${base}#${occurrences[base]}`;
+      let index = keys.indexOf(entryKey);
+      if (index === -1) {
+        keys.push(entryKey);
+        grouped.push([]);
+        index = keys.length - 1;
+      }
+      grouped[index].push({ copy: list.copy, item: list.item, value });
+    });
+  });
+
+  return grouped.map((versions) => {
+    const chosen = choose(versions);
+    const overridden = versions
+      .filter((version) => version !== chosen && !(chosen && same(version.value, chosen.value)))
+      .map((version) => version.item);
+    return {
+      value: chosen ? chosen.value : versions[0].value,
+      kept: Boolean(chosen),
+      source: { item: chosen ? chosen.item : null, overridden },
+    };
+  });
+};
+
+// Combines the copies of one subject. The conflict is null when they agree.
+const mergeSubject = (
+  copies: Array<Version<SubjectRecord>>,
+  terms: TermLayout,
+  strategy: MergeStrategy,
+): { subject: SubjectRecord, conflict: MergeConflict | null } => {
+  const byWeekNumber = strategy === 'merge-by-week-number';
+  // The copy taken whole by the other strategies
+  const winner = strategy === 'last-wins' ? copies[copies.length - 1] : copies[0];
+  const choose = <T>(versions: Array<Version<T>>): Version<T> | undefined => {
+    return byWeekNumber
+      ? versions[versions.length - 1]
+      : versions.filter((version) => version.copy === winner.copy)[0];
+  };
+
+  // An empty introduction neither wins nor counts as overridden when merging
+  const introductions = copies.map((copy) => ({ ...copy, value: sanitizeString(copy.value.introduction || "") }));
+  const written = introductions.filter((version) => version.value);
+  const introduction = byWeekNumber
+    ? written[written.length - 1] || introductions[introductions.length - 1]
+    : introductions.filter((version) => version.copy === winner.copy)[0];
+  const introductionSource: MergeSource = {
+    item: introduction.item,
+    overridden: written.filter((version) => version.value !== introduction.value).map((version) => version.item),
+  };
+
+  const subject: SubjectRecord = { ...winner.value };
+  const weekSources: WeekSource[] = [];
+  terms.keys.forEach((termKey) => {
+    const weeks = mergeVersions(
+      copies.map((copy) => ({ ...copy, value: copy.value[termKey] || [] })),
+      (week) => String(week.week_number),
+      sameWeek,
+      choose,
+    );
+    weeks.forEach(({ value, source }) => {
+      weekSources.push({ term: termKey, term_name: termName(terms, termKey), week_number: value.week_number, ...source });
+    });
+    if (byWeekNumber) {
+      subject[termKey] = weeks
+        .filter((week) => week.kept)
+        .map((week) => week.value)
+        .sort((a, b) => a.week_number - b.week_number);
+    }
+  });
+
+  const books = mergeVersions(
+    copies.map((copy) => ({ ...copy, value: copy.value.recommended_books })),
+    bookKey,
+    sameBook,
+    choose,
+  );
+  if (byWeekNumber) {
+    subject.introduction = copies.filter((copy) => copy.copy === introduction.copy)[0].value.introduction;
+    subject.recommended_books = books.filter((book) => book.kept).map((book) => book.value);
+  }
+
+  const conflicting = introductionSource.overridden.length > 0 ||
+    weekSources.some((source) => source.overridden.length > 0) ||
+    books.some((book) => book.source.overridden.length > 0);
+  if (!conflicting) return { subject, conflict: null };
+
+  return {
+    subject,
+    conflict: {
+      educational_level: subject.educational_level,
+      subject_name: subject.subject_name,
+      items: copies.map((copy) => copy.item).filter((item, index, items) => items.indexOf(item) === index),
+      introduction: introductionSource,
+      weeks: weekSources,
+      books: books.map(({ value, source }) => ({ title: value.title, isbn: value.isbn, ...source })),
+    },
+  };
+};
+
+// Combines the levels with the same educational level, and within them the
+// subjects with the same name. `paths` are the paths of the items the levels
+// came from. Levels that arrive once are kept as they are.
+export const mergeLevels = (levels: NormalizedLevel[], paths: string[], strategy: MergeStrategy): MergeResult => {
+  const names: string[] = [];
+  const groups: number[][] = [];
+  levels.forEach((level, index) => {
+    const group = names.indexOf(level.educational_level);
+    if (group === -1) {
+      names.push(level.educational_level);
+      groups.push([index]);
+    } else {
+      groups[group].push(index);
+    }
+  });
+
+  const result: MergeResult = { levels: [], conflicts: [] };
+  groups.forEach((group) => {
+    const first = levels[group[0]];
+    const alternativeNames = group.length === 1
+      ? first.alternative_names
+      : mergeNames(group.reduce<string[]>((all, index) => [...all, ...levels[index].alternative_names], []), first.educational_level);
+
+    // The copies of each subject, by name in order of first appearance
+    const subjectNames: string[] = [];
+    const copies: Array<Array<Version<SubjectRecord>>> = [];
+    group.forEach((levelIndex) => {
+      levels[levelIndex].subjects.forEach((subject) => {
+        let index = subjectNames.indexOf(subject.subject_name);
+        if (index === -1) {
+          subjectNames.push(subject.subject_name);
+          copies.push([]);
+          index = subjectNames.length - 1;
+        }
+        copies[index].push({ copy: copies[index].length, item: paths[levelIndex], value: subject });
+      });
+    });
+
+    const conflicts: MergeConflict[] = [];
+    const subjects = copies.map((subjectCopies) => {
+      if (subjectCopies.length === 1) {
+        const subject = subjectCopies[0].value;
+        return group.length === 1 ? subject : { ...subject, alternative_names: alternativeNames };
+      }
+      const merged = mergeSubject(subjectCopies, first.terms, strategy);
+      if (merged.conflict) conflicts.push(merged.conflict);
+      return { ...merged.subject, alternative_names: alternativeNames };
+    });
+
+    result.conflicts.push(...conflicts);
+    if (strategy === 'fail-on-conflict' && conflicts.length > 0) return;
+    result.levels.push(group.length === 1 && subjects.length === first.subjects.length
+      ? first
+      : { ...first, alternative_names: alternativeNames, subjects });
+  });
+  return result;
+};
+
+const sourceLabel = (source: MergeSource): string => {
+  const replaced = source.overridden.length > 0 ? ` (replaces ${source.overridden.join(", ")})` : "";
+  return source.item === null ? `left out (only in ${source.overridden.join(", ")})` : `from ${source.item}${replaced}`;
+};
+
+// Plain text rendering for the CLI and for copying
+export const formatMergeConflicts = (conflicts: MergeConflict[]): string => {
+  const lines: string[] = [];
+  conflicts.forEach((conflict) => {
+    lines.push(`~ ${conflict.educational_level} / ${conflict.subject_name} (items ${conflict.items.join(", ")})`);
+    lines.push(`    introduction ${sourceLabel(conflict.introduction)}`);
+    conflict.weeks.forEach((week) => {
+      lines.push(`    ${week.term_name} week ${week.week_number} ${sourceLabel(week)}`);
+    });
+    conflict.books.forEach((book) => {
+      lines.push(`    book ${book.title} (${book.isbn || "no ISBN"}) ${sourceLabel(book)}`);
+    });
+    lines.push("");
+  });
+  lines.push(`${conflicts.length} subject(s) with conflicting copies`);
+  return lines.join("\n");
+};
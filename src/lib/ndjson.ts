@@ -0,0 +1,103 @@
+import { ConvertOptions, ConvertResult, convertItems, InputItem } from "./convert";
+import { detectFormatIssues } from "./parse";
+import { isFatal, ValidationIssue } from "./validation";
+
+// JSON Lines (NDJSON) input: one extraction result per line, as written by
+// batch extraction jobs. Every line is parsed and converted on its own, so a
+// bad line is reported with its number and the other lines are still converted.
+
+export type LineStatus = 'converted' | 'auto-fixed' | 'failed';
+
+export interface LineReport {
+  // 1-based line number in the input
+  line: number;
+  status: LineStatus;
+  // Why the line failed
+  errors: string[];
+}
+
+export interface JsonLinesResult extends ConvertResult {
+  // One report per non-empty line
+  lines: LineReport[];
+  lineCounts: Record<LineStatus, number>;
+}
+
+const linePath = (line: number): string => `line ${line}`;
+
+// Issues reported at or below the line's path
+const lineIssues = (issues: ValidationIssue[], line: number): ValidationIssue[] => {
+  const path = linePath(line);
+  return issues.filter((issue) => (
+    issue.path === path || issue.path.indexOf(`${path}.`) === 0 || issue.path.indexOf(`${path}[`) === 0
+  ));
+};
+
+// Line number an error message starts with, for sorting
+const lineOf = (message: string): number => {
+  const match = /^line (\d+)/.exec(message);
+  return match ? Number(match[1]) : Infinity;
+};
+
+const parseLine = (text: string): { value?: unknown, error?: string } => {
+  try {
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    return { error: `Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}` };
+  }
+};
+
+// True for text with several lines that only parses line by line, so pasted
+// JSON Lines can be told apart from a single JSON value with a syntax error
+export const looksLikeJsonLines = (text: string): boolean => {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length < 2) return false;
+  if (!parseLine(text).error) return false;
+  const first = parseLine(lines[0]);
+  return !first.error && typeof first.value === 'object' && first.value !== null && !Array.isArray(first.value);
+};
+
+export const convertJsonLines = (text: string, options: ConvertOptions = {}): JsonLinesResult => {
+  const items: InputItem[] = [];
+  const unreadable: LineReport[] = [];
+
+  text.split(/\r?\n/).forEach((content, index) => {
+    if (!content.trim()) return;
+    const line = index + 1;
+    const { value, error } = parseLine(content);
+    if (error) {
+      unreadable.push({ line, status: 'failed', errors: [error] });
+    } else {
+      items.push({ value, path: linePath(line), label: "on this line" });
+    }
+  });
+
+  const result = convertItems(items, options, detectFormatIssues(items.map((item) => item.value)));
+  if (items.length === 0 && unreadable.length === 0) {
+    result.errors.push("No data provided");
+  }
+
+  const reports = items.map((item): LineReport => {
+    const line = Number(item.path.slice("line ".length));
+    const issues = lineIssues(result.issues, line);
+    const fatal = issues.filter(isFatal);
+    if (fatal.length > 0) {
+      return { line, status: 'failed', errors: fatal.map((issue) => issue.message) };
+    }
+    const fixed = issues.some((issue) => issue.resolution === 'auto-fixed' || issue.resolution === 'dropped');
+    return { line, status: fixed ? 'auto-fixed' : 'converted', errors: [] };
+  });
+
+  const lines = [...reports, ...unreadable].sort((a, b) => a.line - b.line);
+  const lineCounts: Record<LineStatus, number> = { 'converted': 0, 'auto-fixed': 0, 'failed': 0 };
+  lines.forEach((report) => {
+    lineCounts[report.status]++;
+  });
+
+  return {
+    ...result,
+    errors: [...unreadable.map((report) => `${linePath(report.line)}: ${report.errors[0]}`), ...result.errors]
+      .sort((a, b) => lineOf(a) - lineOf(b)),
+    lines,
+    lineCounts,
+  };
+};
@@ -0,0 +1,400 @@
+import {
+  BookData,
+  EducationalLevelData,
+  NormalizedLevel,
+  SubjectData,
+  SubjectRecord,
+  TermKey,
+  TermLayout,
+  WeekData,
+} from "./types";
+import { normalizeIsbn } from "./isbn";
+import { detectSubjectTerms, legacyWeekTerm, readTermField, resolveTerms, TermOptions, termNumber } from "./terms";
+import { childContext, IssueContext, reportIssue } from "./validation";
+
+const errorMessage = (error: unknown): string => {
+  return error instanceof Error ? error.message : "Unknown error";
+};
+
+const isValidWeekData = (week: unknown): boolean => {
+  return (
+    typeof week === 'object' &&
+    week !== null &&
+    'week_number' in week &&
+    typeof (week as any).week_number === 'number'
+  );
+};
+
+const isJsonObjectString = (value: unknown): value is string => {
+  return typeof value === 'string' && value.startsWith('{') && value.endsWith('}');
+};
+
+// Parse one week entry (object or JSON string). Invalid weeks are dropped
+// and reported through `context`.
+export const parseWeekData = (weekData: unknown, context?: IssueContext): WeekData | null => {
+  let week: any;
+
+  if (typeof weekData === "string") {
+    try {
+      week = JSON.parse(weekData);
+    } catch (error) {
+      reportIssue(context, 'error', 'dropped', `Week is not valid JSON: ${errorMessage(error)}`);
+      return null;
+    }
+    reportIssue(context, 'info', 'auto-fixed', "JSON string parsed to week object");
+  } else {
+    week = weekData;
+  }
+
+  if (typeof week !== 'object' || week === null || Array.isArray(week)) {
+    reportIssue(context, 'error', 'dropped', "Week must be an object");
+    return null;
+  }
+
+  if (!isValidWeekData(week)) {
+    const message = 'week_number' in week
+      ? `week_number must be a number, got ${JSON.stringify(week.week_number)}`
+      : "Week is missing 'week_number'";
+    reportIssue(context, 'error', 'dropped', message, 'week_number');
+    return null;
+  }
+
+  // Handle breakdown field - it can be a string or array
+  let breakdown = week.breakdown;
+  if (Array.isArray(breakdown)) {
+    breakdown = breakdown.join(', ');
+    reportIssue(context, 'info', 'auto-fixed', "breakdown array joined into a single string", 'breakdown');
+  } else if (breakdown && typeof breakdown !== 'string') {
+    breakdown = String(breakdown);
+    reportIssue(context, 'warning', 'auto-fixed', "breakdown converted to a string", 'breakdown');
+  }
+
+  if (!breakdown && week.objectives) {
+    reportIssue(context, 'info', 'auto-fixed', "objectives used as breakdown", 'objectives');
+  }
+
+  return {
+    week_number: week.week_number,
+    topic: week.topic || null,
+    breakdown: breakdown || week.objectives || null,
+    note: week.note || null,
+  };
+};
+
+const PLACEHOLDER_VALUES = ["", "unknown", "unknown author", "unknown title", "n/a", "na", "tbd", "none", "-"];
+
+const isPlaceholder = (value: string): boolean => {
+  return PLACEHOLDER_VALUES.indexOf(value.trim().toLowerCase()) !== -1;
+};
+
+// Turn one recommended_books entry into a book object with default title/author
+const toBookObject = (book: unknown, context?: IssueContext): { title: string, author: string, isbn: string } => {
+  let value = book;
+
+  if (isJsonObjectString(book)) {
+    try {
+      value = JSON.parse(book);
+      reportIssue(context, 'info', 'auto-fixed', "JSON string parsed to book object");
+    } catch (error) {
+      reportIssue(context, 'warning', 'auto-fixed', "Book is not valid JSON; whole string used as the title");
+      return { title: book, author: 'Unknown', isbn: '' };
+    }
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const bookObj = value as any;
+    if (!bookObj.title) {
+      reportIssue(context, 'warning', 'auto-fixed', "Missing title replaced with 'Unknown Title'", 'title');
+    }
+    if (!bookObj.author) {
+      reportIssue(context, 'warning', 'auto-fixed', "Missing author replaced with 'Unknown Author'", 'author');
+    }
+    return {
+      title: bookObj.title ? String(bookObj.title) : 'Unknown Title',
+      author: bookObj.author ? String(bookObj.author) : 'Unknown Author',
+      isbn: bookObj.isbn ? String(bookObj.isbn) : '',
+    };
+  }
+
+  reportIssue(context, 'warning', 'auto-fixed', "Book is not an object; value used as the title");
+  return { title: String(book), author: 'Unknown', isbn: '' };
+};
+
+// Parse recommended_books, normalizing ISBNs to ISBN-13 and dropping
+// duplicates (same ISBN, or same title and author) within the subject.
+export const fixRecommendedBooks = (books: unknown, context?: IssueContext): BookData[] => {
+  if (!Array.isArray(books)) {
+    if (books !== undefined && books !== null) {
+      reportIssue(context, 'warning', 'dropped', "recommended_books must be an array");
+    }
+    return [];
+  }
+
+  const seen: string[] = [];
+
+  return books
+    .map((book: unknown, index): BookData | null => {
+      const bookContext = context && childContext(context, index);
+      const { title, author, isbn: rawIsbn } = toBookObject(book, bookContext);
+
+      if (isPlaceholder(title)) {
+        reportIssue(bookContext, 'warning', 'reported', `Placeholder title '${title}'`, 'title');
+      }
+      if (isPlaceholder(author)) {
+        reportIssue(bookContext, 'warning', 'reported', `Placeholder author '${author}'`, 'author');
+      }
+
+      const { isbn, valid, converted } = normalizeIsbn(rawIsbn);
+      if (!rawIsbn.trim()) {
+        reportIssue(bookContext, 'info', 'reported', "Book has no ISBN", 'isbn');
+      } else if (!valid) {
+        reportIssue(bookContext, 'warning', 'reported', `Invalid ISBN '${rawIsbn}' (wrong length or checksum)`, 'isbn');
+      } else if (converted) {
+        reportIssue(bookContext, 'info', 'auto-fixed', `ISBN-10 '${rawIsbn}' converted to ISBN-13 ${isbn}`, 'isbn');
+      } else if (isbn !== rawIsbn) {
+        reportIssue(bookContext, 'info', 'auto-fixed', `ISBN '${rawIsbn}' normalized to ${isbn}`, 'isbn');
+      }
+
+      const keys = [`title:${title.trim().toLowerCase()}|${author.trim().toLowerCase()}`];
+      if (valid) keys.push(`isbn:${isbn}`);
+
+      const duplicateOf = keys.map((key) => seen.indexOf(key)).filter((position) => position !== -1);
+      if (duplicateOf.length > 0) {
+        reportIssue(bookContext, 'warning', 'dropped', `Duplicate of an earlier book ('${title}')`);
+        return null;
+      }
+      seen.push(...keys);
+
+      return { title, author, isbn, isbn_valid: valid };
+    })
+    .filter((book): book is BookData => book !== null);
+};
+
+// Extract curriculum data from nested structures
+export const extractCurriculumData = (data: any): EducationalLevelData | null => {
+  // Handle nested structure with 'data' field
+  if (data.data && typeof data.data === 'object') {
+    data = data.data;
+  }
+
+  // Check if this looks like curriculum data
+  if (data.educational_level && data.subjects) {
+    return data as EducationalLevelData;
+  }
+
+  return null;
+};
+
+export const detectFormatIssues = (data: unknown): string[] => {
+  const warnings: string[] = [];
+
+  // Extract actual curriculum data if nested
+  let curriculumData = data;
+  if (typeof data === 'object' && data !== null && 'data' in data) {
+    curriculumData = (data as any).data;
+    warnings.push(`ℹ️ Detected nested structure - extracting curriculum data from 'data' field`);
+  }
+
+  const checkForJsonStrings = (obj: unknown, path: string = '') => {
+    if (Array.isArray(obj)) {
+      obj.forEach((item, index) => {
+        if (isJsonObjectString(item)) {
+          // Check if this is in a terms weeks array
+          if (path.includes('term_') && path.includes('weeks')) {
+            warnings.push(`🔧 Auto-fixing: ${path}[${index}] JSON string will be parsed to object`);
+          } else if (path.includes('recommended_books')) {
+            warnings.push(`🔧 Auto-fixing: ${path}[${index}] JSON string will be parsed to book object`);
+          } else {
+            warnings.push(`⚠️ JSON string at ${path}[${index}] - will be parsed automatically`);
+          }
+        } else if (typeof item === 'object' && item !== null) {
+          checkForJsonStrings(item, `${path}[${index}]`);
+        }
+      });
+    } else if (typeof obj === 'object' && obj !== null) {
+      Object.keys(obj).forEach(key => {
+        const newPath = path ? `${path}.${key}` : key;
+        const value = (obj as any)[key];
+        checkForJsonStrings(value, newPath);
+      });
+    }
+  };
+
+  checkForJsonStrings(curriculumData);
+  return warnings;
+};
+
+export const processTermWeeks = (
+  subject: SubjectData,
+  termKey: TermKey | 'weeks',
+  context?: IssueContext,
+): WeekData[] => {
+  const termData = subject[termKey];
+  const termContext = context && childContext(context, termKey);
+
+  if (!Array.isArray(termData)) {
+    if (termData !== undefined && termData !== null) {
+      reportIssue(termContext, 'warning', 'dropped', `${termKey} must be an array`);
+    }
+    return [];
+  }
+
+  return (termData as unknown[])
+    .map((weekItem, index) => parseWeekData(weekItem, termContext && childContext(termContext, index)))
+    .filter((week): week is WeekData => week !== null);
+};
+
+const parseAlternativeNames = (names: unknown, context: IssueContext): string[] => {
+  if (names === undefined || names === null) return [];
+
+  if (!Array.isArray(names)) {
+    reportIssue(context, 'warning', 'dropped', "alternative_names must be an array of strings");
+    return [];
+  }
+
+  return names.filter((name, index) => {
+    if (typeof name === 'string') return true;
+    reportIssue(context, 'warning', 'dropped', "Alternative name must be a string", index);
+    return false;
+  });
+};
+
+// Split the legacy 'weeks' array into terms by each week's 'term' field (term 1
+// without one). Weeks only go to terms that have no weeks of their own.
+const splitLegacyWeeks = (
+  weeks: unknown[],
+  record: SubjectRecord,
+  terms: TermLayout,
+  context: IssueContext,
+) => {
+  const weeksContext = childContext(context, 'weeks');
+  const termFields = weeks.map(legacyWeekTerm);
+  const split = termFields.some((term) => term !== undefined);
+  const occupied = terms.keys.filter((key) => record[key].length > 0);
+  // Without term fields the array is only a fallback for an empty term 1
+  if (!split && occupied.indexOf(terms.keys[0]) !== -1) return;
+
+  const filled: TermKey[] = [];
+  const ignored: TermKey[] = [];
+  weeks.forEach((weekItem, index) => {
+    const weekContext = childContext(weeksContext, index);
+    let term = termFields[index] === undefined ? 1 : readTermField(termFields[index]);
+    if (term === null || term < 1) {
+      reportIssue(weekContext, 'warning', 'auto-fixed', `term must be a positive whole number, got ${JSON.stringify(termFields[index])}; week used in term 1`, 'term');
+      term = 1;
+    }
+    if (term > terms.keys.length) {
+      reportIssue(weekContext, 'warning', 'dropped', `Week belongs to term ${term}, beyond the ${terms.keys.length} configured terms`, 'term');
+      return;
+    }
+
+    const key = terms.keys[term - 1];
+    if (occupied.indexOf(key) !== -1) {
+      if (ignored.indexOf(key) === -1) ignored.push(key);
+      return;
+    }
+    const week = parseWeekData(weekItem, weekContext);
+    if (!week) return;
+    record[key].push(week);
+    if (filled.indexOf(key) === -1) filled.push(key);
+  });
+
+  if (!split) {
+    reportIssue(context, 'info', 'auto-fixed', `Legacy 'weeks' array used as ${terms.keys[0]}`, 'weeks');
+  } else if (filled.length > 0) {
+    reportIssue(context, 'info', 'auto-fixed', `Legacy 'weeks' array split into ${filled.join(", ")} by its 'term' fields`, 'weeks');
+  }
+  ignored.forEach((key) => {
+    reportIssue(context, 'info', 'dropped', `Legacy weeks of term ${termNumber(key)} ignored, ${key} is already set`, 'weeks');
+  });
+};
+
+// Parse one raw subject into a curriculum_data row. Returns null (with a fatal
+// issue) when the subject cannot be converted.
+export const normalizeSubject = (
+  level: Pick<NormalizedLevel, 'educational_level' | 'alternative_names' | 'terms'>,
+  subject: SubjectData,
+  context: IssueContext,
+): SubjectRecord | null => {
+  if (typeof subject !== 'object' || subject === null || Array.isArray(subject)) {
+    reportIssue(context, 'error', 'fatal', "Subject must be an object");
+    return null;
+  }
+
+  if (!subject.subject_name || typeof subject.subject_name !== 'string') {
+    reportIssue(context, 'error', 'fatal', "Subject is missing 'subject_name' field", 'subject_name');
+    return null;
+  }
+
+  let introduction = subject.introduction || "";
+  if (typeof introduction !== 'string') {
+    introduction = String(introduction);
+    reportIssue(context, 'warning', 'auto-fixed', "introduction converted to a string", 'introduction');
+  }
+
+  const books = fixRecommendedBooks(subject.recommended_books, childContext(context, 'recommended_books'));
+  const record = {
+    educational_level: level.educational_level,
+    subject_name: subject.subject_name,
+    alternative_names: level.alternative_names,
+    introduction,
+  } as SubjectRecord;
+
+  level.terms.keys.forEach((termKey) => {
+    record[termKey] = processTermWeeks(subject, termKey, context);
+  });
+  record.recommended_books = books;
+
+  // Weeks of terms the layout does not have
+  Object.keys(subject).forEach((key) => {
+    const term = termNumber(key);
+    if (term === null || term <= level.terms.keys.length) return;
+    const weeks: unknown = subject[key as TermKey];
+    if (Array.isArray(weeks) && weeks.length === 0) return;
+    reportIssue(context, 'warning', 'dropped', `${key} is beyond the ${level.terms.keys.length} configured terms`, key);
+  });
+
+  // Handle legacy 'weeks' format for backward compatibility
+  if (Array.isArray(subject.weeks) && subject.weeks.length > 0) {
+    splitLegacyWeeks(subject.weeks, record, level.terms, context);
+  }
+
+  return record;
+};
+
+// Parse a whole educational level. Subjects that cannot be converted are
+// reported as fatal issues in `context` and left out of the result. With
+// `terms.count` 'auto' the level gets as many terms as its subjects use.
+export const normalizeLevel = (
+  curriculum: EducationalLevelData,
+  context: IssueContext = { path: "", issues: [] },
+  terms: TermOptions = {},
+): NormalizedLevel => {
+  if (typeof curriculum.educational_level !== 'string' || !curriculum.educational_level.trim()) {
+    reportIssue(context, 'error', 'fatal', "educational_level must be a non-empty string", 'educational_level');
+  }
+
+  const level: NormalizedLevel = {
+    educational_level: String(curriculum.educational_level),
+    alternative_names: parseAlternativeNames(curriculum.alternative_names, childContext(context, 'alternative_names')),
+    subjects: [],
+    terms: resolveTerms(terms, terms.count === 'auto' && Array.isArray(curriculum.subjects)
+      ? curriculum.subjects.reduce((highest, subject) => Math.max(highest, detectSubjectTerms(subject)), 0)
+      : 0),
+  };
+
+  if (!Array.isArray(curriculum.subjects)) {
+    reportIssue(context, 'error', 'fatal', "subjects must be an array", 'subjects');
+    return level;
+  }
+
+  const subjectsContext = childContext(context, 'subjects');
+  curriculum.subjects.forEach((subject, index) => {
+    const record = normalizeSubject(level, subject, childContext(subjectsContext, index));
+    if (record) {
+      level.subjects.push(record);
+    }
+  });
+
+  return level;
+};
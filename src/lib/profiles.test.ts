@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { convertCurriculum } from "./convert";
+import { BUILTIN_PROFILES, detectProfile, MappingProfile } from "./profiles";
+
+const profile = (name: string): MappingProfile => BUILTIN_PROFILES.filter((entry) => entry.name === name)[0];
+
+// One level in each built-in layout, all with the same content
+const LAYOUTS: Array<[string, unknown]> = [
+  ["standard", {
+    educational_level: "Primary 1",
+    alternative_names: ["Basic 1", "P1"],
+    subjects: [{
+      subject_name: "Mathematics",
+      introduction: "Numbers",
+      term_1_weeks: [
+        { week_number: 1, topic: "Counting", breakdown: "Count from 1 to 10", note: null },
+        JSON.stringify({ week_number: 2, topic: "Adding", breakdown: "Sums up to 10", note: "Use beads" }),
+      ],
+      term_2_weeks: [{ week_number: 1, topic: "Shapes", breakdown: "Circles, squares", note: null }],
+      term_3_weeks: [],
+      recommended_books: [{ title: "New Maths", author: "A. Author", isbn: "9780306406157" }],
+    }],
+  }],
+  ["alternate-keys", {
+    data: {
+      class: "Primary 1 ",
+      aliases: "Basic 1, P1",
+      courses: [{
+        subject: " Mathematics",
+        overview: "Numbers",
+        term1: [
+          { weekNo: "Week 1", title: "Counting", content: ["Count from 1 to 10"] },
+          { week: 2, title: "Adding", details: "Sums up to 10", remarks: "Use beads" },
+        ],
+        term_2: [{ week_no: "1", title: "Shapes", content: ["Circles", "squares"] }],
+        books: [{ title: "New Maths", author: "A. Author", isbn: "9780306406157" }],
+      }],
+    },
+  }],
+  ["terms-array", {
+    level: "Primary 1",
+    aliases: ["Basic 1", "P1"],
+    subjects: [{
+      name: "Mathematics",
+      intro: "Numbers",
+      terms: [
+        { term: 2, weeks: [{ weekNumber: 1, topic: "Shapes", objectives: ["Circles", "squares"] }] },
+        {
+          term_number: "1",
+          week_list: [
+            { week_number: 1, topic: "Counting", breakdown: "Count from 1 to 10" },
+            { week: "2", topic: "Adding", breakdown: "Sums up to 10", notes: "Use beads" },
+          ],
+        },
+      ],
+      recommended_books: [{ title: "New Maths", author: "A. Author", isbn: "9780306406157" }],
+    }],
+  }],
+];
+
+describe("built-in mapping profiles", () => {
+  it("cover every built-in profile", () => {
+    expect(LAYOUTS.map(([name]) => name)).toEqual(BUILTIN_PROFILES.map((entry) => entry.name));
+  });
+
+  it.each(LAYOUTS)("detect and read the %s layout", (name, input) => {
+    const detected = detectProfile([input]);
+    expect(detected && [detected.profile.name, detected.score]).toEqual([name, 1]);
+
+    const result = convertCurriculum([input], { profile: profile(name), lint: false });
+    expect(result.errors).toEqual([]);
+    const [level] = result.levels;
+    expect(level.educational_level).toBe("Primary 1");
+    expect(level.alternative_names).toEqual(["Basic 1", "P1"]);
+    expect(level.subjects.map((subject) => [subject.subject_name, subject.introduction])).toEqual([["Mathematics", "Numbers"]]);
+
+    const [subject] = level.subjects;
+    expect(subject.term_1_weeks).toEqual([
+      { week_number: 1, topic: "Counting", breakdown: "Count from 1 to 10", note: null },
+      { week_number: 2, topic: "Adding", breakdown: "Sums up to 10", note: "Use beads" },
+    ]);
+    expect(subject.term_2_weeks).toEqual([{ week_number: 1, topic: "Shapes", breakdown: "Circles, squares", note: null }]);
+    expect(subject.term_3_weeks).toEqual([]);
+    expect(subject.recommended_books.map((book) => [book.title, book.isbn, book.isbn_valid])).toEqual([
+      ["New Maths", "9780306406157", true],
+    ]);
+  });
+
+  it("prefer the standard profile when another fits as well", () => {
+    const [, standard] = LAYOUTS[0];
+    expect(BUILTIN_PROFILES.map((entry) => detectProfile(standard, [entry])?.score)).toEqual([1, 1, 4 / 7]);
+  });
+
+  it("report a layout that no profile reads", () => {
+    const input = { school: "Hill Top", lessons: [{ course: "Mathematics", plan: ["Counting"] }] };
+    // Only the object itself is found, so the earliest profile wins with the lowest score
+    expect(detectProfile(input)).toEqual({ profile: BUILTIN_PROFILES[0], score: 1 / 7 });
+    expect(detectProfile("Primary 1")).toBeNull();
+
+    BUILTIN_PROFILES.forEach((entry) => {
+      expect(convertCurriculum([input], { profile: entry, lint: false }).errors).toEqual([
+        `[0]: Could not extract curriculum data from item at index 0 with the '${entry.name}' mapping profile. Its educational level or subjects were not found.`,
+      ]);
+    });
+  });
+});
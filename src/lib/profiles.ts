@@ -0,0 +1,374 @@
+import { MAX_TERMS, resolveTerms, termKey, termNumber } from "./terms";
+import { EducationalLevelData, SubjectData } from "./types";
+import { childContext, IssueContext, reportIssue } from "./validation";
+
+// Mapping profiles describe extraction layouts other than the standard one
+// (educational_level / subjects / term_N_weeks / week_number ...). Every field
+// names its source as a JSON pointer relative to the object being read, with
+// fallbacks and transforms. The profile turns each input item into the
+// standard shape, which then goes through the usual parsing and checks.
+
+export type FieldTransform = 'trim' | 'string' | 'number' | 'join' | 'split';
+
+// A JSON pointer ("/level", "/meta/class", "" for the object itself), several
+// pointers tried in order, or pointers with transforms applied in order
+export type FieldSource = string | string[] | { path: string | string[], transform?: FieldTransform[] };
+
+// Subjects whose weeks are grouped in an array of term objects
+export interface TermsArraySource {
+  path: FieldSource;
+  // Term number (1-based) within a term object
+  number: FieldSource;
+  weeks: FieldSource;
+}
+
+export interface MappingProfile {
+  name: string;
+  description?: string;
+  // The level object within an input item, defaults to the item itself
+  root?: FieldSource;
+  level: {
+    educational_level: FieldSource;
+    alternative_names?: FieldSource;
+    subjects: FieldSource;
+  };
+  subject: {
+    subject_name: FieldSource;
+    introduction?: FieldSource;
+    recommended_books?: FieldSource;
+    // One week list per term, in term order...
+    term_weeks?: FieldSource[];
+    // ...or an array of term objects
+    terms?: TermsArraySource;
+  };
+  week: {
+    week_number: FieldSource;
+    topic?: FieldSource;
+    breakdown?: FieldSource;
+    note?: FieldSource;
+  };
+  // Without it, books are passed on unchanged
+  book?: {
+    title?: FieldSource;
+    author?: FieldSource;
+    isbn?: FieldSource;
+  };
+}
+
+const TRANSFORMS: FieldTransform[] = ['trim', 'string', 'number', 'join', 'split'];
+
+// The built-in profiles read week lists for every term the converter accepts
+const TERM_KEYS = resolveTerms({ count: MAX_TERMS }).keys;
+
+const WEEK_SOURCES = {
+  week_number: { path: ["/week_number", "/weekNo", "/week_no", "/weekNumber", "/week"], transform: ['number'] as FieldTransform[] },
+  topic: ["/topic", "/title"],
+  breakdown: { path: ["/breakdown", "/content", "/objectives", "/details"], transform: ['join'] as FieldTransform[] },
+  note: ["/note", "/notes", "/remarks"],
+};
+
+export const BUILTIN_PROFILES: MappingProfile[] = [
+  {
+    name: "standard",
+    description: "educational_level, subjects and term_1_weeks, term_2_weeks..., optionally nested under data",
+    root: ["/data", ""],
+    level: { educational_level: "/educational_level", alternative_names: "/alternative_names", subjects: "/subjects" },
+    subject: {
+      subject_name: "/subject_name",
+      introduction: "/introduction",
+      recommended_books: "/recommended_books",
+      term_weeks: TERM_KEYS.map((termKey) => `/${termKey}`),
+    },
+    week: { week_number: "/week_number", topic: "/topic", breakdown: ["/breakdown", "/objectives"], note: "/note" },
+  },
+  {
+    name: "alternate-keys",
+    description: "level/class, subject/name, weekNo/week, title, content and similar key names with term_N_weeks",
+    root: ["/data", ""],
+    level: {
+      educational_level: { path: ["/educational_level", "/level", "/class", "/grade"], transform: ['string', 'trim'] },
+      alternative_names: { path: ["/alternative_names", "/aliases"], transform: ['split'] },
+      subjects: ["/subjects", "/courses"],
+    },
+    subject: {
+      subject_name: { path: ["/subject_name", "/subject", "/name"], transform: ['trim'] },
+      introduction: ["/introduction", "/intro", "/overview"],
+      recommended_books: ["/recommended_books", "/books"],
+      term_weeks: TERM_KEYS.map((termKey, index) => [`/${termKey}`, `/term${index + 1}`, `/term_${index + 1}`]),
+    },
+    week: WEEK_SOURCES,
+  },
+  {
+    name: "terms-array",
+    description: "subjects with terms: [{ term: 1, weeks: [...] }] and alternate key names",
+    root: ["/data", ""],
+    level: {
+      educational_level: { path: ["/educational_level", "/level", "/class", "/grade"], transform: ['string', 'trim'] },
+      alternative_names: { path: ["/alternative_names", "/aliases"], transform: ['split'] },
+      subjects: ["/subjects", "/courses"],
+    },
+    subject: {
+      subject_name: { path: ["/subject_name", "/subject", "/name"], transform: ['trim'] },
+      introduction: ["/introduction", "/intro", "/overview"],
+      recommended_books: ["/recommended_books", "/books"],
+      terms: {
+        path: "/terms",
+        number: { path: ["/term", "/term_number", "/number"], transform: ['number'] },
+        weeks: ["/weeks", "/week_list"],
+      },
+    },
+    week: WEEK_SOURCES,
+  },
+];
+
+// RFC 6901 JSON pointer lookup; undefined when any step is missing
+export const resolvePointer = (value: unknown, pointer: string): unknown => {
+  if (pointer === "") return value;
+  if (pointer.charAt(0) !== "/") return undefined;
+
+  return pointer.slice(1).split("/").reduce<unknown>((current, token) => {
+    if (current === null || typeof current !== 'object') return undefined;
+    const key = token.replace(/~1/g, "/").replace(/~0/g, "~");
+    return (current as Record<string, unknown>)[key];
+  }, value);
+};
+
+const applyTransform = (value: unknown, transform: FieldTransform): unknown => {
+  if (value === undefined || value === null) return value;
+  switch (transform) {
+    case 'trim':
+      return typeof value === 'string' ? value.trim() : value;
+    case 'string':
+      return typeof value === 'object' ? value : String(value);
+    case 'number': {
+      // "Week 3" -> 3; values without digits are left for the week parser to reject
+      if (typeof value === 'number') return value;
+      const digits = /\d+/.exec(String(value));
+      return digits ? Number(digits[0]) : value;
+    }
+    case 'join':
+      return Array.isArray(value) ? value.join(", ") : value;
+    case 'split':
+      return typeof value === 'string' ? value.split(",").map((part) => part.trim()).filter((part) => part) : value;
+  }
+  return value;
+};
+
+const sourcePaths = (source: FieldSource): string[] => {
+  if (typeof source === 'string') return [source];
+  if (Array.isArray(source)) return source;
+  return typeof source.path === 'string' ? [source.path] : source.path;
+};
+
+// The first pointer that resolves to a value, transformed
+export const readField = (value: unknown, source: FieldSource | undefined): unknown => {
+  if (source === undefined) return undefined;
+  const found = sourcePaths(source)
+    .map((pointer) => resolvePointer(value, pointer))
+    .filter((candidate) => candidate !== undefined && candidate !== null)[0];
+  const transforms = typeof source === 'object' && !Array.isArray(source) ? source.transform || [] : [];
+  return transforms.reduce<unknown>((current, transform) => applyTransform(current, transform), found);
+};
+
+// Entries may be JSON strings, as in the standard layout
+const parseEntry = (entry: unknown, context: IssueContext, kind: string): unknown => {
+  if (typeof entry !== 'string' || entry.charAt(0) !== "{") return entry;
+  try {
+    const parsed = JSON.parse(entry);
+    reportIssue(context, 'info', 'auto-fixed', `JSON string parsed to ${kind} object`);
+    return parsed;
+  } catch (error) {
+    return entry;
+  }
+};
+
+// Copies the mapped fields that have a value
+const mapObject = (value: unknown, sources: Record<string, FieldSource | undefined>): Record<string, unknown> => {
+  const mapped: Record<string, unknown> = {};
+  Object.keys(sources).forEach((key) => {
+    const field = readField(value, sources[key]);
+    if (field !== undefined && field !== null) mapped[key] = field;
+  });
+  return mapped;
+};
+
+const mapList = (
+  list: unknown,
+  context: IssueContext,
+  kind: string,
+  sources: Record<string, FieldSource | undefined>,
+): unknown => {
+  if (!Array.isArray(list)) return list;
+  return list.map((entry, index) => {
+    const parsed = parseEntry(entry, childContext(context, index), kind);
+    return typeof parsed === 'object' && parsed !== null ? mapObject(parsed, sources) : parsed;
+  });
+};
+
+const mapSubject = (subject: unknown, profile: MappingProfile, context: IssueContext): SubjectData => {
+  const mapped = mapObject(subject, {
+    subject_name: profile.subject.subject_name,
+    introduction: profile.subject.introduction,
+  }) as unknown as SubjectData;
+
+  const books = readField(subject, profile.subject.recommended_books);
+  if (books !== undefined) {
+    mapped.recommended_books = (profile.book
+      ? mapList(books, childContext(context, 'recommended_books'), "book", profile.book)
+      : books) as SubjectData['recommended_books'];
+  }
+
+  const mapWeeks = (weeks: unknown, term: number) => {
+    const key = termKey(term);
+    mapped[key] = mapList(weeks, childContext(context, key), "week", profile.week) as SubjectData[typeof key];
+  };
+
+  if (profile.subject.term_weeks) {
+    profile.subject.term_weeks.forEach((source, index) => {
+      const weeks = readField(subject, source);
+      if (weeks !== undefined) mapWeeks(weeks, index + 1);
+    });
+  }
+
+  const termsSource = profile.subject.terms;
+  const terms = termsSource ? readField(subject, termsSource.path) : undefined;
+  if (termsSource && Array.isArray(terms)) {
+    terms.forEach((term, index) => {
+      // Terms beyond the configured number are reported with the subject
+      const number = readField(term, termsSource.number);
+      if (typeof number !== 'number' || number < 1 || number % 1 !== 0) {
+        reportIssue(childContext(context, 'terms'), 'warning', 'dropped', `Term ${JSON.stringify(number)} is not a positive whole number`, index);
+        return;
+      }
+      mapWeeks(readField(term, termsSource.weeks), number);
+    });
+  }
+
+  return mapped;
+};
+
+// Reads one input item with the profile. Returns null when the item has no
+// educational level or subjects where the profile expects them.
+export const applyProfile = (item: unknown, profile: MappingProfile, context: IssueContext): EducationalLevelData | null => {
+  const root = readField(item, profile.root || "");
+  if (root === null || typeof root !== 'object' || Array.isArray(root)) return null;
+
+  const educationalLevel = readField(root, profile.level.educational_level);
+  const subjects = readField(root, profile.level.subjects);
+  if (educationalLevel === undefined || subjects === undefined) return null;
+
+  const subjectsContext = childContext(context, 'subjects');
+  return {
+    educational_level: educationalLevel as string,
+    alternative_names: readField(root, profile.level.alternative_names) as string[],
+    subjects: (Array.isArray(subjects)
+      ? subjects.map((subject, index) => mapSubject(subject, profile, childContext(subjectsContext, index)))
+      : subjects) as SubjectData[],
+  };
+};
+
+// Share (0..1) of the profile's key fields found in the first item, the first
+// subject and its first week
+export const scoreProfile = (input: unknown, profile: MappingProfile): number => {
+  const item = Array.isArray(input) ? input[0] : input;
+  const checks: boolean[] = [];
+  const root = readField(item, profile.root || "");
+  const hasRoot = root !== null && typeof root === 'object' && !Array.isArray(root);
+  checks.push(hasRoot);
+
+  const levelName = hasRoot ? readField(root, profile.level.educational_level) : undefined;
+  checks.push(typeof levelName === 'string' && levelName !== "");
+
+  const subjects = hasRoot ? readField(root, profile.level.subjects) : undefined;
+  const subject = Array.isArray(subjects) ? subjects[0] : undefined;
+  checks.push(subject !== undefined);
+  checks.push(typeof readField(subject, profile.subject.subject_name) === 'string');
+
+  const mapped = subject === undefined
+    ? undefined
+    : mapSubject(subject, profile, { path: "", issues: [] });
+  const weeks = mapped
+    ? Object.keys(mapped)
+      .filter((key) => termNumber(key) !== null)
+      .map((key) => mapped[key as keyof SubjectData])
+      .filter((list) => Array.isArray(list) && list.length > 0)[0]
+    : undefined;
+  const week = weeks ? (weeks[0] as unknown as Record<string, unknown>) : undefined;
+  checks.push(week !== undefined);
+  checks.push(Boolean(week) && typeof week?.week_number === 'number');
+  checks.push(Boolean(week) && (week?.topic !== undefined || week?.breakdown !== undefined));
+
+  return checks.filter((check) => check).length / checks.length;
+};
+
+// The best-scoring profile for a document; earlier profiles win ties, so the
+// standard layout is preferred when it fits as well as another
+export const detectProfile = (
+  input: unknown,
+  profiles: MappingProfile[] = BUILTIN_PROFILES,
+): { profile: MappingProfile, score: number } | null => {
+  return profiles.reduce<{ profile: MappingProfile, score: number } | null>((best, profile) => {
+    const score = scoreProfile(input, profile);
+    return score > 0 && (!best || score > best.score) ? { profile, score } : best;
+  }, null);
+};
+
+const isFieldSource = (value: unknown): boolean => {
+  const isPointer = (pointer: unknown) => typeof pointer === 'string' && (pointer === "" || pointer.charAt(0) === "/");
+  if (isPointer(value)) return true;
+  if (Array.isArray(value)) return value.length > 0 && value.every(isPointer);
+  if (typeof value !== 'object' || value === null) return false;
+  const source = value as { path?: unknown, transform?: unknown };
+  const transformsValid = source.transform === undefined ||
+    (Array.isArray(source.transform) && source.transform.every((transform) => TRANSFORMS.indexOf(transform) !== -1));
+  return transformsValid && (isPointer(source.path) ||
+    (Array.isArray(source.path) && source.path.length > 0 && source.path.every(isPointer)));
+};
+
+// Problems with a profile loaded from a file or typed into the editor
+export const validateProfile = (value: unknown): string[] => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return ["Profile must be an object"];
+  const profile = value as Record<string, any>;
+  const errors: string[] = [];
+
+  if (typeof profile.name !== 'string' || !profile.name.trim()) errors.push("name must be a non-empty string");
+
+  const check = (path: string, required: boolean) => {
+    const field = path.split(".").reduce<any>((current, key) => (current == null ? undefined : current[key]), profile);
+    if (field === undefined) {
+      if (required) errors.push(`${path} is required`);
+    } else if (!isFieldSource(field)) {
+      errors.push(`${path} must be a JSON pointer, a list of pointers or { path, transform } (transforms: ${TRANSFORMS.join(", ")})`);
+    }
+  };
+
+  check("root", false);
+  check("level.educational_level", true);
+  check("level.alternative_names", false);
+  check("level.subjects", true);
+  check("subject.subject_name", true);
+  check("subject.introduction", false);
+  check("subject.recommended_books", false);
+  check("week.week_number", true);
+  check("week.topic", false);
+  check("week.breakdown", false);
+  check("week.note", false);
+  check("book.title", false);
+  check("book.author", false);
+  check("book.isbn", false);
+
+  const subject = profile.subject || {};
+  if (subject.term_weeks === undefined && subject.terms === undefined) {
+    errors.push("subject needs term_weeks or terms");
+  }
+  if (subject.term_weeks !== undefined && (!Array.isArray(subject.term_weeks) || !subject.term_weeks.every(isFieldSource))) {
+    errors.push("subject.term_weeks must be a list of sources, one per term");
+  }
+  if (subject.terms !== undefined) {
+    check("subject.terms.path", true);
+    check("subject.terms.number", true);
+    check("subject.terms.weeks", true);
+  }
+
+  return errors;
+};
@@ -0,0 +1,290 @@
+import { batchItems } from "./batching";
+import {
+  commentText,
+  deleteStatement,
+  Dialect,
+  insertStatement,
+  keyCondition,
+  parameterize,
+  ParameterizedStatement,
+  SqlDialect,
+} from "./dialects";
+import { ConstantValue, TargetSchema } from "./sql";
+import { NormalizedLevel, Provenance } from "./types";
+
+// Provenance: where a level came from. Extraction output carries a run_id and
+// usage statistics next to the curriculum data; together with the source file
+// and the import time they can be stored with every subject, either as extra
+// columns of curriculum_data or as rows of the curriculum_imports audit table.
+
+// 'columns' adds the provenance columns to every curriculum_data row, 'table'
+// records each upserted subject in curriculum_imports
+export type ProvenanceStore = 'columns' | 'table';
+
+export interface ProvenanceOptions {
+  store?: ProvenanceStore;
+  // File the input was read from
+  sourceFile?: string;
+  // Defaults to the time of the conversion
+  importedAt?: string;
+}
+
+// Per-run totals for the conversion summary
+export interface RunSummary {
+  run_id: string | null;
+  source_file: string | null;
+  levels: string[];
+  subjects: number;
+  pages_extracted: number | null;
+  output_tokens: number | null;
+}
+
+export const IMPORTS_TABLE = "curriculum_imports";
+
+export const PROVENANCE_COLUMNS = ["run_id", "source_file", "imported_at", "pages_extracted", "output_tokens"];
+
+const INDENT = "    ";
+
+const numberOrNull = (value: unknown): number | null => {
+  if (typeof value === 'number' && isFinite(value)) return value;
+  if (typeof value === 'string' && /^\d+$/.test(value.trim())) return Number(value);
+  return null;
+};
+
+// Reads run_id and extraction_metadata.usage from an input item, before the
+// curriculum data is unwrapped from it
+export const readProvenance = (item: unknown, options: ProvenanceOptions = {}, importedAt?: string): Provenance => {
+  const source = typeof item === 'object' && item !== null ? item as Record<string, any> : {};
+  const metadata = source.extraction_metadata && typeof source.extraction_metadata === 'object'
+    ? source.extraction_metadata
+    : {};
+  const usage = metadata.usage && typeof metadata.usage === 'object' ? metadata.usage : {};
+  const runId = source.run_id !== undefined ? source.run_id : metadata.run_id;
+
+  return {
+    run_id: runId === undefined || runId === null || runId === "" ? null : String(runId),
+    source_file: options.sourceFile || null,
+    imported_at: options.importedAt || importedAt || new Date().toISOString(),
+    pages_extracted: numberOrNull(usage.num_pages_extracted !== undefined ? usage.num_pages_extracted : usage.pages_extracted),
+    output_tokens: numberOrNull(usage.num_output_tokens !== undefined ? usage.num_output_tokens : usage.output_tokens),
+  };
+};
+
+// "2026-03-01T09:30:00.000Z" as a UTC timestamp literal every dialect accepts
+export const timestampLiteral = (iso: string, dialect: Dialect): string => {
+  const text = iso.replace("T", " ").replace(/(\.\d+)?Z$/, "");
+  return dialect.text(dialect.id === 'postgresql' ? `${text}+00` : text);
+};
+
+const provenanceValues = (provenance: Provenance, dialect: Dialect): Record<string, ConstantValue> => ({
+  run_id: provenance.run_id,
+  source_file: provenance.source_file,
+  imported_at: { sql: timestampLiteral(provenance.imported_at, dialect), timestamp: true },
+  pages_extracted: provenance.pages_extracted,
+  output_tokens: provenance.output_tokens,
+});
+
+// The provenance columns as JSON values, for a PostgREST request body
+export const provenanceRow = (provenance: Provenance): Record<string, string | number | null> => ({
+  run_id: provenance.run_id,
+  source_file: provenance.source_file,
+  imported_at: provenance.imported_at,
+  pages_extracted: provenance.pages_extracted,
+  output_tokens: provenance.output_tokens,
+});
+
+// The target with the provenance columns added as constants of one level.
+// Without a level's provenance the values are placeholders of the right type,
+// for the schema DDL.
+export const withProvenanceColumns = (
+  target: TargetSchema | undefined,
+  dialect: Dialect,
+  provenance?: Provenance,
+): TargetSchema => {
+  const values: Record<string, ConstantValue> = provenance
+    ? provenanceValues(provenance, dialect)
+    : { run_id: "", source_file: "", imported_at: { sql: "NULL", timestamp: true }, pages_extracted: 0, output_tokens: 0 };
+  return {
+    ...target,
+    extraColumns: { ...(target && target.extraColumns), ...values },
+  };
+};
+
+// curriculum_imports in the target's schema, if it has one
+export const importsTable = (target?: TargetSchema): string => {
+  return target && target.schema ? `${target.schema}.${IMPORTS_TABLE}` : IMPORTS_TABLE;
+};
+
+const IMPORT_COLUMNS = [...PROVENANCE_COLUMNS, "educational_level", "subject_name"];
+
+// Values of the audit rows of a level, one per subject. Every row renders its
+// own values, as each placeholder binds a value of its own.
+const importRows = (level: NormalizedLevel, provenance: Provenance, dialect: Dialect): string[][] => {
+  return level.subjects.map((subject) => [
+    provenance.run_id === null ? "NULL" : dialect.text(provenance.run_id),
+    provenance.source_file === null ? "NULL" : dialect.text(provenance.source_file),
+    timestampLiteral(provenance.imported_at, dialect),
+    provenance.pages_extracted === null ? "NULL" : String(provenance.pages_extracted),
+    provenance.output_tokens === null ? "NULL" : String(provenance.output_tokens),
+    dialect.text(subject.educational_level),
+    dialect.text(subject.subject_name),
+  ]);
+};
+
+// One audit row per subject of the level, appended to its insert script.
+// The rows are only ever inserted, so every import stays on record.
+export const generateImportsSQL = (
+  level: NormalizedLevel,
+  dialect: Dialect,
+  table: string,
+  batchSize = 1,
+): string[] => {
+  const provenance = level.provenance;
+  if (!provenance || level.subjects.length === 0) return [];
+
+  return [
+    `-- Record the ${commentText(level.educational_level)} import${provenance.run_id ? ` (run ${commentText(provenance.run_id)})` : ""}`,
+    ...batchItems(importRows(level, provenance, dialect), batchSize).reduce<string[]>((lines, batch) => {
+      const statement = insertStatement({ table, columns: IMPORT_COLUMNS, rows: batch });
+      statement[statement.length - 1] += ";";
+      return [...lines, ...statement];
+    }, []),
+    "",
+  ];
+};
+
+// generateImportsSQL with placeholders instead of literals
+export const generateImportsStatements = (
+  level: NormalizedLevel,
+  dialect: Dialect,
+  table: string,
+  batchSize = 1,
+): ParameterizedStatement[] => {
+  const provenance = level.provenance;
+  if (!provenance || level.subjects.length === 0) return [];
+
+  return batchItems(level.subjects, batchSize).map((subjects) => parameterize(dialect, (parameters) => {
+    const statement = insertStatement({
+      table,
+      columns: IMPORT_COLUMNS,
+      rows: importRows({ ...level, subjects }, provenance, parameters),
+    });
+    statement[statement.length - 1] += ";";
+    return statement;
+  }));
+};
+
+// Removes the audit rows of this import again
+export const generateImportsRollbackSQL = (level: NormalizedLevel, dialect: Dialect, table: string): string[] => {
+  const provenance = level.provenance;
+  if (!provenance || level.subjects.length === 0) return [];
+
+  return [
+    `-- Remove the ${commentText(level.educational_level)} import records`,
+    deleteStatement(table, keyCondition(
+      ["educational_level", "imported_at"],
+      [dialect.text(level.educational_level), timestampLiteral(provenance.imported_at, dialect)],
+    )),
+    "",
+  ];
+};
+
+const IMPORTS_COLUMN_TYPES: Record<SqlDialect, { id: string, key: string, text: string, integer: string, timestamp: string }> = {
+  postgresql: { id: "BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY", key: "TEXT", text: "TEXT", integer: "INTEGER", timestamp: "TIMESTAMPTZ" },
+  mysql: { id: "BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY", key: "VARCHAR(255)", text: "TEXT", integer: "INT", timestamp: "TIMESTAMP" },
+  sqlite: { id: "INTEGER PRIMARY KEY AUTOINCREMENT", key: "TEXT", text: "TEXT", integer: "INTEGER", timestamp: "TEXT" },
+  sqlserver: { id: "BIGINT IDENTITY(1,1) PRIMARY KEY", key: "NVARCHAR(255)", text: "NVARCHAR(MAX)", integer: "INT", timestamp: "DATETIME2" },
+};
+
+// Idempotent DDL for curriculum_imports, indexed for lookups by subject and by run
+export const generateImportsSchemaSQL = (dialect: Dialect, table: string): string[] => {
+  const types = IMPORTS_COLUMN_TYPES[dialect.id];
+  const indexName = table.split(".").pop() as string;
+  const definitions = [
+    `id ${types.id}`,
+    `run_id ${types.key}`,
+    `source_file ${types.text}`,
+    `imported_at ${types.timestamp} NOT NULL`,
+    `pages_extracted ${types.integer}`,
+    `output_tokens ${types.integer}`,
+    `educational_level ${types.key} NOT NULL`,
+    `subject_name ${types.key} NOT NULL`,
+  ];
+  const body = definitions.map((definition, index) => `${INDENT}${definition}${index < definitions.length - 1 ? "," : ""}`);
+  const indexes: Array<[string, string]> = [
+    [`${indexName}_subject_idx`, "educational_level, subject_name"],
+    [`${indexName}_run_idx`, "run_id"],
+  ];
+
+  if (dialect.id === 'sqlserver') {
+    return [
+      "",
+      "-- Audit trail: one row per subject and import",
+      `IF OBJECT_ID(N'${table}', N'U') IS NULL`,
+      `CREATE TABLE ${table} (`,
+      ...body,
+      ");",
+      "GO",
+      ...indexes.map(([name, columns]) =>
+        `IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = N'${name}' AND object_id = OBJECT_ID(N'${table}'))\n` +
+        `CREATE INDEX ${name} ON ${table} (${columns});`
+      ),
+      "GO",
+    ];
+  }
+
+  if (dialect.id === 'mysql') {
+    return [
+      "",
+      "-- Audit trail: one row per subject and import",
+      `CREATE TABLE IF NOT EXISTS ${table} (`,
+      ...body.map((line, index) => (index === body.length - 1 ? `${line},` : line)),
+      ...indexes.map(([name, columns], index) => `${INDENT}KEY ${name} (${columns})${index < indexes.length - 1 ? "," : ""}`),
+      ") DEFAULT CHARSET = utf8mb4;",
+    ];
+  }
+
+  return [
+    "",
+    "-- Audit trail: one row per subject and import",
+    `CREATE TABLE IF NOT EXISTS ${table} (`,
+    ...body,
+    ");",
+    ...indexes.map(([name, columns]) => `CREATE INDEX IF NOT EXISTS ${name} ON ${table} (${columns});`),
+  ];
+};
+
+// Levels grouped by run (and source file), with the usage totals. Given the
+// runs summarized so far, adds the levels to them.
+export const summarizeRuns = (levels: NormalizedLevel[], previous: RunSummary[] = []): RunSummary[] => {
+  const runs = previous.map((run) => ({ ...run, levels: run.levels.slice() }));
+  const keys = runs.map((run) => JSON.stringify([run.run_id, run.source_file]));
+  const add = (total: number | null, value: number | null): number | null => {
+    return value === null ? total : (total || 0) + value;
+  };
+
+  levels.forEach((level) => {
+    const provenance = level.provenance;
+    if (!provenance) return;
+    const key = JSON.stringify([provenance.run_id, provenance.source_file]);
+    let run = runs[keys.indexOf(key)];
+    if (!run) {
+      run = {
+        run_id: provenance.run_id,
+        source_file: provenance.source_file,
+        levels: [],
+        subjects: 0,
+        pages_extracted: null,
+        output_tokens: null,
+      };
+      keys.push(key);
+      runs.push(run);
+    }
+    if (run.levels.indexOf(level.educational_level) === -1) run.levels.push(level.educational_level);
+    run.subjects += level.subjects.length;
+    run.pages_extracted = add(run.pages_extracted, provenance.pages_extracted);
+    run.output_tokens = add(run.output_tokens, provenance.output_tokens);
+  });
+
+  return runs;
+};
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { convertCurriculum } from "./convert";
+import { PushConfig, pushCurriculum } from "./push";
+import { NormalizedLevel } from "./types";
+
+const level = (name: string, subjects: string[]) => ({
+  educational_level: name,
+  alternative_names: [],
+  subjects: subjects.map((subject) => ({
+    subject_name: subject,
+    introduction: `${subject} in ${name}`,
+    term_1_weeks: [{ week_number: 1, topic: "Overview", breakdown: "What the term covers", note: null }],
+    term_2_weeks: [],
+    term_3_weeks: [],
+    recommended_books: [],
+  })),
+});
+
+const levels = (items: unknown[]): NormalizedLevel[] => {
+  const result = convertCurriculum(items, { provenance: { sourceFile: "p1.json", importedAt: "2024-01-01T00:00:00.000Z" } });
+  expect(result.errors).toEqual([]);
+  return result.levels;
+};
+
+interface Call {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: Array<Record<string, unknown>> | undefined;
+}
+
+// A PostgREST stand-in: subjects already stored per level, and the status to
+// answer writes with
+const standIn = (stored: Record<string, string[]>, writeStatus = 201) => {
+  const calls: Call[] = [];
+  const fetchStub = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = String(input);
+    const method = init.method || "GET";
+    calls.push({
+      method,
+      url,
+      headers: init.headers as Record<string, string>,
+      body: init.body ? JSON.parse(String(init.body)) : undefined,
+    });
+    if (method === "GET") {
+      const levelName = decodeURIComponent((/educational_level=eq\.([^&]*)/.exec(url) || [])[1] || "");
+      return new Response(JSON.stringify((stored[levelName] || []).map((subject_name) => ({ subject_name }))), { status: 200 });
+    }
+    if (writeStatus >= 400) {
+      return new Response(JSON.stringify({ message: "duplicate key value violates unique constraint" }), { status: writeStatus });
+    }
+    return new Response(null, { status: writeStatus });
+  };
+  const config: PushConfig = { url: "http://localhost:3000/", fetch: fetchStub as typeof fetch };
+  return { calls, config };
+};
+
+describe("pushCurriculum", () => {
+  const input = levels([level("Primary 1", ["Mathematics", "English"]), level("Primary 2", ["Science"])]);
+
+  it("tells inserts from updates in a dry run without writing", async () => {
+    const { calls, config } = standIn({ "Primary 1": ["English"] });
+    const result = await pushCurriculum(input, config, { dryRun: true });
+    expect(result).toEqual({
+      dryRun: true,
+      inserted: ["Primary 1 / Mathematics", "Primary 2 / Science"],
+      updated: ["Primary 1 / English"],
+      pushed: 0,
+      recorded: 0,
+      errors: [],
+    });
+    expect(calls.map((call) => call.method)).toEqual(["GET", "GET"]);
+    expect(calls[0].url).toBe("http://localhost:3000/curriculum_data?select=subject_name&educational_level=eq.Primary%201");
+  });
+
+  it("upserts on the conflict columns", async () => {
+    const { calls, config } = standIn({});
+    const result = await pushCurriculum(input, { ...config, apiKey: "key" });
+    expect(result.errors).toEqual([]);
+    expect(result.pushed).toBe(3);
+
+    const writes = calls.filter((call) => call.method === "POST");
+    expect(writes).toHaveLength(1);
+    expect(writes[0].url).toBe("http://localhost:3000/curriculum_data?on_conflict=educational_level,subject_name");
+    expect(writes[0].headers).toMatchObject({
+      Prefer: "resolution=merge-duplicates,return=minimal",
+      apikey: "key",
+      Authorization: "Bearer key",
+    });
+    expect(writes[0].body && writes[0].body.map((row) => row.subject_name)).toEqual(["Mathematics", "English", "Science"]);
+  });
+
+  it("starts a new batch where a subject repeats", async () => {
+    const { calls, config } = standIn({});
+    const repeated = levels([level("Primary 1", ["Mathematics", "English"]), level("Primary 1", ["Mathematics"])]);
+    const result = await pushCurriculum(repeated, config);
+    expect(result.pushed).toBe(3);
+    expect(result.inserted).toEqual(["Primary 1 / Mathematics", "Primary 1 / English"]);
+
+    const bodies = calls.filter((call) => call.method === "POST").map((call) => call.body && call.body.map((row) => row.subject_name));
+    expect(bodies).toEqual([["Mathematics", "English"], ["Mathematics"]]);
+  });
+
+  it("keeps to the batch size", async () => {
+    const { calls, config } = standIn({});
+    await pushCurriculum(input, { ...config, batchSize: 2 });
+    expect(calls.filter((call) => call.method === "POST").map((call) => call.body && call.body.length)).toEqual([2, 1]);
+  });
+
+  it("reports a failed request as an error", async () => {
+    const { calls, config } = standIn({}, 409);
+    const result = await pushCurriculum(input, { ...config, batchSize: 2 });
+    expect(result.pushed).toBe(0);
+    expect(result.errors).toEqual(["POST curriculum_data failed with 409: duplicate key value violates unique constraint"]);
+    // Nothing is sent after the first failure
+    expect(calls.filter((call) => call.method === "POST")).toHaveLength(1);
+  });
+
+  it("records each written subject in curriculum_imports", async () => {
+    const { calls, config } = standIn({});
+    const result = await pushCurriculum(input, { ...config, provenance: 'table' });
+    expect(result.recorded).toBe(3);
+
+    const imports = calls.filter((call) => call.url === "http://localhost:3000/curriculum_imports");
+    expect(imports).toHaveLength(1);
+    expect(imports[0].headers).toMatchObject({ Prefer: "return=minimal" });
+    expect(imports[0].body && imports[0].body[0]).toEqual({
+      run_id: null,
+      source_file: "p1.json",
+      imported_at: "2024-01-01T00:00:00.000Z",
+      pages_extracted: null,
+      output_tokens: null,
+      educational_level: "Primary 1",
+      subject_name: "Mathematics",
+    });
+    // The rows themselves carry no provenance
+    const rows = calls.filter((call) => call.url.indexOf("curriculum_data?on_conflict") !== -1);
+    expect(rows[0].body && rows[0].body[0]).not.toHaveProperty("source_file");
+  });
+
+  it("does not record imports when the upsert fails", async () => {
+    const { calls, config } = standIn({}, 500);
+    const result = await pushCurriculum(input, { ...config, provenance: 'table' });
+    expect(result.errors).toHaveLength(1);
+    expect(result.recorded).toBe(0);
+    expect(calls.filter((call) => call.url.indexOf("curriculum_imports") !== -1)).toEqual([]);
+  });
+});
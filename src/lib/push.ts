@@ -0,0 +1,228 @@
+import { batchItems } from "./batching";
+import { IMPORTS_TABLE, provenanceRow, ProvenanceStore } from "./provenance";
+import { resolveTarget, ResolvedTarget, sanitizeString, targetColumn, TargetSchema, validateTarget } from "./sql";
+import { NormalizedLevel, Provenance, SubjectRecord } from "./types";
+
+// Push mode: instead of producing SQL to paste into an editor, send the
+// converted rows straight to a Supabase / PostgREST endpoint as upserts on
+// (educational_level, subject_name). Only the curriculum_data layout is supported.
+
+export interface PushConfig {
+  // REST base URL: https://<project>.supabase.co/rest/v1 for Supabase, or the
+  // root of a PostgREST server such as http://localhost:3000
+  url: string;
+  // Supabase API key, sent as `apikey` and bearer token. Leave empty for a
+  // PostgREST server without authentication.
+  apiKey?: string;
+  // Defaults to curriculum_data, or the table of `target`
+  table?: string;
+  // Column names, conflict columns and extra constant columns of the table.
+  // A schema qualifier is sent as the PostgREST Content-Profile.
+  target?: TargetSchema;
+  // Also send each level's provenance: as extra columns of the rows, or as
+  // rows of curriculum_imports once the upserts succeeded
+  provenance?: ProvenanceStore;
+  // Rows per upsert request, defaults to 50
+  batchSize?: number;
+  // Alternative fetch implementation, e.g. for a local stand-in
+  fetch?: typeof fetch;
+}
+
+export interface PushOptions {
+  // Only look up which rows exist; nothing is written
+  dryRun?: boolean;
+}
+
+export interface PushResult {
+  dryRun: boolean;
+  // "Level / Subject" labels of rows that did not exist yet
+  inserted: string[];
+  // "Level / Subject" labels of rows that already existed
+  updated: string[];
+  // Rows actually written, 0 for a dry run
+  pushed: number;
+  // curriculum_imports rows written
+  recorded: number;
+  errors: string[];
+}
+
+const DEFAULT_PUSH_BATCH_SIZE = 50;
+
+const rowLabel = (subject: SubjectRecord): string => `${subject.educational_level} / ${subject.subject_name}`;
+
+interface PushRow {
+  subject: SubjectRecord;
+  provenance?: Provenance;
+}
+
+// The request body row: JSON columns are sent as JSON, not as SQL literals
+const toRow = (subject: SubjectRecord, target: ResolvedTarget): Record<string, unknown> => {
+  const row: Record<string, unknown> = {};
+  target.columns.forEach((column) => {
+    const values = column.fields.map((field) => (
+      field === 'introduction' ? sanitizeString(subject.introduction) : subject[field]
+    ));
+    if (column.fields.length === 1) {
+      row[column.name] = values[0];
+    } else {
+      const combined: Record<string, unknown> = {};
+      column.fields.forEach((field, index) => {
+        combined[field] = values[index];
+      });
+      row[column.name] = combined;
+    }
+  });
+  target.extraColumns.forEach(({ name, value }) => {
+    row[name] = value;
+  });
+  return row;
+};
+
+// PostgREST errors are JSON with a `message`; anything else is shown as is
+const describeError = (body: string): string => {
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed.message === 'string') return parsed.message;
+  } catch (error) {
+    // Not JSON, fall through
+  }
+  return body.trim() || "No response body";
+};
+
+const request = async (config: PushConfig, path: string, init: RequestInit = {}): Promise<Response> => {
+  const fetchImpl = config.fetch || fetch;
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.target && config.target.schema) {
+    headers["Accept-Profile"] = config.target.schema;
+    headers["Content-Profile"] = config.target.schema;
+  }
+  if (config.apiKey) {
+    headers.apikey = config.apiKey;
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+
+  const response = await fetchImpl(`${config.url.replace(/\/+$/, "")}/${path}`, {
+    ...init,
+    headers: { ...headers, ...(init.headers as Record<string, string>) },
+  });
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`${init.method || "GET"} ${path.split("?")[0]} failed with ${response.status}: ${describeError(body)}`);
+  }
+  return response;
+};
+
+// Subject names already stored for a level, within the constant conflict
+// columns (a tenant, say) when the target has any
+const fetchExistingSubjects = async (
+  config: PushConfig,
+  table: string,
+  target: ResolvedTarget,
+  educationalLevel: string,
+): Promise<string[]> => {
+  const levelColumn = targetColumn(target, 'educational_level').name;
+  const subjectColumn = targetColumn(target, 'subject_name').name;
+  const scope = target.extraColumns
+    .filter((column) => target.conflictColumns.indexOf(column.name) !== -1)
+    .map(({ name, value }) => `&${name}=${value === null ? "is.null" : `eq.${encodeURIComponent(String(value))}`}`);
+  const response = await request(
+    config,
+    `${table}?select=${subjectColumn}&${levelColumn}=eq.${encodeURIComponent(educationalLevel)}${scope.join("")}`,
+  );
+  const rows = await response.json() as Array<Record<string, string>>;
+  return rows.map((row) => row[subjectColumn]);
+};
+
+export const pushCurriculum = async (
+  levels: NormalizedLevel[],
+  config: PushConfig,
+  options: PushOptions = {},
+): Promise<PushResult> => {
+  const result: PushResult = {
+    dryRun: Boolean(options.dryRun),
+    inserted: [],
+    updated: [],
+    pushed: 0,
+    recorded: 0,
+    errors: [],
+  };
+
+  // The levels of one conversion share their terms
+  const terms = levels.length > 0 ? levels[0].terms : undefined;
+  const targetErrors = validateTarget(config.target, terms);
+  const target = resolveTarget(config.target, terms);
+  target.extraColumns
+    .filter(({ value }) => value !== null && typeof value === 'object')
+    .forEach(({ name }) => targetErrors.push(`Extra column '${name}' is an SQL expression, which cannot be pushed`));
+  if (targetErrors.length > 0) {
+    result.errors.push(...targetErrors);
+    return result;
+  }
+  const table = config.table || target.tableName;
+
+  const rows: PushRow[] = [];
+  try {
+    for (let i = 0; i < levels.length; i++) {
+      const existing = await fetchExistingSubjects(config, table, target, levels[i].educational_level);
+      levels[i].subjects.forEach((subject) => {
+        const label = rowLabel(subject);
+        const known = result.inserted.indexOf(label) !== -1 || result.updated.indexOf(label) !== -1;
+        if (!known) {
+          (existing.indexOf(subject.subject_name) !== -1 ? result.updated : result.inserted).push(label);
+        }
+        rows.push({ subject, provenance: levels[i].provenance });
+      });
+    }
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : "Unknown error");
+    return result;
+  }
+
+  if (options.dryRun) return result;
+
+  // A repeated subject starts a new batch: PostgREST rejects an upsert that
+  // touches the same row twice
+  const batches = batchItems(rows, config.batchSize || DEFAULT_PUSH_BATCH_SIZE, (row) => rowLabel(row.subject));
+  for (let i = 0; i < batches.length; i++) {
+    try {
+      await request(config, `${table}?on_conflict=${target.conflictColumns.join(",")}`, {
+        method: "POST",
+        headers: { Prefer: "resolution=merge-duplicates,return=minimal" },
+        body: JSON.stringify(batches[i].map(({ subject, provenance }) => (
+          config.provenance === 'columns' && provenance
+            ? { ...toRow(subject, target), ...provenanceRow(provenance) }
+            : toRow(subject, target)
+        ))),
+      });
+      result.pushed += batches[i].length;
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : "Unknown error");
+      return result;
+    }
+  }
+
+  // Audit rows are plain inserts, sent only for subjects that were written
+  if (config.provenance === 'table') {
+    const records = rows.filter((row) => row.provenance).map(({ subject, provenance }) => ({
+      ...provenanceRow(provenance as Provenance),
+      educational_level: subject.educational_level,
+      subject_name: subject.subject_name,
+    }));
+    const recordBatches = batchItems(records, config.batchSize || DEFAULT_PUSH_BATCH_SIZE);
+    for (let i = 0; i < recordBatches.length; i++) {
+      try {
+        await request(config, IMPORTS_TABLE, {
+          method: "POST",
+          headers: { Prefer: "return=minimal" },
+          body: JSON.stringify(recordBatches[i]),
+        });
+        result.recorded += recordBatches[i].length;
+      } catch (error) {
+        result.errors.push(error instanceof Error ? error.message : "Unknown error");
+        break;
+      }
+    }
+  }
+
+  return result;
+};
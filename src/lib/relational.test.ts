@@ -0,0 +1,67 @@
+import initSqlJs, { SqlJsStatic } from "sql.js";
+import { beforeAll, describe, expect, it } from "vitest";
+import { convertCurriculum, ConvertOptions } from "./convert";
+
+const week = (number: number, topic: string) => ({ week_number: number, topic, breakdown: "Overview of the week", note: null });
+
+// Converts cleanly in the JSON-column layout
+const level = {
+  educational_level: "Primary 1",
+  alternative_names: ["Basic 1", "Basic 1", "basic-1", "Primary 1", "Pry 1"],
+  subjects: [{
+    subject_name: "Mathematics",
+    introduction: "Numbers",
+    term_1_weeks: [week(1, "Counting"), week(2, "Adding"), week(2, "Taking away")],
+    term_2_weeks: [],
+    term_3_weeks: [],
+    recommended_books: [],
+  }],
+};
+
+describe("relational scripts run against SQLite", () => {
+  let SQL: SqlJsStatic;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+  });
+
+  const run = (options: ConvertOptions, query: string): unknown[][] => {
+    const result = convertCurriculum([level], { dialect: 'sqlite', includeSchema: true, ...options });
+    expect(result.errors).toEqual([]);
+    const db = new SQL.Database();
+    try {
+      db.exec(`${result.schema}\n${result.sql}`);
+      const results = db.exec(query);
+      return results.length > 0 ? results[0].values : [];
+    } finally {
+      db.close();
+    }
+  };
+
+  it("runs the JSON-column script of the input", () => {
+    expect(run({}, "SELECT count(*) FROM curriculum_data")).toEqual([[1]]);
+  });
+
+  it("does not write a level with a repeated week number", () => {
+    const result = convertCurriculum([level], { dialect: 'sqlite', outputMode: 'relational' });
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toContain("Week 2 appears more than once");
+    expect(result.sql).not.toContain("INSERT INTO weeks");
+  });
+
+  it("does not write a level with a repeated week number when linting is off", () => {
+    const result = convertCurriculum([level], { dialect: 'sqlite', outputMode: 'relational', lint: false });
+    expect(result.errors).toHaveLength(1);
+    expect(result.sql).not.toContain("INSERT INTO weeks");
+  });
+
+  it("writes renumbered weeks and each alias once", () => {
+    const options: ConvertOptions = { outputMode: 'relational', lint: { fixOrder: 'renumber' } };
+    expect(run(options, "SELECT week_number, topic FROM weeks ORDER BY week_number")).toEqual([
+      [1, "Counting"],
+      [2, "Adding"],
+      [3, "Taking away"],
+    ]);
+    expect(run(options, "SELECT alias FROM level_aliases ORDER BY alias")).toEqual([["Basic 1"], ["Pry 1"]]);
+  });
+});
@@ -0,0 +1,386 @@
+import { mergeNames } from "./aliases";
+import { batchItems } from "./batching";
+import {
+  commentText,
+  Dialect,
+  getDialect,
+  insertStatement,
+  InsertStatement,
+  SqlDialect,
+  StringLiteralStyle,
+} from "./dialects";
+import { sanitizeString, UPDATED_AT_COLUMN } from "./sql";
+import { DEFAULT_TERMS } from "./terms";
+import { NormalizedLevel, SubjectRecord, TermLayout } from "./types";
+import { childContext, IssueContext, reportIssue } from "./validation";
+import { generateExpectedCountsSQL } from "./verification";
+
+// Normalized output: instead of one curriculum_data row with jsonb columns per
+// subject, the same parsed data is written to educational_levels, level_aliases,
+// subjects, terms, weeks and books. Every table is keyed by natural keys
+// (level name, subject name, term number, week number, book position) so the
+// script needs no generated ids and can be re-run safely.
+
+export const RELATIONAL_TABLES = {
+  levels: "educational_levels",
+  aliases: "level_aliases",
+  subjects: "subjects",
+  terms: "terms",
+  weeks: "weeks",
+  books: "books",
+} as const;
+
+type RelationalColumnType = 'key' | 'text' | 'integer' | 'boolean' | 'timestamp';
+
+interface TableDefinition {
+  name: string;
+  columns: Array<{ name: string; type: RelationalColumnType; nullable?: boolean }>;
+  primaryKey: string[];
+  foreignKey?: { columns: string[]; references: string };
+  timestamps?: boolean;
+}
+
+const LEVEL_KEY = ["educational_level"];
+const SUBJECT_KEY = [...LEVEL_KEY, "subject_name"];
+const TERM_KEY = [...SUBJECT_KEY, "term_number"];
+
+const TABLE_DEFINITIONS: TableDefinition[] = [
+  {
+    name: RELATIONAL_TABLES.levels,
+    columns: [{ name: "educational_level", type: 'key' }],
+    primaryKey: LEVEL_KEY,
+    timestamps: true,
+  },
+  {
+    name: RELATIONAL_TABLES.aliases,
+    columns: [
+      { name: "educational_level", type: 'key' },
+      { name: "alias", type: 'key' },
+    ],
+    primaryKey: [...LEVEL_KEY, "alias"],
+    foreignKey: { columns: LEVEL_KEY, references: RELATIONAL_TABLES.levels },
+  },
+  {
+    name: RELATIONAL_TABLES.subjects,
+    columns: [
+      { name: "educational_level", type: 'key' },
+      { name: "subject_name", type: 'key' },
+      { name: "introduction", type: 'text' },
+    ],
+    primaryKey: SUBJECT_KEY,
+    foreignKey: { columns: LEVEL_KEY, references: RELATIONAL_TABLES.levels },
+    timestamps: true,
+  },
+  {
+    name: RELATIONAL_TABLES.terms,
+    columns: [
+      { name: "educational_level", type: 'key' },
+      { name: "subject_name", type: 'key' },
+      { name: "term_number", type: 'integer' },
+      { name: "term_name", type: 'key' },
+    ],
+    primaryKey: TERM_KEY,
+    foreignKey: { columns: SUBJECT_KEY, references: RELATIONAL_TABLES.subjects },
+  },
+  {
+    name: RELATIONAL_TABLES.weeks,
+    columns: [
+      { name: "educational_level", type: 'key' },
+      { name: "subject_name", type: 'key' },
+      { name: "term_number", type: 'integer' },
+      { name: "week_number", type: 'integer' },
+      { name: "topic", type: 'text', nullable: true },
+      { name: "breakdown", type: 'text', nullable: true },
+      { name: "note", type: 'text', nullable: true },
+    ],
+    primaryKey: [...TERM_KEY, "week_number"],
+    foreignKey: { columns: TERM_KEY, references: RELATIONAL_TABLES.terms },
+  },
+  {
+    name: RELATIONAL_TABLES.books,
+    columns: [
+      { name: "educational_level", type: 'key' },
+      { name: "subject_name", type: 'key' },
+      { name: "position", type: 'integer' },
+      { name: "title", type: 'text' },
+      { name: "author", type: 'text' },
+      { name: "isbn", type: 'key' },
+      { name: "isbn_valid", type: 'boolean' },
+    ],
+    primaryKey: [...SUBJECT_KEY, "position"],
+    foreignKey: { columns: SUBJECT_KEY, references: RELATIONAL_TABLES.subjects },
+  },
+];
+
+// SQL Server limits clustered index keys to 900 bytes, so its key columns are
+// kept short enough for the composite primary keys above.
+const COLUMN_TYPES: Record<SqlDialect, Record<RelationalColumnType, string>> = {
+  postgresql: { key: "TEXT", text: "TEXT", integer: "INTEGER", boolean: "BOOLEAN", timestamp: "TIMESTAMPTZ" },
+  mysql: { key: "VARCHAR(255)", text: "TEXT", integer: "INT", boolean: "BOOLEAN", timestamp: "TIMESTAMP" },
+  sqlite: { key: "TEXT", text: "TEXT", integer: "INTEGER", boolean: "INTEGER", timestamp: "TEXT" },
+  sqlserver: { key: "NVARCHAR(200)", text: "NVARCHAR(MAX)", integer: "INT", boolean: "BIT", timestamp: "DATETIME2" },
+};
+
+const INDENT = "    ";
+
+const createTable = (table: TableDefinition, dialect: Dialect): string[] => {
+  const types = COLUMN_TYPES[dialect.id];
+  const definitions = table.columns.map((column) =>
+    `${column.name} ${types[column.type]}${column.nullable ? "" : " NOT NULL"}`
+  );
+
+  if (table.timestamps) {
+    definitions.push(
+      `created_at ${types.timestamp} NOT NULL DEFAULT ${dialect.now}`,
+      `${UPDATED_AT_COLUMN} ${types.timestamp} NOT NULL DEFAULT ${dialect.now}`,
+    );
+  }
+
+  definitions.push(`PRIMARY KEY (${table.primaryKey.join(", ")})`);
+
+  if (table.foreignKey) {
+    const { columns, references } = table.foreignKey;
+    definitions.push(
+      `FOREIGN KEY (${columns.join(", ")}) REFERENCES ${references} (${columns.join(", ")}) ON DELETE CASCADE`
+    );
+  }
+
+  const body = [
+    ...definitions.map((definition, index) => `${INDENT}${definition}${index < definitions.length - 1 ? "," : ""}`),
+    ");",
+  ];
+
+  if (dialect.id === 'sqlserver') {
+    return [`IF OBJECT_ID(N'${table.name}', N'U') IS NULL`, `CREATE TABLE ${table.name} (`, ...body, "GO", ""];
+  }
+
+  return [`CREATE TABLE IF NOT EXISTS ${table.name} (`, ...body, ""];
+};
+
+export const generateRelationalSchemaSQL = (dialectId?: SqlDialect): string[] => {
+  const dialect = getDialect(dialectId);
+
+  return [
+    "-- =====================================================",
+    `-- NORMALIZED CURRICULUM SCHEMA (${dialect.label})`,
+    "-- =====================================================",
+    "-- Safe to run repeatedly: tables are only created where missing",
+    "-- =====================================================",
+    "",
+    ...(dialect.id === 'sqlite' ? ["PRAGMA foreign_keys = ON;", ""] : []),
+    ...TABLE_DEFINITIONS.reduce<string[]>((lines, table) => [...lines, ...createTable(table, dialect)], []),
+  ];
+};
+
+const nullableText = (dialect: Dialect, value: string | null): string => {
+  return value === null ? "NULL" : dialect.text(value);
+};
+
+const insert = (statement: InsertStatement): string[] => {
+  const lines = insertStatement(statement);
+  lines[lines.length - 1] += ";";
+  return lines;
+};
+
+// One INSERT per batch of at most `batchSize` rows
+const insertRows = (statement: InsertStatement, batchSize: number): string[] => {
+  return batchItems(statement.rows, batchSize).reduce<string[]>((lines, rows) => [
+    ...lines,
+    ...insert({ ...statement, rows }),
+  ], []);
+};
+
+const whereSubject = (dialect: Dialect, subject: SubjectRecord): string => {
+  return `WHERE educational_level = ${dialect.text(subject.educational_level)} AND subject_name = ${dialect.text(subject.subject_name)};`;
+};
+
+// Deletes a subject's terms, weeks and books and inserts them again from `subject`
+export const replaceSubjectContentSQL = (
+  subject: SubjectRecord,
+  dialect: Dialect,
+  batchSize = 1,
+  terms: TermLayout = DEFAULT_TERMS,
+): string[] => {
+  const level = dialect.text(subject.educational_level);
+  const name = dialect.text(subject.subject_name);
+  const lines: string[] = [
+    `DELETE FROM ${RELATIONAL_TABLES.weeks} ${whereSubject(dialect, subject)}`,
+    `DELETE FROM ${RELATIONAL_TABLES.terms} ${whereSubject(dialect, subject)}`,
+    `DELETE FROM ${RELATIONAL_TABLES.books} ${whereSubject(dialect, subject)}`,
+  ];
+
+  terms.keys.forEach((termKey, index) => {
+    const termNumber = String(index + 1);
+
+    lines.push(...insert({
+      table: RELATIONAL_TABLES.terms,
+      columns: TERM_KEY.concat("term_name"),
+      rows: [[level, name, termNumber, dialect.text(terms.names[index])]],
+    }));
+
+    lines.push(...insertRows({
+      table: RELATIONAL_TABLES.weeks,
+      columns: [...TERM_KEY, "week_number", "topic", "breakdown", "note"],
+      rows: (subject[termKey] || []).map((week) => [
+        level,
+        name,
+        termNumber,
+        String(week.week_number),
+        nullableText(dialect, week.topic),
+        nullableText(dialect, week.breakdown),
+        nullableText(dialect, week.note),
+      ]),
+    }, batchSize));
+  });
+
+  lines.push(...insertRows({
+    table: RELATIONAL_TABLES.books,
+    columns: [...SUBJECT_KEY, "position", "title", "author", "isbn", "isbn_valid"],
+    rows: subject.recommended_books.map((book, index) => [
+      level,
+      name,
+      String(index + 1),
+      dialect.text(book.title),
+      dialect.text(book.author),
+      dialect.text(book.isbn),
+      dialect.boolean(book.isbn_valid),
+    ]),
+  }, batchSize));
+
+  return lines;
+};
+
+// The weeks table has one row per week number of a term, so a repeated number
+// would stop the script at its primary key, halfway through the level
+export const checkRelationalLevel = (level: NormalizedLevel, context: IssueContext) => {
+  const subjects = childContext(context, "subjects");
+  level.subjects.forEach((subject, index) => {
+    level.terms.keys.forEach((termKey) => {
+      const numbers = (subject[termKey] || []).map((week) => week.week_number);
+      const repeated = numbers.filter((number, position) => numbers.indexOf(number) !== position);
+      const unique = repeated.filter((number, position) => repeated.indexOf(number) === position);
+      if (unique.length === 0) return;
+      reportIssue(
+        childContext(childContext(subjects, index), termKey),
+        'error',
+        'fatal',
+        `Week ${unique.join(", ")} appears more than once; the weeks table holds one row per week number. Renumber the weeks (--fix-weeks renumber) or use the JSON-column layout`,
+      );
+    });
+  });
+};
+
+// Names the alias registry would take for the same one are written once, and
+// the level's own name not at all
+export const replaceLevelAliasesSQL = (
+  educationalLevel: string,
+  aliases: string[],
+  dialect: Dialect,
+  batchSize = 1,
+): string[] => {
+  const level = dialect.text(educationalLevel);
+  return [
+    `DELETE FROM ${RELATIONAL_TABLES.aliases} WHERE educational_level = ${level};`,
+    ...insertRows({
+      table: RELATIONAL_TABLES.aliases,
+      columns: [...LEVEL_KEY, "alias"],
+      rows: mergeNames(aliases, educationalLevel).map((alias) => [level, dialect.text(alias)]),
+    }, batchSize),
+  ];
+};
+
+const generateRelationalSubjectSQL = (
+  subject: SubjectRecord,
+  terms: TermLayout,
+  dialect: Dialect,
+  batchSize: number,
+): string[] => [
+  `-- ${commentText(subject.educational_level)} ${commentText(subject.subject_name)}`,
+  ...dialect.upsert({
+    table: RELATIONAL_TABLES.subjects,
+    columns: SUBJECT_KEY.concat("introduction"),
+    rows: [[
+      dialect.text(subject.educational_level),
+      dialect.text(subject.subject_name),
+      dialect.text(sanitizeString(subject.introduction)),
+    ]],
+    conflictColumns: SUBJECT_KEY,
+    updateColumns: ["introduction"],
+    touchColumn: UPDATED_AT_COLUMN,
+  }),
+  "",
+  "-- Replace the subject's terms, weeks and books",
+  ...replaceSubjectContentSQL(subject, dialect, batchSize, terms),
+  "",
+];
+
+// `batchSize` is the number of week, book or alias rows per INSERT
+export const generateRelationalLevelSQL = (
+  level: NormalizedLevel,
+  dialectId?: SqlDialect,
+  batchSize = 1,
+  literals?: StringLiteralStyle,
+): { sql: string[], verification: string[] } => {
+  const dialect = getDialect(dialectId, literals);
+  const educationalLevel = dialect.text(level.educational_level);
+
+  const sqlStatements: string[] = [
+    "-- =====================================================",
+    `-- ${commentText(level.educational_level).toUpperCase()} CURRICULUM DATA - NORMALIZED INSERT STATEMENTS`,
+    "-- =====================================================",
+    `-- Copy and paste this entire script into ${dialect.target}`,
+    `-- and ${dialect.runAction} to insert the ${commentText(level.educational_level)} curriculum data`,
+    "-- =====================================================",
+    "",
+    ...dialect.upsert({
+      table: RELATIONAL_TABLES.levels,
+      columns: LEVEL_KEY,
+      rows: [[educationalLevel]],
+      conflictColumns: LEVEL_KEY,
+      updateColumns: [],
+      touchColumn: UPDATED_AT_COLUMN,
+    }),
+    "",
+    ...replaceLevelAliasesSQL(level.educational_level, level.alternative_names, dialect, batchSize),
+    "",
+  ];
+
+  level.subjects.forEach((subject) => {
+    sqlStatements.push(...generateRelationalSubjectSQL(subject, level.terms, dialect, batchSize));
+  });
+
+  const matchesSubject = (alias: string) =>
+    `${alias}.educational_level = s.educational_level AND ${alias}.subject_name = s.subject_name`;
+  const matchesExpected = (alias: string) =>
+    `${alias}.educational_level = e.educational_level AND ${alias}.subject_name = e.subject_name`;
+
+  const verificationStatements = [
+    "-- =====================================================",
+    "-- VERIFICATION QUERY",
+    "-- =====================================================",
+    "-- Run this to confirm the data was inserted correctly",
+    "",
+    "-- Check for your specific educational level",
+    "SELECT",
+    "    s.educational_level,",
+    "    s.subject_name,",
+    `    ${dialect.textLength("s.introduction")} as intro_length,`,
+    ...level.terms.keys.map((_, index) =>
+      `    (SELECT COUNT(*) FROM ${RELATIONAL_TABLES.weeks} w WHERE ${matchesSubject("w")} AND w.term_number = ${index + 1}) as term${index + 1}_weeks_count,`
+    ),
+    `    (SELECT COUNT(*) FROM ${RELATIONAL_TABLES.books} b WHERE ${matchesSubject("b")}) as books_count,`,
+    "    s.created_at,",
+    `    s.${UPDATED_AT_COLUMN}`,
+    `FROM ${RELATIONAL_TABLES.subjects} s`,
+    `WHERE s.educational_level = ${educationalLevel}`,
+    "ORDER BY s.subject_name;",
+    ...generateExpectedCountsSQL(level, dialect, {
+      table: RELATIONAL_TABLES.subjects,
+      termWeeks: (termNumber) =>
+        `(SELECT COUNT(*) FROM ${RELATIONAL_TABLES.weeks} w WHERE ${matchesExpected("w")} AND w.term_number = ${termNumber})`,
+      books: `(SELECT COUNT(*) FROM ${RELATIONAL_TABLES.books} b WHERE ${matchesExpected("b")})`,
+    }),
+  ];
+
+  return { sql: sqlStatements, verification: verificationStatements };
+};
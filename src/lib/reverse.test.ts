@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { convertCurriculum } from "./convert";
+import { reverseCurriculum } from "./reverse";
+
+const week = (topic: string) => ({ week_number: 1, topic, breakdown: "Overview", note: null });
+
+const level = {
+  educational_level: "Primary 1",
+  alternative_names: [],
+  subjects: [{
+    subject_name: "Mathematics",
+    introduction: "Numbers",
+    term_1_weeks: [week("Counting")],
+    term_2_weeks: [],
+    term_3_weeks: [],
+    term_4_weeks: [week("Fractions")],
+    recommended_books: [],
+  }],
+};
+
+describe("reading back scripts with more than three terms", () => {
+  const script = convertCurriculum([level], { terms: { count: 4 } }).sql;
+
+  it("keeps every term column without a number of terms", () => {
+    const reversed = reverseCurriculum(script);
+    expect(reversed.errors).toEqual([]);
+    expect(reversed.levels[0].subjects[0].term_4_weeks).toEqual([week("Fractions")]);
+    expect(convertCurriculum(JSON.parse(reversed.json), { terms: { count: 4 } }).sql).toBe(script);
+  });
+
+  it("reports the columns beyond a set number of terms", () => {
+    const reversed = reverseCurriculum(script, { terms: { count: 3 } });
+    expect(reversed.levels[0].subjects[0].term_4_weeks).toBeUndefined();
+    expect(reversed.issues.map((issue) => [issue.resolution, issue.message])).toEqual([
+      ['dropped', "term_4_weeks is beyond the 3 configured terms; its weeks are left out"],
+    ]);
+  });
+});
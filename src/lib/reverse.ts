@@ -0,0 +1,536 @@
+import { DIALECTS, getDialect, SqlDialect } from "./dialects";
+import { normalizeIsbn } from "./isbn";
+import { parseSnapshot } from "./rollback";
+import { parseCsv } from "./spreadsheet";
+import { resolveTarget, TargetSchema } from "./sql";
+import { detectSubjectTerms, MAX_TERMS, resolveTerms, termNumber, TermOptions } from "./terms";
+import { BookData, EducationalLevelData, SubjectData, SubjectRecord, TERM_KEYS, TermLayout, WeekData } from "./types";
+import { childContext, IssueContext, isFatal, reportIssue, ValidationIssue } from "./validation";
+
+// Reverse conversion: turns stored curriculum_data rows back into curriculum
+// JSON that can be edited and converted again. The rows may come from a JSON
+// export (or query result), a CSV export, or an insert script written by this
+// tool in any dialect. Converting the resulting JSON with the same options
+// reproduces the original script.
+
+export type ReverseFormat = 'json' | 'csv' | 'sql';
+
+export interface ReverseOptions {
+  // Detected from the input when omitted
+  format?: ReverseFormat;
+  // Dialect of an insert script, detected from the statements when omitted
+  dialect?: SqlDialect;
+  // Table and column names the rows were stored with
+  target?: TargetSchema;
+  // Terms the rows have week columns for. Without a count every
+  // term_<n>_weeks column found is read, and at least three terms.
+  terms?: TermOptions;
+}
+
+export interface ReverseResult {
+  format: ReverseFormat | null;
+  levels: EducationalLevelData[];
+  // `levels` as canonical, pretty-printed JSON
+  json: string;
+  issues: ValidationIssue[];
+  errors: string[];
+}
+
+export const detectReverseFormat = (input: string): ReverseFormat => {
+  const trimmed = input.trim();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) return 'json';
+  if (/^(--|BEGIN\b|START\s+TRANSACTION\b)/i.test(trimmed) || /\b(INSERT|MERGE)\s+INTO\b/i.test(trimmed)) return 'sql';
+  return 'csv';
+};
+
+// Recognizes the upsert form each dialect writes
+export const detectScriptDialect = (script: string): SqlDialect => {
+  if (/\bMERGE\s+INTO\b/i.test(script)) return 'sqlserver';
+  if (/\bON\s+DUPLICATE\s+KEY\s+UPDATE\b/i.test(script)) return 'mysql';
+  if (/::jsonb\b/i.test(script) || /\bEXCLUDED\./.test(script)) return 'postgresql';
+  if (/\bexcluded\./.test(script)) return 'sqlite';
+  return 'postgresql';
+};
+
+const readCsvRows = (input: string, context: IssueContext): Record<string, unknown>[] => {
+  const parsed = parseCsv(input);
+  if (!parsed) {
+    reportIssue(context, 'error', 'fatal', "CSV has a quoted field that is never closed");
+    return [];
+  }
+  const records = parsed.filter((fields) => fields.length > 1 || fields[0] !== "");
+  if (records.length === 0) {
+    reportIssue(context, 'error', 'fatal', "CSV has no header row");
+    return [];
+  }
+
+  const header = records[0].map((name) => name.trim());
+  return records.slice(1).map((fields, index) => {
+    if (fields.length !== header.length) {
+      reportIssue(childContext(context, index), 'warning', 'reported', `Row has ${fields.length} field(s), header has ${header.length}`);
+    }
+    // Empty cells are NULL in database exports
+    const row: Record<string, unknown> = {};
+    header.forEach((name, column) => {
+      row[name] = fields[column] === undefined || fields[column] === "" ? null : fields[column];
+    });
+    return row;
+  });
+};
+
+interface Token {
+  type: 'word' | 'string' | 'symbol' | 'level';
+  value: string;
+}
+
+const LEVEL_HEADER = /^-- .* CURRICULUM DATA - SQL INSERT STATEMENTS$/;
+
+const MYSQL_ESCAPES: Record<string, string> = { "0": "\0", "b": "\b", "n": "\n", "r": "\r", "t": "\t", "Z": "\x1a" };
+const POSTGRES_ESCAPES: Record<string, string> = { "b": "\b", "f": "\f", "n": "\n", "r": "\r", "t": "\t" };
+
+// $$ or $tag$ opening a PostgreSQL dollar-quoted string
+const DOLLAR_DELIMITER = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/;
+
+// The character a backslash escape at `script[i]` stands for, and its length
+const readEscape = (script: string, i: number, dialect: SqlDialect): { value: string, length: number } => {
+  const next = script[i + 1];
+  if (dialect === 'mysql') {
+    return { value: MYSQL_ESCAPES[next] !== undefined ? MYSQL_ESCAPES[next] : next, length: 2 };
+  }
+  if (POSTGRES_ESCAPES[next] !== undefined) return { value: POSTGRES_ESCAPES[next], length: 2 };
+  const hex = next === "x" ? /^[0-9A-Fa-f]{1,2}/.exec(script.slice(i + 2, i + 4))
+    : next === "u" ? /^[0-9A-Fa-f]{4}/.exec(script.slice(i + 2, i + 6))
+      : null;
+  if (hex) return { value: String.fromCharCode(parseInt(hex[0], 16)), length: 2 + hex[0].length };
+  const octal = /^[0-7]{1,3}/.exec(script.slice(i + 1, i + 4));
+  if (octal) return { value: String.fromCharCode(parseInt(octal[0], 8)), length: 1 + octal[0].length };
+  return { value: next, length: 2 };
+};
+
+// Splits a script into words, string literals and symbols. Comments are
+// skipped, except the level headers this tool writes, which separate levels.
+const tokenizeScript = (script: string, dialect: SqlDialect): Token[] => {
+  const dialectDef = getDialect(dialect);
+  // Read literals back the way dialects.ts wrote them
+  const backslashEscapes = dialectDef.escape("\\") !== "\\";
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < script.length) {
+    const char = script[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "-" && script[i + 1] === "-") {
+      const end = script.indexOf("\n", i);
+      const comment = script.slice(i, end === -1 ? script.length : end).replace(/\r$/, "");
+      if (LEVEL_HEADER.test(comment)) tokens.push({ type: 'level', value: comment });
+      i = end === -1 ? script.length : end + 1;
+    } else if (char === "'" || ((char === "N" || char === "E" || char === "n" || char === "e") && script[i + 1] === "'")) {
+      const escapes = backslashEscapes || char === "E" || char === "e";
+      let value = "";
+      i += char === "'" ? 1 : 2;
+      for (;;) {
+        if (i >= script.length) throw new Error("Unterminated string literal");
+        const current = script[i];
+        if (current === "\\" && escapes && i + 1 < script.length) {
+          const escape = readEscape(script, i, dialect);
+          value += escape.value;
+          i += escape.length;
+        } else if (current === "'" && script[i + 1] === "'") {
+          value += "'";
+          i += 2;
+        } else if (current === "'") {
+          i++;
+          break;
+        } else {
+          value += current;
+          i++;
+        }
+      }
+      tokens.push({ type: 'string', value });
+    } else if (char === "$" && dialect === 'postgresql' && DOLLAR_DELIMITER.test(script.slice(i, i + 64))) {
+      const delimiter = (DOLLAR_DELIMITER.exec(script.slice(i, i + 64)) as RegExpExecArray)[0];
+      const end = script.indexOf(delimiter, i + delimiter.length);
+      if (end === -1) throw new Error("Unterminated dollar-quoted string");
+      tokens.push({ type: 'string', value: script.slice(i + delimiter.length, end) });
+      i = end + delimiter.length;
+    } else if (/[\w"`[\].$]/.test(char)) {
+      let end = i;
+      while (end < script.length && /[\w"`[\].$]/.test(script[end])) end++;
+      tokens.push({ type: 'word', value: script.slice(i, end) });
+      i = end;
+    } else if (char === ":" && script[i + 1] === ":") {
+      tokens.push({ type: 'symbol', value: "::" });
+      i += 2;
+    } else {
+      tokens.push({ type: 'symbol', value: char });
+      i++;
+    }
+  }
+
+  return tokens;
+};
+
+// `public."curriculum_data"` and `[dbo].[curriculum_data]` name the same table
+const tableName = (word: string): string => {
+  const parts = word.split(".");
+  return parts[parts.length - 1].replace(/["`[\]]/g, "").toLowerCase();
+};
+
+// Cursor over the tokens of a script with the few productions needed to
+// read the statements this tool writes
+const createReader = (tokens: Token[]) => {
+  let position = 0;
+
+  const peek = (offset = 0): Token | undefined => tokens[position + offset];
+  const next = (): Token | undefined => tokens[position++];
+
+  const isWord = (value: string, offset = 0): boolean => {
+    const token = peek(offset);
+    return Boolean(token) && token?.type === 'word' && token.value.toUpperCase() === value;
+  };
+
+  const isSymbol = (value: string, offset = 0): boolean => {
+    const token = peek(offset);
+    return Boolean(token) && token?.type === 'symbol' && token.value === value;
+  };
+
+  const expectWord = (value: string) => {
+    if (!isWord(value)) throw new Error(`Expected ${value}`);
+    position++;
+  };
+
+  const expectSymbol = (value: string) => {
+    if (!isSymbol(value)) throw new Error(`Expected '${value}'`);
+    position++;
+  };
+
+  // ( a, b, c )
+  const columns = (): string[] => {
+    const names: string[] = [];
+    expectSymbol("(");
+    for (;;) {
+      const token = next();
+      if (!token || token.type !== 'word') throw new Error("Expected a column name");
+      names.push(tableName(token.value));
+      if (isSymbol(")")) break;
+      expectSymbol(",");
+    }
+    expectSymbol(")");
+    return names;
+  };
+
+  // A string literal, char(n) / NCHAR(n) for a control character, or a
+  // CAST(... AS type) of one
+  const stringPart = (): string => {
+    const token = next();
+    if (token && token.type === 'string') return token.value;
+    if (token && token.type === 'word' && /^N?CHAR$/i.test(token.value)) {
+      expectSymbol("(");
+      const code = next();
+      if (!code || code.type !== 'word' || !/^\d+$/.test(code.value)) throw new Error("Expected a character code");
+      expectSymbol(")");
+      return String.fromCharCode(Number(code.value));
+    }
+    if (token && token.type === 'word' && token.value.toUpperCase() === "CAST") {
+      expectSymbol("(");
+      const text = stringPart();
+      expectWord("AS");
+      position++;
+      if (isSymbol("(")) position += 3;
+      expectSymbol(")");
+      return text;
+    }
+    throw new Error("Only literals and NULL can be read back");
+  };
+
+  // A string with an optional `::type` cast, made of parts joined with || or +
+  // where control characters are written as function calls; NULL; or a number
+  // or boolean (as written for extra constant columns)
+  const value = (): string | null => {
+    const token = peek();
+    if (token && token.type === 'word' && token.value.toUpperCase() === "NULL") {
+      position++;
+      return null;
+    }
+    if (token && token.type === 'word' && /^(\d+(\.\d+)?|TRUE|FALSE)$/i.test(token.value)) {
+      position++;
+      return token.value;
+    }
+    let text = stringPart();
+    for (;;) {
+      if (isSymbol("|") && isSymbol("|", 1)) {
+        position += 2;
+      } else if (isSymbol("+")) {
+        position++;
+      } else {
+        break;
+      }
+      text += stringPart();
+    }
+    while (isSymbol("::")) {
+      position += 2;
+    }
+    return text;
+  };
+
+  // (v, v), (v, v) ...
+  const rows = (): Array<Array<string | null>> => {
+    const result: Array<Array<string | null>> = [];
+    for (;;) {
+      const row: Array<string | null> = [];
+      expectSymbol("(");
+      for (;;) {
+        row.push(value());
+        if (isSymbol(")")) break;
+        expectSymbol(",");
+      }
+      expectSymbol(")");
+      result.push(row);
+      if (!(isSymbol(",") && isSymbol("(", 1))) break;
+      expectSymbol(",");
+    }
+    return result;
+  };
+
+  const skipStatement = () => {
+    while (peek() && !isSymbol(";")) position++;
+    position++;
+  };
+
+  return { peek, next, isWord, isSymbol, expectWord, expectSymbol, columns, rows, skipStatement };
+};
+
+interface ScriptRow {
+  row: Record<string, unknown>;
+  // Index of the level header the row follows
+  segment: number;
+}
+
+const readScriptRows = (script: string, dialect: SqlDialect, table: string, context: IssueContext): ScriptRow[] => {
+  let tokens: Token[];
+  try {
+    tokens = tokenizeScript(script, dialect);
+  } catch (error) {
+    reportIssue(context, 'error', 'fatal', error instanceof Error ? error.message : "Unknown error");
+    return [];
+  }
+
+  const reader = createReader(tokens);
+  const rows: ScriptRow[] = [];
+  const ignored: string[] = [];
+  let segment = 0;
+  let statement = 0;
+
+  while (reader.peek()) {
+    if (reader.peek()?.type === 'level') {
+      reader.next();
+      if (rows.length > 0) segment++;
+      continue;
+    }
+
+    const statementContext = childContext(context, statement++);
+    try {
+      let columns: string[] = [];
+      let values: Array<Array<string | null>> = [];
+      let statementTable = "";
+
+      if (reader.isWord("INSERT") && reader.isWord("INTO", 1)) {
+        reader.next();
+        reader.next();
+        statementTable = tableName(reader.next()?.value || "");
+        if (statementTable === table) {
+          columns = reader.columns();
+          reader.expectWord("VALUES");
+          values = reader.rows();
+        }
+      } else if (reader.isWord("MERGE") && reader.isWord("INTO", 1)) {
+        reader.next();
+        reader.next();
+        statementTable = tableName(reader.next()?.value || "");
+        if (statementTable === table) {
+          reader.expectWord("AS");
+          reader.next();
+          reader.expectWord("USING");
+          reader.expectSymbol("(");
+          reader.expectWord("VALUES");
+          values = reader.rows();
+          reader.expectSymbol(")");
+          reader.expectWord("AS");
+          reader.next();
+          columns = reader.columns();
+        }
+      }
+
+      if (statementTable && statementTable !== table && ignored.indexOf(statementTable) === -1) {
+        ignored.push(statementTable);
+      }
+
+      values.forEach((valueRow) => {
+        if (valueRow.length !== columns.length) {
+          throw new Error(`Row has ${valueRow.length} value(s) for ${columns.length} column(s)`);
+        }
+        const row: Record<string, unknown> = {};
+        columns.forEach((column, index) => {
+          row[column] = valueRow[index];
+        });
+        rows.push({ row, segment });
+      });
+    } catch (error) {
+      reportIssue(statementContext, 'error', 'fatal', error instanceof Error ? error.message : "Unknown error");
+    }
+    reader.skipStatement();
+  }
+
+  if (ignored.length > 0) {
+    reportIssue(context, 'info', 'dropped', `Statements for ${ignored.join(", ")} ignored; only ${table} rows are read back`);
+  }
+  return rows;
+};
+
+// Same key order as the converter's input, so the JSON is stable
+const canonicalWeek = (week: WeekData): WeekData => {
+  if (typeof week !== 'object' || week === null) return week;
+  return {
+    week_number: week.week_number,
+    topic: week.topic == null ? null : week.topic,
+    breakdown: week.breakdown == null ? null : week.breakdown,
+    note: week.note == null ? null : week.note,
+  };
+};
+
+const canonicalBook = (book: BookData): BookData => {
+  if (typeof book !== 'object' || book === null) return book;
+  const isbn = book.isbn == null ? "" : String(book.isbn);
+  return { title: book.title, author: book.author, isbn, isbn_valid: normalizeIsbn(isbn).valid };
+};
+
+const toSubject = (record: SubjectRecord, terms: TermLayout): SubjectData => {
+  const subject = {
+    subject_name: record.subject_name,
+    introduction: record.introduction,
+  } as SubjectData;
+  terms.keys.forEach((termKey) => {
+    subject[termKey] = record[termKey].map(canonicalWeek);
+  });
+  subject.recommended_books = record.recommended_books.map(canonicalBook);
+  return subject;
+};
+
+// Rows of the same level (and segment of a script) become one level. Every
+// row stores the level's alternative names, so rows that disagree are kept
+// as separate levels rather than losing names.
+const groupLevels = (
+  records: SubjectRecord[],
+  segments: number[],
+  terms: TermLayout,
+  context: IssueContext,
+): EducationalLevelData[] => {
+  const levels: EducationalLevelData[] = [];
+  const keys: string[] = [];
+  const reported: string[] = [];
+
+  records.forEach((record, index) => {
+    const key = JSON.stringify([segments[index], record.educational_level, record.alternative_names]);
+    const position = keys.indexOf(key);
+    if (position !== -1) {
+      levels[position].subjects.push(toSubject(record, terms));
+      return;
+    }
+
+    const sameLevel = levels.filter((level) => level.educational_level === record.educational_level);
+    if (sameLevel.length > 0 && reported.indexOf(record.educational_level) === -1 &&
+      sameLevel.some((level) => JSON.stringify(level.alternative_names) !== JSON.stringify(record.alternative_names))) {
+      reported.push(record.educational_level);
+      reportIssue(
+        childContext(context, index),
+        'warning',
+        'reported',
+        `Rows of ${record.educational_level} have different alternative_names; written as separate levels`,
+        "alternative_names",
+      );
+    }
+
+    keys.push(key);
+    levels.push({
+      educational_level: record.educational_level,
+      alternative_names: record.alternative_names,
+      subjects: [toSubject(record, terms)],
+    });
+  });
+
+  return levels;
+};
+
+export const reverseCurriculum = (input: string, options: ReverseOptions = {}): ReverseResult => {
+  const result: ReverseResult = { format: null, levels: [], json: "", issues: [], errors: [] };
+
+  if (!input.trim()) {
+    result.errors.push("No data provided");
+    return result;
+  }
+
+  const format = options.format || detectReverseFormat(input);
+  const target = resolveTarget(options.target);
+  const context: IssueContext = { path: format === 'sql' ? "script" : "rows", issues: result.issues };
+  result.format = format;
+
+  let rows: unknown[] = [];
+  let segments: number[] = [];
+  if (format === 'json') {
+    try {
+      const parsed = JSON.parse(input);
+      rows = Array.isArray(parsed) ? parsed : [parsed];
+    } catch (error) {
+      result.errors.push(`Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}`);
+      return result;
+    }
+  } else if (format === 'csv') {
+    rows = readCsvRows(input, context);
+  } else {
+    const dialect = options.dialect || detectScriptDialect(input);
+    if (!DIALECTS[dialect]) {
+      result.errors.push(`Unsupported SQL dialect '${dialect}'`);
+      return result;
+    }
+    const scriptRows = readScriptRows(input, dialect, target.tableName.toLowerCase(), context);
+    rows = scriptRows.map((scriptRow) => scriptRow.row);
+    segments = scriptRows.map((scriptRow) => scriptRow.segment);
+  }
+
+  const detected = rows.reduce<number>((highest, row) => Math.max(highest, detectSubjectTerms(row)), 0);
+  const termOptions = options.terms || {};
+  const terms = resolveTerms(
+    termOptions.count === undefined ? { ...termOptions, count: Math.min(Math.max(detected, TERM_KEYS.length), MAX_TERMS) } : termOptions,
+    detected,
+  );
+  // Only an explicit count can leave columns out
+  const dropped: string[] = [];
+  rows.forEach((row) => {
+    if (typeof row !== 'object' || row === null) return;
+    Object.keys(row).forEach((key) => {
+      const term = termNumber(key);
+      if (term !== null && term > terms.keys.length && dropped.indexOf(key) === -1) dropped.push(key);
+    });
+  });
+  dropped.forEach((key) => {
+    reportIssue(context, 'warning', 'dropped', `${key} is beyond the ${terms.keys.length} configured terms; its weeks are left out`, key);
+  });
+  const records = result.issues.some(isFatal) ? [] : parseSnapshot(rows, context, resolveTarget(options.target, terms));
+  const fatalIssues = result.issues.filter(isFatal);
+  if (fatalIssues.length > 0) {
+    result.errors.push(...fatalIssues.map((issue) => `${issue.path}: ${issue.message}`));
+    return result;
+  }
+  if (records.length === 0) {
+    result.errors.push(format === 'sql'
+      ? `No ${target.tableName} rows found; scripts for the normalized tables cannot be read back`
+      : `No ${target.tableName} rows found`);
+    return result;
+  }
+
+  result.levels = groupLevels(records, segments.length > 0 ? segments : records.map(() => 0), terms, context);
+  result.json = JSON.stringify(result.levels, null, 2);
+  return result;
+};
@@ -0,0 +1,134 @@
+import initSqlJs, { Database, SqlJsStatic } from "sql.js";
+import { beforeAll, describe, expect, it } from "vitest";
+import { convertCurriculum, ConvertOptions, ROLLBACK_DELETES_ALL } from "./convert";
+import { RELATIONAL_TABLES } from "./relational";
+
+const week = (number: number, topic: string) => ({ week_number: number, topic, breakdown: "Overview of the week", note: null });
+
+const subject = (name: string, introduction: string, topics: string[]) => ({
+  subject_name: name,
+  introduction,
+  term_1_weeks: topics.map((topic, index) => week(index + 1, topic)),
+  term_2_weeks: [],
+  term_3_weeks: [],
+  recommended_books: [{ title: `${name} book`, author: "Author", isbn: "", isbn_valid: false }],
+});
+
+// What is stored before the import
+const stored = [{
+  educational_level: "Primary 1",
+  alternative_names: ["Basic 1"],
+  subjects: [subject("Mathematics", "Counting", ["Numbers"])],
+}];
+
+// The import updates Mathematics and adds English and a whole level
+const imported = [
+  {
+    educational_level: "Primary 1",
+    alternative_names: ["Pry 1"],
+    subjects: [subject("Mathematics", "Numbers and shapes", ["Numbers", "Shapes"]), subject("English", "Reading", ["Letters"])],
+  },
+  {
+    educational_level: "Primary 2",
+    alternative_names: [],
+    subjects: [subject("Science", "Plants", ["Seeds"])],
+  },
+];
+
+const GENERATED = ["id", "created_at", "updated_at"];
+
+// Every row of a table without its generated columns, in a stable order
+const dump = (db: Database, table: string): Array<Record<string, unknown>> => {
+  const results = db.exec(`SELECT * FROM ${table}`);
+  if (results.length === 0) return [];
+  const { columns, values } = results[0];
+  return values
+    .map((row) => columns.reduce<Record<string, unknown>>((record, column, index) => {
+      if (GENERATED.indexOf(column) === -1) record[column] = row[index];
+      return record;
+    }, {}))
+    .sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)));
+};
+
+describe("rollback scripts run against SQLite", () => {
+  let SQL: SqlJsStatic;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+  });
+
+  const convert = (levels: unknown, options: ConvertOptions) => {
+    const result = convertCurriculum(levels, { dialect: 'sqlite', includeSchema: true, ...options });
+    expect(result.errors).toEqual([]);
+    return result;
+  };
+
+  // The stored rows, the import and its rollback. Returns the tables before
+  // the import, after it and after the rollback.
+  const importAndRollBack = (tables: string[], options: ConvertOptions) => {
+    const db = new SQL.Database();
+    try {
+      db.exec(convert(stored, options).sql);
+      const before = tables.map((table) => dump(db, table));
+      const result = convert(imported, options);
+      db.exec(result.sql);
+      const after = tables.map((table) => dump(db, table));
+      db.exec(result.rollback);
+      return { before, after, rolledBack: tables.map((table) => dump(db, table)), result };
+    } finally {
+      db.close();
+    }
+  };
+
+  // The stored curriculum_data rows as a JSON export would have them
+  const snapshot = (): Array<Record<string, unknown>> => {
+    const db = new SQL.Database();
+    try {
+      db.exec(convert(stored, {}).sql);
+      return dump(db, "curriculum_data");
+    } finally {
+      db.close();
+    }
+  };
+
+  it("restores updated subjects from the snapshot and deletes new ones", () => {
+    const { before, after, rolledBack } = importAndRollBack(["curriculum_data"], { snapshot: snapshot() });
+    expect(after[0]).toHaveLength(3);
+    expect(rolledBack).toEqual(before);
+  });
+
+  it("restores the normalized tables from the snapshot", () => {
+    const tables = [
+      RELATIONAL_TABLES.levels,
+      RELATIONAL_TABLES.aliases,
+      RELATIONAL_TABLES.subjects,
+      RELATIONAL_TABLES.terms,
+      RELATIONAL_TABLES.weeks,
+      RELATIONAL_TABLES.books,
+    ];
+    const { before, after, rolledBack } = importAndRollBack(tables, { outputMode: 'relational', snapshot: snapshot() });
+    expect(after).not.toEqual(before);
+    expect(rolledBack).toEqual(before);
+  });
+
+  it.each(['jsonb', 'relational'] as const)("leaves every subject in place without a snapshot in %s mode", (outputMode) => {
+    const table = outputMode === 'relational' ? RELATIONAL_TABLES.subjects : "curriculum_data";
+    const { after, rolledBack, result } = importAndRollBack([table], { outputMode });
+    expect(rolledBack).toEqual(after);
+    expect(result.rollback).not.toContain("DELETE");
+    expect(result.issues.filter((issue) => issue.message === ROLLBACK_DELETES_ALL)).toEqual([]);
+  });
+
+  it.each(['jsonb', 'relational'] as const)("deletes every converted subject when asked to in %s mode", (outputMode) => {
+    const table = outputMode === 'relational' ? RELATIONAL_TABLES.subjects : "curriculum_data";
+    const { rolledBack, result } = importAndRollBack([table], { outputMode, deleteWithoutSnapshot: true });
+    // Including Mathematics, which existed before the import
+    expect(rolledBack).toEqual([[]]);
+    expect(result.issues).toContainEqual({
+      path: "snapshot",
+      severity: 'warning',
+      resolution: 'reported',
+      message: ROLLBACK_DELETES_ALL,
+    });
+  });
+});
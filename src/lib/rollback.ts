@@ -0,0 +1,220 @@
+import { commentText, deleteStatement, Dialect, keyCondition, updateStatement } from "./dialects";
+import { OutputMode } from "./convert";
+import { RELATIONAL_TABLES, replaceLevelAliasesSQL, replaceSubjectContentSQL } from "./relational";
+import {
+  curriculumRowColumns,
+  curriculumRowValues,
+  fromTargetRow,
+  resolveTarget,
+  ResolvedTarget,
+  rowCondition,
+  sanitizeString,
+} from "./sql";
+import { DEFAULT_TERMS, termNumber } from "./terms";
+import { NormalizedLevel, SubjectRecord, TermLayout } from "./types";
+import { childContext, IssueContext, reportIssue } from "./validation";
+
+// Rollback scripts undo a conversion. Subjects found in the snapshot (the rows
+// stored before the import, e.g. a JSON export of curriculum_data) are updated
+// back to their previous values; every other converted subject is deleted.
+// Without a snapshot there is no telling new subjects from updated ones, so
+// subjects are only deleted when the caller asks for it.
+
+// The week columns of the target's terms, and of any other term the row has
+const jsonArrayColumns = (row: Record<string, unknown>, target?: ResolvedTarget): string[] => {
+  const terms: string[] = (target ? target.terms : DEFAULT_TERMS).keys;
+  const otherTerms = Object.keys(row).filter((key) => termNumber(key) !== null && terms.indexOf(key) === -1);
+  return ["alternative_names", ...terms, ...otherTerms, "recommended_books"];
+};
+
+// Snapshot values are restored verbatim, so anything unreadable is fatal: a
+// skipped row would make the rollback delete a subject that existed before.
+// Rows use the target's column names.
+export const parseSnapshot = (input: unknown, context: IssueContext, target?: ResolvedTarget): SubjectRecord[] => {
+  if (!Array.isArray(input)) {
+    reportIssue(context, 'error', 'fatal', "Snapshot must be a JSON array of curriculum_data rows");
+    return [];
+  }
+
+  const rows: SubjectRecord[] = [];
+  input.forEach((stored, index) => {
+    const rowContext = childContext(context, index);
+    if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) {
+      reportIssue(rowContext, 'error', 'fatal', "Row must be an object");
+      return;
+    }
+    const row = target ? fromTargetRow(stored, target) : stored;
+
+    const missingKey = ["educational_level", "subject_name"].filter((key) => !row[key] || typeof row[key] !== 'string');
+    if (missingKey.length > 0) {
+      reportIssue(rowContext, 'error', 'fatal', `Row is missing '${missingKey[0]}'`, missingKey[0]);
+      return;
+    }
+
+    const record: Record<string, unknown> = {
+      educational_level: row.educational_level,
+      subject_name: row.subject_name,
+      introduction: row.introduction == null ? "" : String(row.introduction),
+    };
+
+    const readable = jsonArrayColumns(row, target).every((column) => {
+      let value = row[column] == null ? [] : row[column];
+      if (typeof value === 'string') {
+        try {
+          value = JSON.parse(value);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Unknown error";
+          reportIssue(rowContext, 'error', 'fatal', `Invalid JSON string: ${message}`, column);
+          return false;
+        }
+      }
+      if (!Array.isArray(value)) {
+        reportIssue(rowContext, 'error', 'fatal', "Expected an array", column);
+        return false;
+      }
+      record[column] = value;
+      return true;
+    });
+
+    if (readable) {
+      rows.push(record as unknown as SubjectRecord);
+    }
+  });
+
+  return rows;
+};
+
+const findSnapshotRow = (snapshot: SubjectRecord[], subject: SubjectRecord): SubjectRecord | undefined => {
+  return snapshot.filter((row) =>
+    row.educational_level === subject.educational_level && row.subject_name === subject.subject_name
+  )[0];
+};
+
+// Rows of the normalized tables are keyed by level and subject
+const subjectCondition = (subject: SubjectRecord, dialect: Dialect): string => {
+  return keyCondition(
+    ["educational_level", "subject_name"],
+    [dialect.text(subject.educational_level), dialect.text(subject.subject_name)],
+  );
+};
+
+// Extra constant columns are not part of the snapshot and stay as they are
+const rollbackCurriculumRow = (
+  subject: SubjectRecord,
+  previous: SubjectRecord | undefined,
+  dialect: Dialect,
+  target: ResolvedTarget,
+): string[] => {
+  if (!previous) {
+    return [deleteStatement(target.table, rowCondition(subject, dialect, target))];
+  }
+
+  const values = curriculumRowValues(previous, dialect, target);
+  const restored = curriculumRowColumns(target)
+    .map((column, index) => ({ column, value: values[index] }))
+    .filter(({ column }, index) => index < target.columns.length && target.conflictColumns.indexOf(column) === -1);
+  return updateStatement({
+    table: target.table,
+    columns: restored.map(({ column }) => column),
+    values: restored.map(({ value }) => value),
+  }, rowCondition(subject, dialect, target));
+};
+
+const rollbackRelationalSubject = (
+  subject: SubjectRecord,
+  previous: SubjectRecord | undefined,
+  terms: TermLayout,
+  dialect: Dialect,
+): string[] => {
+  const condition = subjectCondition(subject, dialect);
+
+  if (!previous) {
+    return [
+      deleteStatement(RELATIONAL_TABLES.weeks, condition),
+      deleteStatement(RELATIONAL_TABLES.terms, condition),
+      deleteStatement(RELATIONAL_TABLES.books, condition),
+      deleteStatement(RELATIONAL_TABLES.subjects, condition),
+    ];
+  }
+
+  return [
+    ...updateStatement({
+      table: RELATIONAL_TABLES.subjects,
+      columns: ["introduction"],
+      values: [dialect.text(sanitizeString(previous.introduction))],
+    }, condition),
+    ...replaceSubjectContentSQL(previous, dialect, 1, terms),
+  ];
+};
+
+// The level row and its aliases are restored from the snapshot when the level
+// was in it, otherwise removed once none of its subjects are left.
+const rollbackRelationalLevel = (level: NormalizedLevel, snapshot: SubjectRecord[], dialect: Dialect): string[] => {
+  const educationalLevel = dialect.text(level.educational_level);
+  const levelCondition = keyCondition(["educational_level"], [educationalLevel]);
+  const previous = snapshot.filter((row) => row.educational_level === level.educational_level)[0];
+
+  if (previous) {
+    return replaceLevelAliasesSQL(level.educational_level, previous.alternative_names, dialect);
+  }
+
+  const isEmpty = `NOT EXISTS (SELECT 1 FROM ${RELATIONAL_TABLES.subjects} s WHERE s.educational_level = ${educationalLevel})`;
+  return [
+    deleteStatement(RELATIONAL_TABLES.aliases, `${levelCondition} AND ${isEmpty}`),
+    deleteStatement(RELATIONAL_TABLES.levels, `${levelCondition} AND ${isEmpty}`),
+  ];
+};
+
+const describeRollback = (level: NormalizedLevel, snapshot: SubjectRecord[] | undefined, deleteWithoutSnapshot: boolean): string[] => {
+  if (snapshot) {
+    const restored = level.subjects.filter((subject) => findSnapshotRow(snapshot, subject)).length;
+    return [`-- Restores ${restored} subject(s) from the snapshot and deletes ${level.subjects.length - restored} new subject(s)`];
+  }
+  if (deleteWithoutSnapshot) {
+    return ["-- No snapshot supplied: every converted subject is deleted, including subjects that existed before the import"];
+  }
+  return [
+    "-- No snapshot supplied: subjects are left as they are. Without the rows stored",
+    "-- before the import the new subjects cannot be told from the updated ones",
+  ];
+};
+
+// Rollback statements for one level, without the surrounding transaction.
+// Without a snapshot, subjects are only deleted with `deleteWithoutSnapshot`.
+export const generateRollbackSQL = (
+  level: NormalizedLevel,
+  dialect: Dialect,
+  outputMode: OutputMode = 'jsonb',
+  snapshot?: SubjectRecord[],
+  target: ResolvedTarget = resolveTarget({}, level.terms),
+  deleteWithoutSnapshot = false,
+): string[] => {
+  const rows = snapshot || [];
+
+  const lines: string[] = [
+    "-- =====================================================",
+    `-- ${commentText(level.educational_level).toUpperCase()} CURRICULUM DATA - ROLLBACK`,
+    "-- =====================================================",
+    ...describeRollback(level, snapshot, deleteWithoutSnapshot),
+    "-- =====================================================",
+    "",
+  ];
+  if (!snapshot && !deleteWithoutSnapshot) return lines;
+
+  level.subjects.forEach((subject) => {
+    const previous = findSnapshotRow(rows, subject);
+    lines.push(
+      `-- ${previous ? "Restore" : "Delete"} ${commentText(subject.educational_level)} ${commentText(subject.subject_name)}`,
+      ...(outputMode === 'relational'
+        ? rollbackRelationalSubject(subject, previous, level.terms, dialect)
+        : rollbackCurriculumRow(subject, previous, dialect, target)),
+      "",
+    );
+  });
+
+  if (outputMode === 'relational') {
+    lines.push(`-- ${commentText(level.educational_level)} level and aliases`, ...rollbackRelationalLevel(level, rows, dialect), "");
+  }
+
+  return lines;
+};
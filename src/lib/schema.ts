@@ -0,0 +1,211 @@
+import { getDialect, SqlDialect } from "./dialects";
+import { CONFLICT_COLUMNS, ColumnType, resolveTarget, ResolvedTarget, TargetColumn, TargetSchema } from "./sql";
+import { termNumber } from "./terms";
+import { TERM_KEYS, TermLayout } from "./types";
+
+// Idempotent DDL for the curriculum_data table written by the generated upserts.
+// Every statement can be re-run against an existing database.
+
+const INDENT = "    ";
+
+// Column types of the extra constant columns, by the kind of value they hold
+interface ExtraTypes {
+  number: string;
+  boolean: string;
+  // The type of the table's own updated_at column
+  timestamp: string;
+}
+
+const uniqueIndex = (target: ResolvedTarget): string => {
+  const standardKey = target.conflictColumns.join(",") === CONFLICT_COLUMNS.join(",");
+  return `${target.tableName}_${standardKey ? "level_subject" : "upsert"}_key`;
+};
+
+const updatedAtTrigger = (target: ResolvedTarget): string => `${target.tableName}_set_${target.updatedAtColumn}`;
+
+const columnList = (definitions: string[]): string[] => {
+  return definitions.map((definition, index) => `${INDENT}${definition}${index < definitions.length - 1 ? "," : ""}`);
+};
+
+// Curriculum columns, then the extra constant columns. A combined JSON column
+// defaults to an empty object rather than an empty array.
+const columnDefinitions = (
+  target: ResolvedTarget,
+  types: Record<ColumnType, string> & ExtraTypes,
+  defaults: Partial<Record<ColumnType, string>> & { object?: string },
+  extra: (column: TargetColumn) => string = () => "",
+): string[] => [
+  ...target.columns.map((column) => {
+    const fallback = column.fields.length > 1 ? defaults.object : defaults[column.type];
+    const defaultValue = fallback ? ` DEFAULT ${fallback}` : "";
+    return `${column.name} ${types[column.type]} NOT NULL${defaultValue}${extra(column)}`;
+  }),
+  ...target.extraColumns.map(({ name, value }) => {
+    const key = target.conflictColumns.indexOf(name) !== -1;
+    const type = typeof value === 'number' ? types.number
+      : typeof value === 'boolean' ? types.boolean
+      : value !== null && typeof value === 'object' && value.timestamp ? types.timestamp
+      : key ? types.key : types.text;
+    return `${name} ${type}${key ? " NOT NULL" : ""}`;
+  }),
+];
+
+const jsonColumns = (target: ResolvedTarget): string[] => {
+  return target.columns.filter((column) => column.type === 'json').map((column) => column.name);
+};
+
+const updatedAtDefinition = (target: ResolvedTarget, definition: string): string[] => {
+  return target.updatedAtColumn ? [`${target.updatedAtColumn} ${definition}`] : [];
+};
+
+const postgresqlSchema = (target: ResolvedTarget): string[] => [
+  `CREATE TABLE IF NOT EXISTS ${target.table} (`,
+  ...columnList([
+    "id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY",
+    ...columnDefinitions(
+      target,
+      { key: "TEXT", text: "TEXT", json: "JSONB", number: "BIGINT", boolean: "BOOLEAN", timestamp: "TIMESTAMPTZ" },
+      { text: "''", json: "'[]'::jsonb", object: "'{}'::jsonb" },
+    ),
+    "created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()",
+    ...updatedAtDefinition(target, "TIMESTAMPTZ NOT NULL DEFAULT NOW()"),
+  ]),
+  ");",
+  "",
+  `-- Required by ON CONFLICT (${target.conflictColumns.join(", ")})`,
+  `CREATE UNIQUE INDEX IF NOT EXISTS ${uniqueIndex(target)}`,
+  `${INDENT}ON ${target.table} (${target.conflictColumns.join(", ")});`,
+  "",
+  "-- GIN indexes for containment queries on the jsonb columns",
+  ...jsonColumns(target).map((column) =>
+    `CREATE INDEX IF NOT EXISTS ${target.tableName}_${column}_gin ON ${target.table} USING GIN (${column});`
+  ),
+  ...(target.updatedAtColumn ? [
+    "",
+    `CREATE OR REPLACE FUNCTION ${updatedAtTrigger(target)}() RETURNS TRIGGER AS $$`,
+    "BEGIN",
+    `${INDENT}NEW.${target.updatedAtColumn} = NOW();`,
+    `${INDENT}RETURN NEW;`,
+    "END;",
+    "$$ LANGUAGE plpgsql;",
+    "",
+    `DROP TRIGGER IF EXISTS ${updatedAtTrigger(target)} ON ${target.table};`,
+    `CREATE TRIGGER ${updatedAtTrigger(target)}`,
+    `${INDENT}BEFORE UPDATE ON ${target.table}`,
+    `${INDENT}FOR EACH ROW EXECUTE FUNCTION ${updatedAtTrigger(target)}();`,
+  ] : []),
+];
+
+// MySQL keeps updated_at current with ON UPDATE CURRENT_TIMESTAMP instead of a trigger
+const mysqlSchema = (target: ResolvedTarget): string[] => [
+  `CREATE TABLE IF NOT EXISTS ${target.table} (`,
+  ...columnList([
+    "id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY",
+    ...columnDefinitions(
+      target,
+      { key: "VARCHAR(255)", text: "TEXT", json: "JSON", number: "BIGINT", boolean: "BOOLEAN", timestamp: "TIMESTAMP" },
+      {},
+    ),
+    "created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP",
+    ...updatedAtDefinition(target, "TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP"),
+    `UNIQUE KEY ${uniqueIndex(target)} (${target.conflictColumns.join(", ")})`,
+  ]),
+  ") DEFAULT CHARSET = utf8mb4;",
+];
+
+const sqliteSchema = (target: ResolvedTarget): string[] => [
+  `CREATE TABLE IF NOT EXISTS ${target.table} (`,
+  ...columnList([
+    "id INTEGER PRIMARY KEY AUTOINCREMENT",
+    ...columnDefinitions(
+      target,
+      { key: "TEXT", text: "TEXT", json: "TEXT", number: "INTEGER", boolean: "INTEGER", timestamp: "TEXT" },
+      { text: "''", json: "'[]'", object: "'{}'" },
+      (column) => column.type === 'json' ? ` CHECK (json_valid(${column.name}))` : "",
+    ),
+    "created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP",
+    ...updatedAtDefinition(target, "TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP"),
+  ]),
+  ");",
+  "",
+  `-- Required by ON CONFLICT (${target.conflictColumns.join(", ")})`,
+  `CREATE UNIQUE INDEX IF NOT EXISTS ${uniqueIndex(target)}`,
+  `${INDENT}ON ${target.table} (${target.conflictColumns.join(", ")});`,
+  ...(target.updatedAtColumn ? [
+    "",
+    `CREATE TRIGGER IF NOT EXISTS ${updatedAtTrigger(target)}`,
+    `AFTER UPDATE ON ${target.table}`,
+    `FOR EACH ROW WHEN NEW.${target.updatedAtColumn} = OLD.${target.updatedAtColumn}`,
+    "BEGIN",
+    `${INDENT}UPDATE ${target.table} SET ${target.updatedAtColumn} = CURRENT_TIMESTAMP WHERE id = NEW.id;`,
+    "END;",
+  ] : []),
+];
+
+// CREATE TRIGGER must start its own batch in SQL Server, hence the GO separators
+const sqlserverSchema = (target: ResolvedTarget): string[] => [
+  `IF OBJECT_ID(N'${target.table}', N'U') IS NULL`,
+  `CREATE TABLE ${target.table} (`,
+  ...columnList([
+    "id BIGINT IDENTITY(1,1) PRIMARY KEY",
+    ...columnDefinitions(
+      target,
+      { key: "NVARCHAR(255)", text: "NVARCHAR(MAX)", json: "NVARCHAR(MAX)", number: "BIGINT", boolean: "BIT", timestamp: "DATETIME2" },
+      { text: "N''", json: "N'[]'", object: "N'{}'" },
+      (column) => column.type === 'json' ? ` CHECK (ISJSON(${column.name}) = 1)` : "",
+    ),
+    "created_at DATETIME2 NOT NULL DEFAULT SYSUTCDATETIME()",
+    ...updatedAtDefinition(target, "DATETIME2 NOT NULL DEFAULT SYSUTCDATETIME()"),
+  ]),
+  ");",
+  "GO",
+  "",
+  `IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = N'${uniqueIndex(target)}' AND object_id = OBJECT_ID(N'${target.table}'))`,
+  `CREATE UNIQUE INDEX ${uniqueIndex(target)} ON ${target.table} (${target.conflictColumns.join(", ")});`,
+  "GO",
+  ...(target.updatedAtColumn ? [
+    "",
+    `CREATE OR ALTER TRIGGER ${target.schema ? `${target.schema}.` : ""}${updatedAtTrigger(target)} ON ${target.table}`,
+    "AFTER UPDATE AS",
+    "BEGIN",
+    `${INDENT}SET NOCOUNT ON;`,
+    `${INDENT}UPDATE target SET ${target.updatedAtColumn} = SYSUTCDATETIME()`,
+    `${INDENT}FROM ${target.table} AS target`,
+    `${INDENT}INNER JOIN inserted ON target.id = inserted.id;`,
+    "END;",
+    "GO",
+  ] : []),
+];
+
+const SCHEMA_BUILDERS: Record<SqlDialect, (target: ResolvedTarget) => string[]> = {
+  postgresql: postgresqlSchema,
+  mysql: mysqlSchema,
+  sqlite: sqliteSchema,
+  sqlserver: sqlserverSchema,
+};
+
+export const generateSchemaSQL = (dialectId?: SqlDialect, targetSchema?: TargetSchema, terms?: TermLayout): string[] => {
+  const dialect = getDialect(dialectId);
+  const target = resolveTarget(targetSchema, terms);
+  // CREATE TABLE IF NOT EXISTS leaves an existing table as it is, so a table
+  // created for the standard three terms lacks the columns of later ones
+  const laterTerms = target.columns.filter((column) => (
+    column.fields.some((field) => (termNumber(field) || 0) > TERM_KEYS.length)
+  ));
+
+  return [
+    "-- =====================================================",
+    `-- ${target.table.toUpperCase()} SCHEMA (${dialect.label})`,
+    "-- =====================================================",
+    "-- Safe to run repeatedly: creates the table, unique key and",
+    `-- ${target.updatedAtColumn || "updated_at"} handling only where they are missing`,
+    ...(laterTerms.length > 0 ? [
+      "-- An existing table keeps its columns: if it was created with",
+      `-- fewer terms, add ${laterTerms.map((column) => column.name).join(", ")} first`,
+    ] : []),
+    "-- =====================================================",
+    "",
+    ...SCHEMA_BUILDERS[dialect.id](target),
+    "",
+  ];
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { guessMapping, parseCsv, spreadsheetToCurriculum, toTable } from "./spreadsheet";
+
+describe("parseCsv", () => {
+  it.each([
+    ["plain fields", "a,b,c\n1,2,3", [["a", "b", "c"], ["1", "2", "3"]]],
+    ["CRLF and CR line ends", "a,b\r\n1,2\r3,4\r\n", [["a", "b"], ["1", "2"], ["3", "4"]]],
+    ["a separator in quotes", "\"a,b\",c", [["a,b", "c"]]],
+    ["doubled quotes", "\"say \"\"hi\"\"\",\"\"\"\"", [["say \"hi\"", "\""]]],
+    ["line breaks in quotes", "\"line 1\nline 2\",\"a\r\nb\"\nnext", [["line 1\nline 2", "a\r\nb"], ["next"]]],
+    ["empty fields", ",a,,\n,", [["", "a", "", ""], ["", ""]]],
+    ["a byte order mark", "\uFEFFa,b", [["a", "b"]]],
+    ["tab-separated text", "a\tb\n1,5\t2", [["a", "b"], ["1,5", "2"]]],
+    ["nothing", "", []],
+  ])("reads %s", (_, input, records) => {
+    expect(parseCsv(input)).toEqual(records);
+  });
+
+  it("returns null for a quoted field that is never closed", () => {
+    expect(parseCsv("a,\"b\n1,2")).toBeNull();
+  });
+});
+
+describe("spreadsheetToCurriculum", () => {
+  const csv = [
+    "",
+    "Class,Subject,Term,Week,Topic,Breakdown,Remarks",
+    "Primary 1,Mathematics,First Term,Week 1,Counting,1 to 10,",
+    "Primary 1,Mathematics,1,1,,11 to 20,Use beads",
+    "Primary 1,Mathematics,2nd term,Wk 2,Shapes,Circles,",
+    "Primary 1,English,Term 1,1,Letters,A to M,",
+    "Primary 2,Mathematics,Term 1,1,Adding,Sums,",
+    ",Mathematics,1,1,Lost,,",
+    "Primary 2,Mathematics,Term 13,1,Too late,,",
+    "Primary 2,Mathematics,1,,No week,,",
+  ].join("\n");
+
+  it("groups rows into levels, subjects, terms and weeks", () => {
+    const table = toTable(parseCsv(csv) as string[][]);
+    expect(table.headerRow).toBe(2);
+    const result = spreadsheetToCurriculum(table, guessMapping(table.headers));
+    expect(result.errors).toEqual([]);
+
+    expect(result.levels.map((level) => [level.educational_level, level.subjects.map((subject) => subject.subject_name)])).toEqual([
+      ["Primary 1", ["Mathematics", "English"]],
+      ["Primary 2", ["Mathematics"]],
+    ]);
+    const mathematics = result.levels[0].subjects[0];
+    // Two rows for one week make one week
+    expect(mathematics.term_1_weeks).toEqual([
+      { week_number: 1, topic: "Counting", breakdown: "1 to 10; 11 to 20", note: "Use beads" },
+    ]);
+    expect(mathematics.term_2_weeks).toEqual([{ week_number: 2, topic: "Shapes", breakdown: "Circles", note: null }]);
+    expect(mathematics.term_3_weeks).toEqual([]);
+
+    expect(result.issues.map((issue) => [issue.path, issue.resolution, issue.message])).toEqual([
+      ["row 4", 'auto-fixed', "Merged into term 1 week 1 of Mathematics"],
+      ["row 8", 'dropped', "Row has no educational level or subject"],
+      ["row 9.term", 'dropped', "Term 'Term 13' is not between 1 and 12"],
+      ["row 10.week_number", 'dropped', "Week '' has no week number"],
+    ]);
+  });
+
+  it("needs the required columns", () => {
+    const table = toTable(parseCsv("Class,Topic\nPrimary 1,Counting") as string[][]);
+    expect(spreadsheetToCurriculum(table, guessMapping(table.headers)).errors).toEqual([
+      "No column mapped for: subject_name, term, week_number",
+    ]);
+  });
+});
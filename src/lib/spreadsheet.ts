@@ -0,0 +1,264 @@
+import { MAX_TERMS, termKey } from "./terms";
+import { EducationalLevelData, SubjectData, WeekData } from "./types";
+import { IssueContext, reportIssue, ValidationIssue } from "./validation";
+import { readXlsxSheet } from "./xlsx";
+
+// Scheme-of-work spreadsheets: one row per week with columns such as level,
+// subject, term, week, topic, breakdown and note. A column mapping says which
+// header holds which field; the rows are then grouped into levels, subjects
+// and terms and written out as curriculum JSON for the usual conversion.
+
+export type SpreadsheetField =
+  'educational_level' | 'subject_name' | 'term' | 'week_number' | 'topic' | 'breakdown' | 'note';
+
+// Header name of the column holding each field
+export type ColumnMapping = Partial<Record<SpreadsheetField, string>>;
+
+export interface MappingPreset {
+  name: string;
+  mapping: ColumnMapping;
+}
+
+export interface SpreadsheetTable {
+  headers: string[];
+  // Rows below the header, blank rows included
+  rows: string[][];
+  // Spreadsheet row number of the header, for issue paths
+  headerRow: number;
+}
+
+export interface SpreadsheetResult {
+  levels: EducationalLevelData[];
+  // `levels` as pretty-printed JSON, ready for the converter
+  json: string;
+  issues: ValidationIssue[];
+  errors: string[];
+}
+
+export const SPREADSHEET_FIELDS: { field: SpreadsheetField, label: string, required: boolean }[] = [
+  { field: 'educational_level', label: "Educational level", required: true },
+  { field: 'subject_name', label: "Subject", required: true },
+  { field: 'term', label: "Term", required: true },
+  { field: 'week_number', label: "Week", required: true },
+  { field: 'topic', label: "Topic", required: false },
+  { field: 'breakdown', label: "Breakdown", required: false },
+  { field: 'note', label: "Note", required: false },
+];
+
+// Header names recognized for each field, compared without case and punctuation
+const HEADER_SYNONYMS: Record<SpreadsheetField, string[]> = {
+  educational_level: ["educationallevel", "level", "class", "grade", "year", "form"],
+  subject_name: ["subjectname", "subject", "course"],
+  term: ["term", "termnumber", "semester"],
+  week_number: ["weeknumber", "week", "wk", "weekno"],
+  topic: ["topic", "title", "theme", "unit"],
+  breakdown: ["breakdown", "content", "contents", "objectives", "subtopics", "details", "activities"],
+  note: ["note", "notes", "remark", "remarks", "comment", "comments"],
+};
+
+const headerKey = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// RFC 4180 records: quoted fields may contain separators, quotes ("") and line
+// breaks. Tab-separated text is recognized by its header line. Returns null
+// when a quoted field is never closed.
+export const parseCsv = (input: string): string[][] | null => {
+  const text = input.replace(/^\uFEFF/, "");
+  const headerLine = text.split(/\r?\n/)[0];
+  const separator = headerLine.indexOf("\t") !== -1 && headerLine.indexOf(",") === -1 ? "\t" : ",";
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) return null;
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+};
+
+const isBlank = (record: string[]): boolean => record.every((cell) => String(cell).trim() === "");
+
+// The first row with any text is the header row
+export const toTable = (records: string[][]): SpreadsheetTable => {
+  const headerIndex = records.map(isBlank).indexOf(false);
+  if (headerIndex === -1) return { headers: [], rows: [], headerRow: 1 };
+  return {
+    headers: records[headerIndex].map((header) => header.trim()),
+    rows: records.slice(headerIndex + 1),
+    headerRow: headerIndex + 1,
+  };
+};
+
+// Reads a .csv/.tsv/.txt or .xlsx file into a table
+export const readSpreadsheet = async (fileName: string, data: ArrayBuffer | Uint8Array | string): Promise<SpreadsheetTable> => {
+  if (/\.xlsx$/i.test(fileName)) {
+    if (typeof data === 'string') throw new Error("XLSX files must be read as binary data");
+    return toTable(await readXlsxSheet(data));
+  }
+
+  const text = typeof data === 'string' ? data : new TextDecoder("utf-8").decode(data);
+  const records = parseCsv(text);
+  if (!records) throw new Error("CSV has a quoted field that is never closed");
+  return toTable(records);
+};
+
+// Matches headers to fields by name; unrecognized fields stay unmapped
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const keys = headers.map(headerKey);
+
+  SPREADSHEET_FIELDS.forEach(({ field }) => {
+    const position = HEADER_SYNONYMS[field]
+      .map((synonym) => keys.indexOf(synonym))
+      .filter((index) => index !== -1)[0];
+    if (position !== undefined) mapping[field] = headers[position];
+  });
+  return mapping;
+};
+
+// Required fields without a column in `headers`
+export const missingFields = (mapping: ColumnMapping, headers: string[]): SpreadsheetField[] => {
+  return SPREADSHEET_FIELDS
+    .filter(({ field, required }) => required && (!mapping[field] || headers.indexOf(mapping[field] as string) === -1))
+    .map(({ field }) => field);
+};
+
+const TERM_WORDS = ["first", "second", "third"];
+
+// "2", "Term 2", "2nd term" and "Second Term" are all term 2
+const parseTerm = (value: string): number | null => {
+  const text = value.trim().toLowerCase();
+  const digits = /\d+/.exec(text);
+  if (digits) return Number(digits[0]);
+  const word = TERM_WORDS.filter((termWord) => text.indexOf(termWord) !== -1)[0];
+  return word ? TERM_WORDS.indexOf(word) + 1 : null;
+};
+
+// "3", "Week 3" and "Wk 3" are all week 3
+const parseWeek = (value: string): number | null => {
+  const digits = /\d+/.exec(value);
+  return digits ? Number(digits[0]) : null;
+};
+
+const joinText = (first: string | null, second: string): string => (first ? `${first}; ${second}` : second);
+
+export const spreadsheetToCurriculum = (table: SpreadsheetTable, mapping: ColumnMapping): SpreadsheetResult => {
+  const result: SpreadsheetResult = { levels: [], json: "", issues: [], errors: [] };
+
+  const missing = missingFields(mapping, table.headers);
+  if (missing.length > 0) {
+    result.errors.push(`No column mapped for: ${missing.join(", ")}`);
+    return result;
+  }
+
+  const column = (field: SpreadsheetField): number => (mapping[field] ? table.headers.indexOf(mapping[field] as string) : -1);
+  const cell = (row: string[], field: SpreadsheetField): string => {
+    const index = column(field);
+    return index === -1 || row[index] === undefined ? "" : String(row[index]).trim();
+  };
+
+  table.rows.forEach((row, index) => {
+    if (isBlank(row)) return;
+    const context: IssueContext = { path: `row ${table.headerRow + index + 1}`, issues: result.issues };
+
+    const educationalLevel = cell(row, 'educational_level');
+    const subjectName = cell(row, 'subject_name');
+    if (!educationalLevel || !subjectName) {
+      reportIssue(context, 'warning', 'dropped', "Row has no educational level or subject");
+      return;
+    }
+
+    const term = parseTerm(cell(row, 'term'));
+    if (term === null || term < 1 || term > MAX_TERMS) {
+      reportIssue(context, 'warning', 'dropped', `Term '${cell(row, 'term')}' is not between 1 and ${MAX_TERMS}`, 'term');
+      return;
+    }
+
+    const weekNumber = parseWeek(cell(row, 'week_number'));
+    if (weekNumber === null) {
+      reportIssue(context, 'warning', 'dropped', `Week '${cell(row, 'week_number')}' has no week number`, 'week_number');
+      return;
+    }
+
+    let level = result.levels.filter((candidate) => candidate.educational_level === educationalLevel)[0];
+    if (!level) {
+      level = { educational_level: educationalLevel, alternative_names: [], subjects: [] };
+      result.levels.push(level);
+    }
+
+    let subject: SubjectData = level.subjects.filter((candidate) => candidate.subject_name === subjectName)[0];
+    if (!subject) {
+      subject = {
+        subject_name: subjectName,
+        introduction: "",
+        term_1_weeks: [],
+        term_2_weeks: [],
+        term_3_weeks: [],
+        recommended_books: [],
+      };
+      level.subjects.push(subject);
+    }
+
+    const topic = cell(row, 'topic');
+    const breakdown = cell(row, 'breakdown');
+    const note = cell(row, 'note');
+    // The standard three terms are always written, any further term once it has a week
+    if (!subject[termKey(term)]) subject[termKey(term)] = [];
+    const weeks = subject[termKey(term)];
+    const existing = weeks.filter((week) => week.week_number === weekNumber)[0];
+
+    // Several rows for one week (one per sub-topic, say) make a single week
+    if (existing) {
+      if (!existing.topic && topic) existing.topic = topic;
+      if (breakdown) existing.breakdown = joinText(existing.breakdown, breakdown);
+      if (note) existing.note = joinText(existing.note, note);
+      reportIssue(context, 'info', 'auto-fixed', `Merged into term ${term} week ${weekNumber} of ${subjectName}`);
+      return;
+    }
+
+    const week: WeekData = {
+      week_number: weekNumber,
+      topic: topic || null,
+      breakdown: breakdown || null,
+      note: note || null,
+    };
+    weeks.push(week);
+  });
+
+  if (result.levels.length === 0) {
+    result.errors.push("No rows with a level, subject, term and week were found");
+    return result;
+  }
+
+  result.json = JSON.stringify(result.levels, null, 2);
+  return result;
+};
@@ -0,0 +1,293 @@
+import fc from "fast-check";
+import initSqlJs, { SqlJsStatic } from "sql.js";
+import { beforeAll, describe, expect, it } from "vitest";
+import { convertCurriculum, ConvertOptions } from "./convert";
+import { commentText, Dialect, getDialect, parameterize, SqlDialect } from "./dialects";
+import { reverseCurriculum } from "./reverse";
+import { generateEducationalLevelStatements, sanitizeString } from "./sql";
+import { EducationalLevelData, NormalizedLevel } from "./types";
+
+// Property tests for the SQL writers: any Unicode text the converter stores
+// must reach the database exactly, and nothing in a name or text may end a
+// literal or a comment early.
+
+// Pieces with a meaning in some dialect's literals or comments
+const SPECIAL = [
+  "'", "''", "\\", "\\'", "\\\\", "$", "$$", "$q$", "$q1$", "N'", "E'", "--", "/*", "*/", ";",
+  "\n", "\r", "\r\n", "\t", "\0", "\b", "\f", "\x1a", "\x7f", "\u0085", "\u2028", "\u2029", "\ufeff",
+  "\nDROP TABLE curriculum_data; --", "\r\nDELETE FROM curriculum_data; --",
+];
+
+// PostgreSQL text cannot hold NUL, which its literals leave out
+const textArbitrary = (nul: boolean): fc.Arbitrary<string> => {
+  const piece = fc.oneof(fc.string({ unit: "binary" }), fc.constantFrom(...SPECIAL));
+  return fc.array(piece, { maxLength: 6 })
+    .map((pieces) => pieces.join(""))
+    .map((value) => nul ? value : value.split("\0").join(""));
+};
+
+// A non-empty name, as the converter requires
+const nameArbitrary = (nul: boolean): fc.Arbitrary<string> => {
+  return textArbitrary(nul).filter((value) => sanitizeString(value) !== "");
+};
+
+const levelArbitrary = (nul: boolean): fc.Arbitrary<EducationalLevelData> => {
+  return fc.record({
+    level: nameArbitrary(nul),
+    subject: nameArbitrary(nul),
+    introduction: textArbitrary(nul),
+    topic: nameArbitrary(nul),
+    breakdown: nameArbitrary(nul),
+    title: nameArbitrary(nul),
+  }).map(({ level, subject, introduction, topic, breakdown, title }) => ({
+    educational_level: level,
+    alternative_names: [],
+    subjects: [{
+      subject_name: subject,
+      introduction,
+      term_1_weeks: [{ week_number: 1, topic, breakdown, note: null }],
+      term_2_weeks: [],
+      term_3_weeks: [],
+      recommended_books: [{ title, author: "Author", isbn: "", isbn_valid: false }],
+    }],
+  }));
+};
+
+const VARIANTS: Array<{ name: string, dialect: SqlDialect, options: ConvertOptions }> = [
+  { name: "postgresql", dialect: 'postgresql', options: { dialect: 'postgresql' } },
+  { name: "postgresql with dollar quotes", dialect: 'postgresql', options: { dialect: 'postgresql', stringLiterals: 'dollar' } },
+  { name: "mysql", dialect: 'mysql', options: { dialect: 'mysql' } },
+  { name: "sqlite", dialect: 'sqlite', options: { dialect: 'sqlite' } },
+  { name: "sqlserver", dialect: 'sqlserver', options: { dialect: 'sqlserver' } },
+];
+
+const convert = (level: EducationalLevelData, options: ConvertOptions) => {
+  const result = convertCurriculum([level], { lint: false, ...options });
+  expect(result.errors).toEqual([]);
+  // Names and texts are kept as given
+  const subject = result.levels[0].subjects[0];
+  expect(subject.subject_name).toBe(level.subjects[0].subject_name);
+  expect(subject.term_1_weeks[0].topic).toBe(level.subjects[0].term_1_weeks[0].topic);
+  return result;
+};
+
+// What the insert script of a converted level stores, shaped like the levels
+// read back from it. Only the introduction is trimmed on the way.
+const stored = (level: NormalizedLevel): EducationalLevelData => ({
+  educational_level: level.educational_level,
+  alternative_names: level.alternative_names,
+  subjects: level.subjects.map((subject) => {
+    const { educational_level, alternative_names, ...rest } = subject;
+    return { ...rest, introduction: sanitizeString(subject.introduction) };
+  }),
+});
+
+// SQLite reads text back only up to a NUL, so text is compared as UTF-8 bytes
+const hex = (value: string): string => Buffer.from(value, "utf8").toString("hex").toUpperCase();
+
+describe("commentText", () => {
+  it("never contains a line break or control character", () => {
+    fc.assert(fc.property(textArbitrary(true), (value) => {
+      expect(commentText(value)).not.toMatch(/[\x00-\x08\x0a-\x1f\x7f\u0085\u2028\u2029]/);
+    }));
+  });
+});
+
+describe("checkPostgresText", () => {
+  it("reports where PostgreSQL output leaves NUL out", () => {
+    const level: EducationalLevelData = {
+      educational_level: "Primary\u00001",
+      alternative_names: ["P1", "Basic\u00001"],
+      subjects: [{
+        subject_name: "Mathematics",
+        introduction: "Numbers\u0000",
+        term_1_weeks: [{ week_number: 1, topic: "Counting", breakdown: "Count\u0000 to 10", note: "\u0000" }],
+        term_2_weeks: [],
+        term_3_weeks: [],
+        recommended_books: [{ title: "New Maths", author: "A.\u0000Author", isbn: "", isbn_valid: false }],
+      }],
+    };
+    const message = "NUL characters removed; PostgreSQL text cannot hold them";
+    expect(convert(level, { dialect: 'postgresql' }).issues.filter((issue) => issue.message === message).map((issue) => issue.path)).toEqual([
+      "[0].educational_level",
+      "[0].alternative_names[1]",
+      "[0].subjects[0].introduction",
+      "[0].subjects[0].term_1_weeks[0].breakdown",
+      "[0].subjects[0].term_1_weeks[0].note",
+      "[0].subjects[0].recommended_books[0].author",
+    ]);
+    // Other dialects store NUL as it is
+    expect(convert(level, { dialect: 'sqlite' }).issues.filter((issue) => issue.message === message)).toEqual([]);
+  });
+});
+
+describe.each(VARIANTS)("$name", ({ dialect, options }) => {
+  it("reads every text back exactly from the insert script", () => {
+    fc.assert(fc.property(levelArbitrary(dialect !== 'postgresql'), (level) => {
+      const result = convert(level, options);
+      const reversed = reverseCurriculum(result.sql, { dialect });
+      expect(reversed.errors).toEqual([]);
+      expect(reversed.levels).toEqual(result.levels.map(stored));
+      // Converting what was read back reproduces the script
+      expect(convert(reversed.levels[0], options).sql).toBe(result.sql);
+    }));
+  });
+});
+
+describe("parameterized statements", () => {
+  const level = (): EducationalLevelData => ({
+    educational_level: "Primary 1",
+    alternative_names: ["P1"],
+    subjects: ["Mathematics", "English", "Science"].map((subject) => ({
+      subject_name: subject,
+      introduction: `${subject} for beginners`,
+      term_1_weeks: [{ week_number: 1, topic: "Overview", breakdown: "What the term covers", note: null }],
+      term_2_weeks: [],
+      term_3_weeks: [],
+      recommended_books: [],
+    })),
+  });
+
+  // The placeholders of a statement in the order they appear
+  const PLACEHOLDER = /\$\d+(::jsonb)?|\?|@p\d+/g;
+
+  it.each([
+    ['postgresql', (index: number, json: boolean) => `$${index}${json ? "::jsonb" : ""}`],
+    ['mysql', () => "?"],
+    ['sqlite', () => "?"],
+    ['sqlserver', (index: number) => `@p${index}`],
+  ] as const)("bind one value per placeholder in %s", (dialect, placeholder) => {
+    const [normalized] = convert(level(), { dialect }).levels;
+    const statements = generateEducationalLevelStatements(normalized, dialect, 2, { extraColumns: { tenant_id: 42, active: true } });
+    expect(statements.map((statement) => statement.values.length)).toEqual([16, 8]);
+
+    // Each row binds its texts and JSON in column order; constants stay inline
+    const json = [false, false, true, false, true, true, true, true];
+    statements.forEach((statement) => {
+      expect(statement.text.match(PLACEHOLDER)).toEqual(statement.values.map((_, index) => placeholder(index + 1, json[index % 8])));
+      expect(statement.text).toContain("42");
+      expect(statement.text).not.toContain("Primary 1");
+    });
+    expect(statements[0].values.slice(0, 4)).toEqual(["Primary 1", "Mathematics", "[\"P1\"]", "Mathematics for beginners"]);
+    expect(statements[0].values.slice(8, 12)).toEqual(["Primary 1", "English", "[\"P1\"]", "English for beginners"]);
+    expect(statements[1].values.slice(0, 4)).toEqual(["Primary 1", "Science", "[\"P1\"]", "Science for beginners"]);
+  });
+
+  it("bind values as the dialect's literals store them", () => {
+    const render = (parameters: Dialect) => [
+      `SELECT ${parameters.text("a\0b")}, ${parameters.json("{\"a\":\"\\u0000\"}")}, ${parameters.boolean(true)};`,
+    ];
+    expect(parameterize(getDialect('postgresql'), render)).toEqual({ text: "SELECT $1, $2::jsonb, TRUE;", values: ["ab", "{\"a\":\"\"}"] });
+    expect(parameterize(getDialect('sqlite'), render)).toEqual({ text: "SELECT ?, ?, 1;", values: ["a\0b", "{\"a\":\"\\u0000\"}"] });
+  });
+});
+
+describe("sqlite scripts run against SQLite", () => {
+  let SQL: SqlJsStatic;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+  });
+
+  const run = (script: string, query: string): unknown[][] => {
+    const db = new SQL.Database();
+    try {
+      db.exec(script);
+      const results = db.exec(query);
+      return results.length > 0 ? results[0].values : [];
+    } finally {
+      db.close();
+    }
+  };
+
+  it("stores every text exactly", () => {
+    fc.assert(fc.property(levelArbitrary(true), (level) => {
+      const result = convert(level, { dialect: 'sqlite', includeSchema: true });
+      const rows = run(
+        `${result.schema}\n${result.sql}`,
+        "SELECT hex(educational_level), hex(subject_name), hex(introduction), term_1_weeks, recommended_books FROM curriculum_data",
+      );
+      const subject = result.levels[0].subjects[0];
+      expect(rows).toHaveLength(1);
+      expect(rows[0][0]).toBe(hex(subject.educational_level));
+      expect(rows[0][1]).toBe(hex(subject.subject_name));
+      expect(rows[0][2]).toBe(hex(sanitizeString(subject.introduction)));
+      expect(JSON.parse(rows[0][3] as string)).toEqual(subject.term_1_weeks);
+      expect(JSON.parse(rows[0][4] as string)).toEqual(subject.recommended_books);
+    }));
+  });
+
+  it("keeps names in comments from running as statements", () => {
+    fc.assert(fc.property(levelArbitrary(true), nameArbitrary(true), (level, sourceFile) => {
+      const result = convert(level, {
+        dialect: 'sqlite',
+        includeSchema: true,
+        provenance: { store: 'table', sourceFile },
+        // Nothing was stored before, so the rollback deletes what the script adds
+        snapshot: [],
+      });
+      const script = `${result.schema}\n${result.sql}`;
+      expect(run(script, "SELECT count(*) FROM curriculum_data")).toEqual([[1]]);
+      expect(run(script, "SELECT hex(source_file) FROM curriculum_imports")).toEqual([[hex(sourceFile)]]);
+      // The rollback removes exactly what the script added
+      expect(run(`${script}\n${result.rollback}`, "SELECT count(*) FROM curriculum_data")).toEqual([[0]]);
+    }));
+  });
+
+  it("keeps names in comments of the relational script from running as statements", () => {
+    fc.assert(fc.property(levelArbitrary(true), (level) => {
+      const result = convert(level, { dialect: 'sqlite', outputMode: 'relational', includeSchema: true });
+      const rows = run(`${result.schema}\n${result.sql}`, "SELECT hex(subject_name) FROM subjects");
+      expect(rows).toEqual([[hex(level.subjects[0].subject_name)]]);
+    }));
+  });
+
+  it("stores every text exactly through bound parameters", () => {
+    // sql.js binds text only up to a NUL, so the property leaves NUL out
+    fc.assert(fc.property(levelArbitrary(false), nameArbitrary(false), (level, sourceFile) => {
+      const result = convert(level, { dialect: 'sqlite', includeSchema: true, provenance: { store: 'table', sourceFile } });
+      const query = "SELECT hex(educational_level), hex(subject_name), hex(introduction), term_1_weeks, recommended_books FROM curriculum_data";
+      const db = new SQL.Database();
+      try {
+        db.exec(result.schema);
+        // The upsert, then the curriculum_imports row
+        expect(result.parameterized).toHaveLength(2);
+        result.parameterized.forEach((statement) => db.run(statement.text, statement.values));
+        expect(db.exec(query)[0].values).toEqual(run(`${result.schema}\n${result.sql}`, query));
+        expect(db.exec("SELECT hex(source_file) FROM curriculum_imports")[0].values).toEqual([[hex(sourceFile)]]);
+      } finally {
+        db.close();
+      }
+    }));
+  });
+
+  it("runs the verification query against a configured table without the standard columns", () => {
+    const level: EducationalLevelData = {
+      educational_level: "Primary 1",
+      alternative_names: [],
+      subjects: [{
+        subject_name: "Mathematics",
+        introduction: "Numbers",
+        term_1_weeks: [{ week_number: 1, topic: "Counting", breakdown: "Count to 10", note: null }],
+        term_2_weeks: [],
+        term_3_weeks: [],
+        recommended_books: [],
+      }],
+    };
+    const result = convert(level, {
+      dialect: 'sqlite',
+      target: {
+        table: "lessons",
+        columns: { educational_level: "level", subject_name: "subject", term_1_weeks: "weeks", term_2_weeks: "weeks", term_3_weeks: "weeks" },
+        updatedAtColumn: null,
+      },
+    });
+    const table = [
+      "CREATE TABLE lessons (level TEXT NOT NULL, alternative_names TEXT, subject TEXT NOT NULL, introduction TEXT,",
+      "  weeks TEXT, recommended_books TEXT, UNIQUE (level, subject));",
+    ].join("\n");
+    expect(run(`${table}\n${result.sql}`, result.verification)).toEqual([
+      ["Primary 1", "Mathematics", 7, 1, 0, 0, 0],
+    ]);
+  });
+});
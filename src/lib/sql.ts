@@ -0,0 +1,387 @@
+import { batchItems } from "./batching";
+import {
+  commentText,
+  Dialect,
+  getDialect,
+  keyCondition,
+  parameterize,
+  ParameterizedStatement,
+  SqlDialect,
+  StringLiteralStyle,
+  UpsertStatement,
+} from "./dialects";
+import { DEFAULT_TERMS, termNumber } from "./terms";
+import { NormalizedLevel, SubjectRecord, TermLayout } from "./types";
+import { generateExpectedCountsSQL } from "./verification";
+
+// Line breaks are kept: the literals of every dialect preserve them
+export const sanitizeString = (str: string): string => {
+  if (typeof str !== 'string') return String(str);
+  return str.trim();
+};
+
+export const CURRICULUM_TABLE = "curriculum_data";
+
+export type ColumnType = 'key' | 'text' | 'json';
+
+export interface CurriculumColumn {
+  name: string;
+  type: ColumnType;
+}
+
+// Columns written by the upsert, in statement order, with one week column
+// per term. The schema generator builds the table from the same list.
+export const curriculumColumns = (terms: TermLayout = DEFAULT_TERMS): CurriculumColumn[] => [
+  { name: "educational_level", type: 'key' },
+  { name: "subject_name", type: 'key' },
+  { name: "alternative_names", type: 'json' },
+  { name: "introduction", type: 'text' },
+  ...terms.keys.map((termKey): CurriculumColumn => ({ name: termKey, type: 'json' })),
+  { name: "recommended_books", type: 'json' },
+];
+
+// The columns of the standard three terms
+export const CURRICULUM_COLUMNS = curriculumColumns();
+
+export const CONFLICT_COLUMNS = CURRICULUM_COLUMNS
+  .filter((column) => column.type === 'key')
+  .map((column) => column.name);
+
+export const UPDATED_AT_COLUMN = "updated_at";
+
+export type CurriculumField = keyof SubjectRecord;
+
+// A constant written to every row: a literal, or a raw SQL expression.
+// `timestamp` gives an expression's column the dialect's timestamp type in the schema.
+export type ConstantValue = string | number | boolean | null | { sql: string, timestamp?: boolean };
+
+// Where curriculum_data rows are written. Every setting defaults to the
+// standard table, so an empty target changes nothing.
+export interface TargetSchema {
+  table?: string;
+  // Schema qualifier, e.g. "staging" for staging.curriculum_data
+  schema?: string;
+  // Column name per field. JSON fields may share a column, which then holds
+  // an object keyed by field name (e.g. every term_N_weeks in term_weeks).
+  columns?: Partial<Record<CurriculumField, string>>;
+  // Columns identifying a row for the upsert and the rollback, defaults to
+  // the educational level and subject name columns
+  conflictColumns?: string[];
+  // Constant columns added to every row, e.g. { "tenant_id": 42 }
+  extraColumns?: Record<string, ConstantValue>;
+  // Column touched when a row is updated, null for none. Defaults to updated_at.
+  updatedAtColumn?: string | null;
+  // What it is set to, defaults to the dialect's current time
+  updatedAtExpression?: string;
+}
+
+export interface TargetColumn {
+  name: string;
+  type: ColumnType;
+  // More than one for a combined JSON column
+  fields: CurriculumField[];
+}
+
+export interface ResolvedTarget {
+  // As written in statements, with the schema qualifier
+  table: string;
+  // Without the schema qualifier
+  tableName: string;
+  schema?: string;
+  // Curriculum columns in curriculumColumns order
+  columns: TargetColumn[];
+  // The terms the week columns are written for
+  terms: TermLayout;
+  extraColumns: Array<{ name: string, value: ConstantValue }>;
+  conflictColumns: string[];
+  updatedAtColumn: string | null;
+  updatedAtExpression?: string;
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export const resolveTarget = (target: TargetSchema = {}, terms: TermLayout = DEFAULT_TERMS): ResolvedTarget => {
+  const names = target.columns || {};
+  const columns: TargetColumn[] = [];
+  curriculumColumns(terms).forEach((column) => {
+    const field = column.name as CurriculumField;
+    const name = names[field] || column.name;
+    const shared = columns.filter((candidate) => candidate.name === name)[0];
+    if (shared) {
+      shared.fields.push(field);
+    } else {
+      columns.push({ name, type: column.type, fields: [field] });
+    }
+  });
+
+  const tableName = target.table || CURRICULUM_TABLE;
+  const extras = target.extraColumns || {};
+  return {
+    table: target.schema ? `${target.schema}.${tableName}` : tableName,
+    tableName,
+    schema: target.schema,
+    columns,
+    terms,
+    extraColumns: Object.keys(extras).map((name) => ({ name, value: extras[name] })),
+    conflictColumns: target.conflictColumns || [
+      names.educational_level || "educational_level",
+      names.subject_name || "subject_name",
+    ],
+    updatedAtColumn: target.updatedAtColumn === undefined ? UPDATED_AT_COLUMN : target.updatedAtColumn,
+    updatedAtExpression: target.updatedAtExpression,
+  };
+};
+
+// Problems that would make the generated statements invalid
+export const validateTarget = (target: TargetSchema = {}, terms: TermLayout = DEFAULT_TERMS): string[] => {
+  if (typeof target !== 'object' || target === null || Array.isArray(target)) return ["Target schema must be an object"];
+  const errors: string[] = [];
+  const checkName = (name: unknown, label: string) => {
+    if (typeof name !== 'string' || !IDENTIFIER.test(name)) {
+      errors.push(`${label} '${String(name)}' must be a plain identifier (letters, digits and _)`);
+    }
+  };
+
+  if (target.table !== undefined) checkName(target.table, "Table name");
+  if (target.schema !== undefined) checkName(target.schema, "Schema");
+  const names = target.columns || {};
+  Object.keys(names).forEach((field) => {
+    if (!curriculumColumns(terms).some((column) => column.name === field)) {
+      errors.push(`Unknown field '${field}' in columns`);
+    } else {
+      checkName(names[field as CurriculumField], `Column for ${field}`);
+    }
+  });
+  if (errors.length > 0) return errors;
+
+  const resolved = resolveTarget(target, terms);
+  resolved.columns
+    .filter((column) => column.fields.length > 1 && column.type !== 'json')
+    .forEach((column) => errors.push(`Only JSON fields can share a column; ${column.fields.join(", ")} all map to '${column.name}'`));
+
+  resolved.extraColumns.forEach(({ name, value }) => {
+    checkName(name, "Extra column");
+    if (value !== null && typeof value === 'object'
+      && (typeof value.sql !== 'string' || (value.timestamp !== undefined && typeof value.timestamp !== 'boolean'))) {
+      errors.push(`Extra column '${name}' must be a string, number, boolean, null or { "sql": "...", "timestamp"?: true }`);
+    }
+  });
+
+  const written = [
+    ...resolved.columns.map((column) => column.name),
+    ...resolved.extraColumns.map((column) => column.name),
+  ];
+  written
+    .filter((name, index) => written.indexOf(name) !== index)
+    .forEach((name) => errors.push(`Column '${name}' is written twice`));
+
+  resolved.conflictColumns.forEach((name) => {
+    if (written.indexOf(name) === -1) errors.push(`Conflict column '${name}' is not written by the upsert`);
+  });
+  if (resolved.conflictColumns.length === 0) errors.push("At least one conflict column is needed");
+
+  if (resolved.updatedAtColumn !== null) {
+    checkName(resolved.updatedAtColumn, "updated_at column");
+    if (written.indexOf(resolved.updatedAtColumn) !== -1) {
+      errors.push(`updated_at column '${resolved.updatedAtColumn}' is also written by the upsert`);
+    }
+  }
+  return errors;
+};
+
+// The column holding a field
+export const targetColumn = (target: ResolvedTarget, field: CurriculumField): TargetColumn => {
+  return target.columns.filter((column) => column.fields.indexOf(field) !== -1)[0];
+};
+
+const fieldJson = (subject: SubjectRecord, field: CurriculumField): unknown => {
+  return field === 'introduction' ? sanitizeString(subject.introduction) : subject[field];
+};
+
+export const constantValue = (value: ConstantValue, dialect: Dialect): string => {
+  if (value === null) return "NULL";
+  if (typeof value === 'object') return value.sql;
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'boolean') return dialect.boolean(value);
+  return dialect.text(value);
+};
+
+// Rendered value of one curriculum column for a subject
+const columnValue = (column: TargetColumn, subject: SubjectRecord, dialect: Dialect): string => {
+  if (column.type !== 'json') return dialect.text(String(fieldJson(subject, column.fields[0])));
+  // Week lists are indented for readability
+  const terms = column.fields.some((field) => termNumber(field) !== null);
+  if (column.fields.length === 1) return dialect.json(JSON.stringify(fieldJson(subject, column.fields[0]), null, terms ? 8 : undefined));
+
+  const combined: Record<string, unknown> = {};
+  column.fields.forEach((field) => {
+    combined[field] = fieldJson(subject, field);
+  });
+  return dialect.json(JSON.stringify(combined, null, terms ? 8 : undefined));
+};
+
+// Rendered values for a curriculum_data row, in curriculumColumns order,
+// followed by the target's extra columns
+export const curriculumRowValues = (
+  subject: SubjectRecord,
+  dialect: Dialect,
+  target: ResolvedTarget = resolveTarget(),
+): string[] => [
+  ...target.columns.map((column) => columnValue(column, subject, dialect)),
+  ...target.extraColumns.map((column) => constantValue(column.value, dialect)),
+];
+
+// Column names matching curriculumRowValues
+export const curriculumRowColumns = (target: ResolvedTarget = resolveTarget()): string[] => [
+  ...target.columns.map((column) => column.name),
+  ...target.extraColumns.map((column) => column.name),
+];
+
+// `level = x AND subject = y` (plus any other conflict columns) for a subject's row
+export const rowCondition = (subject: SubjectRecord, dialect: Dialect, target: ResolvedTarget = resolveTarget()): string => {
+  const columns = curriculumRowColumns(target);
+  const values = curriculumRowValues(subject, dialect, target);
+  return keyCondition(target.conflictColumns, target.conflictColumns.map((name) => values[columns.indexOf(name)]));
+};
+
+// A stored row read through the target's column names, with combined JSON
+// columns split back into their fields
+export const fromTargetRow = (row: Record<string, unknown>, target: ResolvedTarget): Record<string, unknown> => {
+  const record: Record<string, unknown> = {};
+  target.columns.forEach((column) => {
+    // Unquoted identifiers come back lowercased from most databases
+    const value = row[column.name] !== undefined ? row[column.name] : row[column.name.toLowerCase()];
+    if (column.fields.length === 1) {
+      record[column.fields[0]] = value;
+      return;
+    }
+    let combined = value;
+    if (typeof combined === 'string') {
+      try {
+        combined = JSON.parse(combined);
+      } catch (error) {
+        combined = null;
+      }
+    }
+    column.fields.forEach((field) => {
+      record[field] = combined !== null && typeof combined === 'object'
+        ? (combined as Record<string, unknown>)[field]
+        : value;
+    });
+  });
+  return record;
+};
+
+// The upsert of a batch of subjects of the same level
+const subjectsUpsert = (subjects: SubjectRecord[], dialect: Dialect, target: ResolvedTarget): UpsertStatement => {
+  const columns = curriculumRowColumns(target);
+  return {
+    table: target.table,
+    columns,
+    rows: subjects.map((subject) => curriculumRowValues(subject, dialect, target)),
+    conflictColumns: target.conflictColumns,
+    updateColumns: columns.filter((column) => target.conflictColumns.indexOf(column) === -1),
+    touchColumn: target.updatedAtColumn || undefined,
+    touchExpression: target.updatedAtExpression,
+  };
+};
+
+const generateSubjectsSQL = (subjects: SubjectRecord[], dialect: Dialect, target: ResolvedTarget): string[] => {
+  const educationalLevel = subjects[0].educational_level;
+  const subjectNames = subjects.map((subject) => subject.subject_name);
+
+  return [
+    subjects.length === 1
+      ? `-- Insert ${commentText(educationalLevel)} ${commentText(subjectNames[0])} curriculum`
+      : `-- Insert ${commentText(educationalLevel)} curriculum: ${commentText(subjectNames.join(", "))}`,
+    ...dialect.upsert(subjectsUpsert(subjects, dialect, target)),
+    "",
+  ];
+};
+
+// The upserts of generateEducationalLevelSQL with placeholders instead of
+// literals, batched the same way, to run through a database driver
+export const generateEducationalLevelStatements = (
+  level: NormalizedLevel,
+  dialectId?: SqlDialect,
+  batchSize = 1,
+  targetSchema?: TargetSchema,
+): ParameterizedStatement[] => {
+  const dialect = getDialect(dialectId);
+  const target = resolveTarget(targetSchema, level.terms);
+  return batchItems(level.subjects, batchSize, (subject) => subject.subject_name).map((subjects) => (
+    parameterize(dialect, (parameters) => parameters.upsert(subjectsUpsert(subjects, parameters, target)))
+  ));
+};
+
+// `batchSize` is the number of subjects per multi-row upsert
+export const generateEducationalLevelSQL = (
+  level: NormalizedLevel,
+  dialectId?: SqlDialect,
+  batchSize = 1,
+  targetSchema?: TargetSchema,
+  literals?: StringLiteralStyle,
+): { sql: string[], verification: string[] } => {
+  const dialect = getDialect(dialectId, literals);
+  const target = resolveTarget(targetSchema, level.terms);
+  const educationalLevel = level.educational_level;
+  const sqlStatements: string[] = [];
+  const verificationStatements: string[] = [];
+
+  // Add header
+  sqlStatements.push(
+    "-- =====================================================",
+    `-- ${commentText(educationalLevel).toUpperCase()} CURRICULUM DATA - SQL INSERT STATEMENTS`,
+    "-- =====================================================",
+    `-- Copy and paste this entire script into ${dialect.target}`,
+    `-- and ${dialect.runAction} to insert the ${commentText(educationalLevel)} curriculum data`,
+    "-- =====================================================",
+    "",
+  );
+
+  batchItems(level.subjects, batchSize, (subject) => subject.subject_name).forEach((subjects) => {
+    sqlStatements.push(...generateSubjectsSQL(subjects, dialect, target));
+  });
+
+  const levelColumn = targetColumn(target, 'educational_level').name;
+  const subjectColumn = targetColumn(target, 'subject_name').name;
+  // Rows of other tenants (or whatever the constant conflict columns scope) are left out
+  const scope = target.extraColumns
+    .filter((column) => target.conflictColumns.indexOf(column.name) !== -1)
+    .map((column) => `${column.name} = ${constantValue(column.value, dialect)}`);
+  const arrayLength = (field: CurriculumField, alias = "") => {
+    const column = targetColumn(target, field);
+    return dialect.jsonArrayLength(`${alias}${column.name}`, column.fields.length > 1 ? field : undefined);
+  };
+
+  // Add verification queries
+  verificationStatements.push(
+    "-- =====================================================",
+    "-- VERIFICATION QUERY",
+    "-- =====================================================",
+    "-- Run this to confirm the data was inserted correctly",
+    "",
+    "-- Check for your specific educational level",
+    // Only columns the target defines, so it runs against an existing table
+    "SELECT",
+    `    ${levelColumn},`,
+    `    ${subjectColumn},`,
+    `    ${dialect.textLength(targetColumn(target, 'introduction').name)} as intro_length,`,
+    ...target.terms.keys.map((termKey, index) => `    ${arrayLength(termKey)} as term${index + 1}_weeks_count,`),
+    `    ${arrayLength('recommended_books')} as books_count${target.updatedAtColumn ? "," : ""}`,
+    ...(target.updatedAtColumn ? [`    ${target.updatedAtColumn}`] : []),
+    `FROM ${target.table}`,
+    `WHERE ${[`${levelColumn} = ${dialect.text(educationalLevel)}`, ...scope].join(" AND ")}`,
+    `ORDER BY ${subjectColumn};`,
+    ...generateExpectedCountsSQL(level, dialect, {
+      table: target.table,
+      termWeeks: (term) => arrayLength(target.terms.keys[term - 1], "c."),
+      books: arrayLength('recommended_books', "c."),
+      levelColumn,
+      subjectColumn,
+      conditions: scope.map((condition) => `c.${condition}`),
+    }),
+  );
+
+  return { sql: sqlStatements, verification: verificationStatements };
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { convertCurriculum } from "./convert";
+import { convertJsonLines } from "./ndjson";
+import { createStreamConverter, StreamFormat } from "./stream";
+
+const level = (name: string): string => JSON.stringify({
+  educational_level: name,
+  alternative_names: [],
+  subjects: [{
+    subject_name: "Mathematics",
+    introduction: "Numbers",
+    term_1_weeks: [{ week_number: 1, topic: "Counting", breakdown: "1 to 10", note: null }],
+    term_2_weeks: [],
+    term_3_weeks: [],
+    recommended_books: [],
+  }],
+});
+
+// Converts `text` in chunks of `size` characters
+const stream = (text: string, size: number, format: StreamFormat) => {
+  let sql = "";
+  const converter = createStreamConverter({ dialect: 'sqlite' }, { sql: (part) => { sql += part; } }, format);
+  for (let i = 0; i < text.length; i += size) {
+    converter.write(text.slice(i, i + size));
+  }
+  const summary = converter.end();
+  return { sql, summary };
+};
+
+describe("streaming JSON Lines", () => {
+  const input = [
+    level("Primary 1"),
+    level("Primary 2").slice(0, 40),
+    "",
+    "not json",
+    level("Primary 4"),
+    JSON.stringify({ educational_level: "Primary 5" }),
+    level("Primary 6"),
+  ].join("\r\n");
+
+  it.each([1, 7, input.length])("reports each broken line on its own in chunks of %i", (size) => {
+    const { summary } = stream(input, size, 'json-lines');
+    expect(summary.items).toBe(6);
+    expect(summary.levels).toBe(3);
+    expect(summary.errors).toEqual(convertJsonLines(input).errors);
+  });
+
+  it("converts the lines that can be read like convertJsonLines", () => {
+    const lines = [level("Primary 1"), level("Primary 2")].join("\n");
+    expect(stream(lines, 5, 'json-lines').sql).toBe(convertJsonLines(lines, { dialect: 'sqlite' }).sql);
+  });
+});
+
+describe("streaming JSON", () => {
+  const input = `[${level("Primary 1")}, {"educational_level": "Broken"}, ${level("Primary 2")}]`;
+
+  it.each(['none', 'script', 'level'] as const)("writes what convertCurriculum writes with transaction %s", (transaction) => {
+    const options = { dialect: 'postgresql' as const, transaction, includeSchema: true, provenance: { importedAt: "2024-01-01T00:00:00.000Z" } };
+    const written = { sql: "", verification: "", rollback: "" };
+    const converter = createStreamConverter(options, {
+      sql: (part) => { written.sql += part; },
+      verification: (part) => { written.verification += part; },
+      rollback: (part) => { written.rollback += part; },
+    });
+    for (let i = 0; i < input.length; i += 9) {
+      converter.write(input.slice(i, i + 9));
+    }
+    converter.end();
+
+    const result = convertCurriculum(JSON.parse(input), options);
+    expect(written).toEqual({ sql: result.sql, verification: result.verification, rollback: result.rollback });
+  });
+});
@@ -0,0 +1,363 @@
+import {
+  ConvertOptions,
+  generateLevelScript,
+  generateSchema,
+  readLevel,
+  ROLLBACK_DELETES_ALL,
+  validateConvertOptions,
+} from "./convert";
+import { getDialect } from "./dialects";
+import { RunSummary, summarizeRuns } from "./provenance";
+import { parseSnapshot } from "./rollback";
+import { resolveTarget } from "./sql";
+import { resolveTerms } from "./terms";
+import { SubjectRecord } from "./types";
+import { IssueContext, IssueResolution, isFatal, reportIssue, ValidationIssue } from "./validation";
+
+// Streaming conversion for inputs too large to parse in one go. The input
+// arrives in text chunks; every top-level item (an element of a top-level
+// array, each value of a concatenated JSON file, or each line of JSON Lines
+// input) is parsed and converted on its own, and its SQL is handed to the
+// output callbacks right away. Memory use is bounded by the largest single
+// item, not the input.
+// An alias registry renames each item's level and subjects, but alias lists
+// are not merged and conflicts are not reported across items; merge
+// strategies are not available.
+
+// 'json-lines' takes every non-empty line as an item, like convertJsonLines;
+// 'json' finds the items by their brackets
+export type StreamFormat = 'json' | 'json-lines';
+
+// Where an item starts in the input
+export interface ItemPosition {
+  // 0-based position among the top-level items
+  index: number;
+  // 1-based line of the item's first character
+  line: number;
+}
+
+export interface ItemSplitter {
+  write: (chunk: string) => void;
+  // Reports input left unfinished at the end
+  end: () => void;
+}
+
+const isWhitespace = (char: string): boolean => char === " " || char === "\n" || char === "\r" || char === "\t" || char === "\uFEFF";
+
+// Splits JSON text into its top-level items without parsing them. Only string
+// and bracket boundaries are tracked, so malformed items are left for
+// JSON.parse to report.
+export const createItemSplitter = (
+  onItem: (text: string, position: ItemPosition) => void,
+  onError: (message: string, line: number) => void,
+): ItemSplitter => {
+  // 'start' until the first character decides between an array and a sequence of values
+  let mode: 'start' | 'array' | 'values' | 'closed' = 'start';
+  let line = 1;
+  let index = 0;
+  let depth = 0;
+  let inItem = false;
+  let inString = false;
+  let escaped = false;
+  // A bare number, true, false or null item
+  let scalar = false;
+  let itemLine = 1;
+  let pieces: string[] = [];
+  let trailingReported = false;
+
+  const emit = (text: string) => {
+    onItem(text, { index, line: itemLine });
+    index++;
+    inItem = false;
+    scalar = false;
+    pieces = [];
+  };
+
+  const write = (chunk: string) => {
+    let start = 0;
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (inItem) {
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (char === "\\") escaped = true;
+          else if (char === "\"") {
+            inString = false;
+            if (depth === 0) emit(pieces.join("") + chunk.slice(start, i + 1));
+          }
+        } else if (scalar) {
+          if (isWhitespace(char) || char === "," || char === "]") {
+            // The delimiter belongs to what follows the item
+            emit(pieces.join("") + chunk.slice(start, i));
+            i--;
+            continue;
+          }
+        } else if (char === "\"") {
+          inString = true;
+        } else if (char === "{" || char === "[") {
+          depth++;
+        } else if (char === "}" || char === "]") {
+          depth--;
+          if (depth === 0) emit(pieces.join("") + chunk.slice(start, i + 1));
+        }
+        if (char === "\n") line++;
+        continue;
+      }
+
+      if (char === "\n") line++;
+      if (isWhitespace(char)) continue;
+
+      if (mode === 'start') {
+        mode = char === "[" ? 'array' : 'values';
+        if (mode === 'array') continue;
+      }
+      if (mode === 'array' && char === ",") continue;
+      if (mode === 'array' && char === "]") {
+        mode = 'closed';
+        continue;
+      }
+      if (mode === 'closed') {
+        if (!trailingReported) onError("Unexpected content after the closing ]", line);
+        trailingReported = true;
+        continue;
+      }
+
+      // The first character of an item
+      inItem = true;
+      itemLine = line;
+      start = i;
+      if (char === "{" || char === "[") depth = 1;
+      else if (char === "\"") inString = true;
+      else scalar = true;
+    }
+    if (inItem) pieces.push(chunk.slice(start));
+  };
+
+  const end = () => {
+    if (inItem && scalar) {
+      emit(pieces.join(""));
+    } else if (inItem) {
+      onError("Unexpected end of input inside an item", itemLine);
+    } else if (mode === 'array') {
+      onError("Unexpected end of input: the top-level array is not closed", line);
+    }
+  };
+
+  return { write, end };
+};
+
+// Splits JSON Lines text into its non-empty lines without parsing them. A
+// broken line is left for JSON.parse to report and does not affect the lines
+// after it.
+export const createLineSplitter = (onItem: (text: string, position: ItemPosition) => void): ItemSplitter => {
+  let line = 1;
+  let index = 0;
+  let pieces: string[] = [];
+
+  const emit = (text: string) => {
+    const content = text.replace(/\r$/, "");
+    if (content.trim()) {
+      onItem(content, { index, line });
+      index++;
+    }
+    line++;
+  };
+
+  const write = (chunk: string) => {
+    let start = 0;
+    for (let newline = chunk.indexOf("\n"); newline !== -1; newline = chunk.indexOf("\n", start)) {
+      emit(pieces.join("") + chunk.slice(start, newline));
+      pieces = [];
+      start = newline + 1;
+    }
+    if (start < chunk.length) pieces.push(chunk.slice(start));
+  };
+
+  const end = () => {
+    emit(pieces.join(""));
+    pieces = [];
+  };
+
+  return { write, end };
+};
+
+// Receives the generated text as it is produced. Parts arrive in order and
+// already joined with the separating newlines.
+export interface StreamOutput {
+  sql: (text: string) => void;
+  verification?: (text: string) => void;
+  rollback?: (text: string) => void;
+  // Every validation issue, with its path in the whole input
+  issue?: (issue: ValidationIssue) => void;
+}
+
+export interface StreamProgress {
+  // Characters received so far
+  characters: number;
+  items: number;
+  levels: number;
+  subjects: number;
+}
+
+export interface StreamSummary extends StreamProgress {
+  // Items and input problems that stopped a conversion, prefixed with the line
+  errors: string[];
+  issueCounts: Record<IssueResolution, number>;
+  runs: RunSummary[];
+}
+
+export interface StreamConverter {
+  write: (chunk: string) => void;
+  end: () => StreamSummary;
+  progress: () => StreamProgress;
+}
+
+// Joins parts with newlines, like the `join("\n")` of convertCurriculum
+const joined = (write: (text: string) => void) => {
+  let first = true;
+  return (text: string) => {
+    write(first ? text : `\n${text}`);
+    first = false;
+  };
+};
+
+// Settings that need every item at once
+const unstreamable = (options: ConvertOptions): string[] => {
+  if (options.terms && options.terms.count === 'auto') {
+    return ["The number of terms cannot be detected while streaming; set it explicitly"];
+  }
+  if (options.merge) {
+    return ["Copies of a level cannot be merged while streaming; convert without a merge strategy"];
+  }
+  return [];
+};
+
+// convertCurriculum for a stream of text chunks. What is written for one input
+// is exactly convertCurriculum's `sql`, `verification` and `rollback` for it,
+// transactions and blank lines included; callers that write several inputs
+// one after another (like the CLI's --stream) add their own separators.
+// `chunkSize` and the diff are not available while streaming.
+export const createStreamConverter = (
+  options: ConvertOptions,
+  output: StreamOutput,
+  format: StreamFormat = 'json',
+): StreamConverter => {
+  const dialect = getDialect(options.dialect);
+  const importedAt = (options.provenance && options.provenance.importedAt) || new Date().toISOString();
+  const itemOptions: ConvertOptions = {
+    ...options,
+    provenance: { ...options.provenance, importedAt },
+  };
+  const streamErrors = unstreamable(options);
+  const summary: StreamSummary = {
+    characters: 0,
+    items: 0,
+    levels: 0,
+    subjects: 0,
+    errors: streamErrors.length > 0 ? streamErrors : validateConvertOptions(options),
+    issueCounts: { 'auto-fixed': 0, 'dropped': 0, 'reported': 0, 'fatal': 0 },
+    runs: [],
+  };
+  const failed = summary.errors.length > 0;
+
+  const sql = joined(output.sql);
+  const verification = joined(output.verification || (() => undefined));
+  const rollback = joined(output.rollback || (() => undefined));
+  let started = false;
+
+  const forward = (issues: ValidationIssue[]) => {
+    issues.forEach((issue) => {
+      summary.issueCounts[issue.resolution]++;
+      if (output.issue) output.issue(issue);
+    });
+  };
+
+  // Parsed once; an unreadable snapshot stops the conversion like it does in convertCurriculum
+  let snapshot: SubjectRecord[] | undefined;
+  if (!failed && options.snapshot !== undefined) {
+    const issues: ValidationIssue[] = [];
+    const target = options.outputMode === 'relational' ? undefined : resolveTarget(options.target, resolveTerms(options.terms));
+    snapshot = parseSnapshot(options.snapshot, { path: "snapshot", issues }, target);
+    forward(issues);
+    summary.errors.push(...issues.filter(isFatal).map((issue) => `${issue.path}: ${issue.message}`));
+  }
+  const stopped = summary.errors.length > 0;
+  if (!stopped && options.snapshot === undefined && options.deleteWithoutSnapshot) {
+    const context: IssueContext = { path: "snapshot", issues: [] };
+    reportIssue(context, 'warning', 'reported', ROLLBACK_DELETES_ALL);
+    forward(context.issues);
+  }
+
+  const convertItem = (text: string, position: ItemPosition) => {
+    summary.items++;
+    const where = `line ${position.line}`;
+    let item: unknown;
+    try {
+      item = JSON.parse(text);
+    } catch (error) {
+      summary.errors.push(`${where}: Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}`);
+      return;
+    }
+
+    // Issues of a line have its number as their path, as in convertJsonLines
+    const jsonLines = format === 'json-lines';
+    const context: IssueContext = { path: jsonLines ? where : `[${position.index}]`, issues: [] };
+    const level = readLevel(item, jsonLines ? "on this line" : `at index ${position.index}`, context, itemOptions, importedAt);
+    forward(context.issues);
+    const fatalIssues = context.issues.filter(isFatal);
+    if (fatalIssues.length > 0 || !level) {
+      summary.errors.push(...fatalIssues.map((issue) => `${jsonLines ? "" : `${where}: `}${issue.path}: ${issue.message}`));
+      return;
+    }
+
+    try {
+      const script = generateLevelScript(level, itemOptions, snapshot);
+      if (!started) {
+        started = true;
+        if (options.transaction === 'script') sql(dialect.beginTransaction);
+        rollback(`${dialect.beginTransaction}\n`);
+      }
+      sql(script.sql);
+      verification(script.verification);
+      rollback(script.rollback);
+      summary.levels++;
+      summary.subjects += level.subjects.length;
+      summary.runs = summarizeRuns([level], summary.runs);
+    } catch (error) {
+      summary.errors.push(`${where}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  };
+
+  const splitter = format === 'json-lines'
+    ? createLineSplitter(convertItem)
+    : createItemSplitter(convertItem, (message, line) => {
+      summary.errors.push(`line ${line}: ${message}`);
+    });
+
+  if (!stopped && options.includeSchema) {
+    sql(generateSchema(options));
+  }
+
+  return {
+    write: (chunk) => {
+      summary.characters += chunk.length;
+      if (!stopped) splitter.write(chunk);
+    },
+    end: () => {
+      if (stopped) return summary;
+      splitter.end();
+      if (started) {
+        if (options.transaction === 'script') sql(dialect.commitTransaction);
+        rollback(dialect.commitTransaction);
+      }
+      return summary;
+    },
+    progress: () => ({
+      characters: summary.characters,
+      items: summary.items,
+      levels: summary.levels,
+      subjects: summary.subjects,
+    }),
+  };
+};
@@ -0,0 +1,136 @@
+import { NormalizedLevel, TERM_KEYS, TermKey, TermLayout } from "./types";
+
+// Term structure of the school year. The standard format has three terms,
+// term_1_weeks..term_3_weeks; schools with two semesters or four quarters use
+// as many term_<n>_weeks keys as they have terms. Every subject of a level
+// gets one week list per term of the layout, and the SQL, DDL and
+// verification queries are generated for those terms.
+
+export interface TermOptions {
+  // Number of terms, or 'auto' for the highest term found in the input.
+  // Defaults to 3.
+  count?: number | 'auto';
+  // Display names in term order, "Term 1", "Term 2"... where missing
+  names?: string[];
+}
+
+export const MAX_TERMS = 12;
+
+export const termKey = (termNumber: number): TermKey => `term_${termNumber}_weeks`;
+
+// 1-based term of a term_<n>_weeks key, null for any other key
+export const termNumber = (key: string): number | null => {
+  const match = /^term_([1-9]\d*)_weeks$/.exec(key);
+  return match ? Number(match[1]) : null;
+};
+
+export const DEFAULT_TERMS: TermLayout = {
+  keys: TERM_KEYS,
+  names: TERM_KEYS.map((_, index) => `Term ${index + 1}`),
+};
+
+// A legacy week's `term` field: a whole number, or digits in a string
+export const readTermField = (value: unknown): number | null => {
+  if (typeof value === 'number' && value % 1 === 0) return value;
+  if (typeof value === 'string' && /^\s*\d+\s*$/.test(value)) return Number(value);
+  return null;
+};
+
+const parsedWeek = (week: unknown): unknown => {
+  if (typeof week !== 'string' || week.charAt(0) !== "{") return week;
+  try {
+    return JSON.parse(week);
+  } catch (error) {
+    // The week parser reports it
+    return null;
+  }
+};
+
+// The term a legacy week names in its `term` field; undefined without one
+export const legacyWeekTerm = (week: unknown): unknown => {
+  const value = parsedWeek(week);
+  return typeof value === 'object' && value !== null ? (value as Record<string, unknown>).term : undefined;
+};
+
+// Highest term a raw subject has weeks for: its term_<n>_weeks keys, and the
+// term fields of a legacy weeks array (term 1 for weeks without one)
+export const detectSubjectTerms = (subject: unknown): number => {
+  if (typeof subject !== 'object' || subject === null) return 0;
+  const record = subject as Record<string, unknown>;
+  const numbers = Object.keys(record).map(termNumber).filter((term): term is number => term !== null);
+  if (Array.isArray(record.weeks)) {
+    record.weeks.forEach((week) => {
+      const term = legacyWeekTerm(week);
+      numbers.push(term === undefined ? 1 : readTermField(term) || 0);
+    });
+  }
+  return numbers.reduce((highest, term) => Math.max(highest, term), 0);
+};
+
+// Problems with the term options, which would fail every item alike
+export const validateTermOptions = (options: TermOptions): string[] => {
+  const errors: string[] = [];
+  const count = options.count;
+  if (count !== undefined && count !== 'auto' && (typeof count !== 'number' || count % 1 !== 0 || count < 1 || count > MAX_TERMS)) {
+    errors.push(`The number of terms must be 'auto' or a whole number from 1 to ${MAX_TERMS}`);
+  }
+
+  const names = options.names || [];
+  if (typeof count === 'number' && names.length > count) {
+    errors.push(`${names.length} term names given for ${count} terms`);
+  }
+  if (names.length > MAX_TERMS) {
+    errors.push(`At most ${MAX_TERMS} term names can be given`);
+  }
+  names.forEach((name, index) => {
+    if (typeof name !== 'string' || !name.trim()) {
+      errors.push(`Term name ${index + 1} must be a non-empty string`);
+    } else if (names.indexOf(name) !== index) {
+      errors.push(`Term name '${name}' is used twice`);
+    }
+  });
+  return errors;
+};
+
+// The layout for the options. With count 'auto', `detected` is the highest
+// term found in the input (at least the number of names, and one term).
+export const resolveTerms = (options: TermOptions = {}, detected = 0): TermLayout => {
+  const names = options.names || [];
+  const count = options.count === 'auto'
+    ? Math.min(Math.max(detected, names.length, 1), MAX_TERMS)
+    : options.count || TERM_KEYS.length;
+  if (count === TERM_KEYS.length && names.length === 0) return DEFAULT_TERMS;
+
+  const keys: TermKey[] = [];
+  for (let term = 1; term <= count; term++) keys.push(termKey(term));
+  return {
+    keys,
+    names: keys.map((_, index) => (names[index] ? names[index].trim() : `Term ${index + 1}`)),
+  };
+};
+
+// Every term the options allow, for checking settings before the input is
+// read: with count 'auto', as many as MAX_TERMS
+export const allowedTerms = (options: TermOptions = {}): TermLayout => {
+  return resolveTerms(options.count === 'auto' ? { ...options, count: MAX_TERMS } : options);
+};
+
+// Display name of a term key in the layout, "Term n" outside it
+export const termName = (terms: TermLayout, key: TermKey): string => {
+  const index = terms.keys.indexOf(key);
+  return index === -1 ? `Term ${termNumber(key)}` : terms.names[index];
+};
+
+// The level with its subjects given the weeks of every term of `terms`; terms
+// a subject has no weeks for get an empty list
+export const withTerms = (level: NormalizedLevel, terms: TermLayout): NormalizedLevel => ({
+  ...level,
+  terms,
+  subjects: level.subjects.map((subject) => {
+    const aligned = { ...subject };
+    terms.keys.forEach((key) => {
+      if (!aligned[key]) aligned[key] = [];
+    });
+    return aligned;
+  }),
+});
@@ -0,0 +1,82 @@
+// Types shared by the conversion pipeline, the UI and the CLI
+
+export interface WeekData {
+  week_number: number;
+  topic: string | null;
+  breakdown: string | null;
+  note: string | null;
+}
+
+export interface BookData {
+  title: string;
+  author: string;
+  // Bare ISBN-13 digits when isbn_valid, otherwise the cleaned input
+  isbn: string;
+  isbn_valid: boolean;
+}
+
+// The weeks of term n are stored under term_<n>_weeks
+export type TermKey = `term_${number}_weeks`;
+
+// A week of the legacy `weeks` array, which may say which term it belongs to
+export interface LegacyWeekData extends WeekData {
+  term?: number;
+}
+
+// Subject as it arrives from the extraction output. Week and book arrays may
+// still contain JSON strings until they are run through the parsers.
+export interface SubjectData {
+  subject_name: string;
+  introduction: string;
+  [termKey: TermKey]: WeekData[];
+  recommended_books: BookData[];
+  weeks?: LegacyWeekData[];
+}
+
+export interface EducationalLevelData {
+  educational_level: string;
+  alternative_names: string[];
+  subjects: SubjectData[];
+}
+
+// The terms of the standard format
+export const TERM_KEYS: TermKey[] = ["term_1_weeks", "term_2_weeks", "term_3_weeks"];
+
+// The terms of a school year in order: two semesters, three terms, four
+// quarters... `names` are the display names, e.g. "Semester 1".
+export interface TermLayout {
+  keys: TermKey[];
+  names: string[];
+}
+
+// One fully parsed subject, shaped like a row of curriculum_data
+export interface SubjectRecord {
+  educational_level: string;
+  subject_name: string;
+  alternative_names: string[];
+  introduction: string;
+  // One entry per term of the level's layout
+  [termKey: TermKey]: WeekData[];
+  recommended_books: BookData[];
+}
+
+// Where a level came from: the extraction run, the file it was read from and
+// the extraction's usage statistics
+export interface Provenance {
+  run_id: string | null;
+  source_file: string | null;
+  // ISO 8601, UTC
+  imported_at: string;
+  pages_extracted: number | null;
+  output_tokens: number | null;
+}
+
+export interface NormalizedLevel {
+  educational_level: string;
+  alternative_names: string[];
+  subjects: SubjectRecord[];
+  // The terms every subject has weeks for
+  terms: TermLayout;
+  // Run, source file and usage of the extraction the level came from
+  provenance?: Provenance;
+}
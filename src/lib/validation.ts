@@ -0,0 +1,61 @@
+// Validation issues collected while parsing curriculum input. Every issue
+// carries the JSON path of the offending value and what the converter did
+// about it, so nothing is silently changed or dropped.
+
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+// 'auto-fixed': the value was repaired and kept
+// 'dropped':    the value was left out of the generated SQL
+// 'reported':   the value was kept unchanged but needs review
+// 'fatal':      the item cannot be converted
+export type IssueResolution = 'auto-fixed' | 'dropped' | 'reported' | 'fatal';
+
+export interface ValidationIssue {
+  path: string;
+  severity: IssueSeverity;
+  resolution: IssueResolution;
+  message: string;
+  // Name of the content check that raised the issue, for lint issues
+  rule?: string;
+}
+
+// Where parsers report issues: the JSON path of the value being parsed and
+// the list shared by the whole conversion.
+export interface IssueContext {
+  path: string;
+  issues: ValidationIssue[];
+}
+
+export const childPath = (path: string, key: string | number): string => {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+};
+
+export const childContext = (context: IssueContext, key: string | number): IssueContext => {
+  return { path: childPath(context.path, key), issues: context.issues };
+};
+
+export const reportIssue = (
+  context: IssueContext | undefined,
+  severity: IssueSeverity,
+  resolution: IssueResolution,
+  message: string,
+  key?: string | number,
+) => {
+  if (!context) return;
+  const path = key === undefined ? context.path : childPath(context.path, key);
+  context.issues.push({ path: path || '(root)', severity, resolution, message });
+};
+
+export const isFatal = (issue: ValidationIssue): boolean => issue.resolution === 'fatal';
+
+const SEVERITY_ICONS: Record<IssueSeverity, string> = {
+  error: '❌',
+  warning: '⚠️',
+  info: 'ℹ️',
+};
+
+export const formatIssue = (issue: ValidationIssue): string => {
+  const rule = issue.rule ? ` [${issue.rule}]` : "";
+  return `${SEVERITY_ICONS[issue.severity]} ${issue.path}: ${issue.message} (${issue.resolution})${rule}`;
+};
@@ -0,0 +1,85 @@
+import { Dialect } from "./dialects";
+import { NormalizedLevel } from "./types";
+
+// Builds a query that compares the per-subject week and book counts of the
+// converted input with what is actually in the database, one row per subject
+// with status OK, MISMATCH or MISSING.
+
+export interface ActualCounts {
+  // Table (with alias `c`) holding one row per subject, joined on level and subject name
+  table: string;
+  // Expressions for the stored counts; `e` is the expected row, `c` the subject row
+  termWeeks: (termNumber: number) => string;
+  books: string;
+  // Key column names of the subject table, educational_level and subject_name by default
+  levelColumn?: string;
+  subjectColumn?: string;
+  // Further join conditions on `c`, e.g. a tenant column
+  conditions?: string[];
+}
+
+const INDENT = "    ";
+
+export const generateExpectedCountsSQL = (
+  level: NormalizedLevel,
+  dialect: Dialect,
+  actual: ActualCounts,
+): string[] => {
+  // A CTE needs at least one row
+  if (level.subjects.length === 0) return [];
+
+  const termColumns = level.terms.keys.map((_, index) => `term${index + 1}_weeks`);
+  const columns = ["educational_level", "subject_name", ...termColumns, "books"];
+
+  const expectedRows = level.subjects.map((subject, index) => {
+    const values = [
+      dialect.text(subject.educational_level),
+      dialect.text(subject.subject_name),
+      ...level.terms.keys.map((termKey) => String(subject[termKey].length)),
+      String(subject.recommended_books.length),
+    ];
+    return `${INDENT}${index === 0 ? "" : "UNION ALL "}SELECT ${values.join(", ")}`;
+  });
+
+  const countColumns: string[] = [];
+  termColumns.forEach((column, index) => {
+    countColumns.push(`${INDENT}e.${column} AS expected_${column},`);
+    countColumns.push(`${INDENT}${actual.termWeeks(index + 1)} AS actual_${column},`);
+  });
+
+  const levelColumn = actual.levelColumn || "educational_level";
+  const subjectColumn = actual.subjectColumn || "subject_name";
+  const join = [
+    `c.${levelColumn} = e.educational_level`,
+    `c.${subjectColumn} = e.subject_name`,
+    ...(actual.conditions || []),
+  ];
+
+  const comparisons = [
+    ...termColumns.map((column, index) => `${actual.termWeeks(index + 1)} = e.${column}`),
+    `${actual.books} = e.books`,
+  ];
+
+  return [
+    "",
+    "-- Compare the stored counts with the converted input",
+    `WITH expected (${columns.join(", ")}) AS (`,
+    ...expectedRows,
+    ")",
+    "SELECT",
+    `${INDENT}e.educational_level,`,
+    `${INDENT}e.subject_name,`,
+    ...countColumns,
+    `${INDENT}e.books AS expected_books,`,
+    `${INDENT}${actual.books} AS actual_books,`,
+    `${INDENT}CASE`,
+    `${INDENT}${INDENT}WHEN c.${subjectColumn} IS NULL THEN 'MISSING'`,
+    `${INDENT}${INDENT}WHEN ${comparisons.join(`\n${INDENT}${INDENT}${INDENT}AND `)} THEN 'OK'`,
+    `${INDENT}${INDENT}ELSE 'MISMATCH'`,
+    `${INDENT}END AS status`,
+    "FROM expected e",
+    `LEFT JOIN ${actual.table} c`,
+    `${INDENT}ON ${join.join(" AND ")}`,
+    "ORDER BY e.subject_name;",
+  ];
+};
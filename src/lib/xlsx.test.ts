@@ -0,0 +1,109 @@
+import { deflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { readXlsxSheet } from "./xlsx";
+
+// A ZIP archive of the given entries, stored (method 0) or deflated (method 8).
+// The reader does not check CRCs, so they are left at 0.
+const zip = (entries: Array<{ name: string, text: string, deflate?: boolean }>): Uint8Array => {
+  const locals: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+  entries.forEach(({ name, text, deflate }) => {
+    const fileName = Buffer.from(name, "utf8");
+    const content = deflate ? deflateRawSync(Buffer.from(text, "utf8")) : Buffer.from(text, "utf8");
+    const size = Buffer.byteLength(text, "utf8");
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(deflate ? 8 : 0, 8);
+    local.writeUInt32LE(content.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(fileName.length, 26);
+    locals.push(local, fileName, content);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(deflate ? 8 : 0, 10);
+    central.writeUInt32LE(content.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+    directory.push(central, fileName);
+
+    offset += local.length + fileName.length + content.length;
+  });
+
+  const directorySize = directory.reduce((total, part) => total + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+  return new Uint8Array(Buffer.concat([...locals, ...directory, end]));
+};
+
+const WORKBOOK = `<?xml version="1.0" encoding="UTF-8"?>
+<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheets><sheet name="Notes" sheetId="1" r:id="rId1"/><sheet name="Scheme" sheetId="2" r:id="rId2"/></sheets>
+</workbook>`;
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships>
+  <Relationship Id="rId1" Target="worksheets/sheet1.xml"/>
+  <Relationship Id="rId2" Target="/xl/worksheets/scheme.xml"/>
+</Relationships>`;
+
+const SHARED_STRINGS = `<?xml version="1.0" encoding="UTF-8"?>
+<sst><si><t>Class</t></si><si><t>Subject</t></si><si><r><t>Primary </t></r><r><t xml:space="preserve">1</t></r><rPh><t>ignored</t></rPh></si><si/><si><t>Maths &amp; Numbers</t></si></sst>`;
+
+const NOTES = `<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Read me</t></is></c></row></sheetData></worksheet>`;
+
+// Row 3 is missing, B4 is skipped and C2 is a trailing empty cell
+const SCHEME = `<worksheet><sheetData>
+  <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>Week</t></is></c></row>
+  <row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2" t="s"><v>4</v></c><c r="C2" t="s"><v>3</v></c></row>
+  <row r="4"><c r="A4" t="b"><v>1</v></c><c r="C4"><f>1+1</f><v>2</v></c><c r="D4" t="str"><v>&lt;b&gt; &#233;</v></c></row>
+</sheetData></worksheet>`;
+
+const workbook = (deflate: boolean) => zip([
+  { name: "[Content_Types].xml", text: "<Types/>" },
+  { name: "xl/workbook.xml", text: WORKBOOK, deflate },
+  { name: "xl/_rels/workbook.xml.rels", text: RELATIONSHIPS, deflate },
+  { name: "xl/sharedStrings.xml", text: SHARED_STRINGS, deflate },
+  { name: "xl/worksheets/sheet1.xml", text: NOTES, deflate },
+  { name: "xl/worksheets/scheme.xml", text: SCHEME, deflate },
+]);
+
+const SCHEME_ROWS = [
+  ["Class", "Subject", "Week"],
+  ["Primary 1", "Maths & Numbers"],
+  [],
+  ["TRUE", "", "2", "<b> é"],
+];
+
+describe("readXlsxSheet", () => {
+  it.each([false, true])("reads a named worksheet (deflated: %s)", async (deflate) => {
+    expect(await readXlsxSheet(workbook(deflate), "Scheme")).toEqual(SCHEME_ROWS);
+  });
+
+  it("reads the first worksheet by default", async () => {
+    expect(await readXlsxSheet(workbook(true).buffer as ArrayBuffer)).toEqual([["Read me"]]);
+  });
+
+  it("falls back to sheet1.xml without a workbook", async () => {
+    const data = zip([{ name: "xl/worksheets/sheet1.xml", text: SCHEME.replace(/ t="s"/g, "") }]);
+    expect((await readXlsxSheet(data))[1]).toEqual(["2", "4", "3"]);
+  });
+
+  it("reports a missing worksheet", async () => {
+    await expect(readXlsxSheet(workbook(false), "Answers")).rejects.toThrow("Worksheet 'Answers' not found");
+  });
+
+  it("reports a file that is not a ZIP archive", async () => {
+    await expect(readXlsxSheet(new TextEncoder().encode("Class,Subject\n"))).rejects.toThrow("Not an XLSX file (no ZIP directory found)");
+  });
+});
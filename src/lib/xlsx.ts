@@ -0,0 +1,184 @@
+// Minimal XLSX reader: enough of the ZIP container and SpreadsheetML to get
+// the cell text of one worksheet. Formulas are read as their cached values and
+// formatting is ignored. Deflated entries are unpacked with the platform's
+// DecompressionStream, which reads raw deflate data in browsers and Node 20.12+.
+
+const textDecoder = new TextDecoder("utf-8");
+
+const uint16 = (data: Uint8Array, offset: number): number => data[offset] | (data[offset + 1] << 8);
+
+const uint32 = (data: Uint8Array, offset: number): number => (uint16(data, offset) + uint16(data, offset + 2) * 0x10000);
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  let decompression: DecompressionStream;
+  try {
+    decompression = new DecompressionStream("deflate-raw");
+  } catch (error) {
+    throw new Error("Reading XLSX files needs Node 20.12 or later (DecompressionStream with 'deflate-raw')");
+  }
+  const stream = new Blob([data.slice()]).stream().pipeThrough(decompression);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Reads the central directory and returns a lookup for the entries by name
+const openZip = (data: Uint8Array) => {
+  let end = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+    if (uint32(data, offset) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) throw new Error("Not an XLSX file (no ZIP directory found)");
+
+  const entries: Record<string, { method: number, size: number, offset: number }> = {};
+  let offset = uint32(data, end + 16);
+  for (let count = uint16(data, end + 10); count > 0; count--) {
+    if (uint32(data, offset) !== 0x02014b50) throw new Error("Damaged XLSX file (bad ZIP directory)");
+    const nameLength = uint16(data, offset + 28);
+    const name = textDecoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    entries[name] = {
+      method: uint16(data, offset + 10),
+      size: uint32(data, offset + 20),
+      offset: uint32(data, offset + 42),
+    };
+    offset += 46 + nameLength + uint16(data, offset + 30) + uint16(data, offset + 32);
+  }
+
+  return async (name: string): Promise<string | null> => {
+    const entry = entries[name];
+    if (!entry) return null;
+    const start = entry.offset + 30 + uint16(data, entry.offset + 26) + uint16(data, entry.offset + 28);
+    const content = data.subarray(start, start + entry.size);
+    if (entry.method === 0) return textDecoder.decode(content);
+    if (entry.method === 8) return textDecoder.decode(await inflateRaw(content));
+    throw new Error(`Unsupported ZIP compression method ${entry.method} for ${name}`);
+  };
+};
+
+const decodeXml = (text: string): string => {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower === "amp") return "&";
+    if (lower === "lt") return "<";
+    if (lower === "gt") return ">";
+    if (lower === "quot") return '"';
+    if (lower === "apos") return "'";
+    const code = lower.charAt(1) === "x" ? parseInt(lower.slice(2), 16) : parseInt(lower.slice(1), 10);
+    return isNaN(code) ? match : String.fromCharCode(code);
+  });
+};
+
+const attribute = (attributes: string, name: string): string | null => {
+  const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes);
+  return match ? decodeXml(match[1]) : null;
+};
+
+// Text of all <t> elements, which covers plain and rich-text strings.
+// Phonetic hints (<rPh>) are not part of the text.
+const elementText = (xml: string): string => {
+  const text: string[] = [];
+  const pattern = /<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g;
+  const source = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "");
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    text.push(decodeXml(match[1]));
+  }
+  return text.join("");
+};
+
+// "C12" -> 2 (zero-based column)
+const columnIndex = (reference: string): number => {
+  const letters = /^[A-Z]+/i.exec(reference);
+  if (!letters) return -1;
+  return letters[0].toUpperCase().split("").reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const readSharedStrings = (xml: string | null): string[] => {
+  if (!xml) return [];
+  const strings: string[] = [];
+  const pattern = /<si>([\s\S]*?)<\/si>|<si\/>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    strings.push(match[1] ? elementText(match[1]) : "");
+  }
+  return strings;
+};
+
+// Path of the named worksheet (or the first one) inside the archive
+const findSheetPath = (workbook: string | null, relationships: string | null, sheetName?: string): string => {
+  const fallback = "xl/worksheets/sheet1.xml";
+  if (!workbook || !relationships) return fallback;
+
+  const sheets: Array<{ name: string, id: string }> = [];
+  const sheetPattern = /<sheet\b([^>]*)\/?>/g;
+  let match: RegExpExecArray | null;
+  while ((match = sheetPattern.exec(workbook)) !== null) {
+    sheets.push({ name: attribute(match[1], "name") || "", id: attribute(match[1], "r:id") || "" });
+  }
+
+  const sheet = sheetName ? sheets.filter((candidate) => candidate.name === sheetName)[0] : sheets[0];
+  if (!sheet) throw new Error(`Worksheet '${sheetName}' not found`);
+
+  const relationPattern = /<Relationship\b([^>]*)\/?>/g;
+  while ((match = relationPattern.exec(relationships)) !== null) {
+    if (attribute(match[1], "Id") === sheet.id) {
+      const target = attribute(match[1], "Target") || "";
+      return target.charAt(0) === "/" ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return fallback;
+};
+
+// Cell text of one worksheet, row by row. Empty cells are "", and rows are as
+// long as their last non-empty cell.
+export const readXlsxSheet = async (data: ArrayBuffer | Uint8Array, sheetName?: string): Promise<string[][]> => {
+  const readEntry = openZip(data instanceof Uint8Array ? data : new Uint8Array(data));
+  const sharedStrings = readSharedStrings(await readEntry("xl/sharedStrings.xml"));
+  const sheetPath = findSheetPath(
+    await readEntry("xl/workbook.xml"),
+    await readEntry("xl/_rels/workbook.xml.rels"),
+    sheetName,
+  );
+  const sheet = await readEntry(sheetPath);
+  if (!sheet) throw new Error(`Worksheet ${sheetPath} missing from the file`);
+
+  const rows: string[][] = [];
+  const rowPattern = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g;
+  const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+  let rowMatch: RegExpExecArray | null;
+
+  while ((rowMatch = rowPattern.exec(sheet)) !== null) {
+    const rowNumber = Number(attribute(rowMatch[1], "r")) || rows.length + 1;
+    const cells: string[] = [];
+    let cellMatch: RegExpExecArray | null;
+    cellPattern.lastIndex = 0;
+
+    while ((cellMatch = cellPattern.exec(rowMatch[2] || "")) !== null) {
+      const reference = attribute(cellMatch[1], "r");
+      const column = reference ? columnIndex(reference) : cells.length;
+      const type = attribute(cellMatch[1], "t");
+      const content = cellMatch[2] || "";
+      const valueMatch = /<v>([\s\S]*?)<\/v>/.exec(content);
+      const value = valueMatch ? decodeXml(valueMatch[1]) : "";
+
+      let text = value;
+      if (type === "s") {
+        text = sharedStrings[Number(value)] || "";
+      } else if (type === "inlineStr") {
+        text = elementText(content);
+      } else if (type === "b") {
+        text = value === "1" ? "TRUE" : "FALSE";
+      }
+
+      while (cells.length < column) cells.push("");
+      cells[column] = text;
+    }
+
+    while (rows.length < rowNumber - 1) rows.push([]);
+    while (cells.length > 0 && cells[cells.length - 1] === "") cells.pop();
+    rows.push(cells);
+  }
+
+  return rows;
+};
@@ -0,0 +1,94 @@
+import { ConvertOptions } from "@/lib/convert";
+import { createStreamConverter, StreamSummary } from "@/lib/stream";
+import { ValidationIssue } from "@/lib/validation";
+
+// Converts a large upload off the main thread. The file is read as a stream
+// and the generated SQL is collected into Blobs, which the browser may keep
+// on disk, so neither the input nor the output has to fit in one string.
+
+export interface ConvertWorkerRequest {
+  file: File;
+  options: ConvertOptions;
+}
+
+export type ConvertWorkerMessage =
+  | { type: 'progress', bytes: number, total: number, levels: number }
+  | {
+    type: 'done',
+    sql: Blob,
+    verification: Blob,
+    rollback: Blob,
+    summary: StreamSummary,
+    // The first issues found, for display
+    issues: ValidationIssue[],
+  }
+  | { type: 'error', message: string };
+
+// Text parts are folded into a Blob every few megabytes
+const BLOB_PART_SIZE = 8 * 1024 * 1024;
+const MAX_ISSUES = 500;
+
+const createBlobWriter = () => {
+  let blobs: Blob[] = [];
+  let parts: string[] = [];
+  let size = 0;
+  return {
+    write: (text: string) => {
+      parts.push(text);
+      size += text.length;
+      if (size >= BLOB_PART_SIZE) {
+        blobs = [new Blob([...blobs, ...parts])];
+        parts = [];
+        size = 0;
+      }
+    },
+    blob: (type: string): Blob => new Blob([...blobs, ...parts], { type }),
+  };
+};
+
+const worker = self as unknown as {
+  onmessage: ((event: MessageEvent<ConvertWorkerRequest>) => void) | null;
+  postMessage: (message: ConvertWorkerMessage) => void;
+};
+
+worker.onmessage = async (event) => {
+  const { file, options } = event.data;
+  const sql = createBlobWriter();
+  const verification = createBlobWriter();
+  const rollback = createBlobWriter();
+  const issues: ValidationIssue[] = [];
+
+  try {
+    const converter = createStreamConverter(options, {
+      sql: sql.write,
+      verification: verification.write,
+      rollback: rollback.write,
+      issue: (issue) => {
+        if (issues.length < MAX_ISSUES) issues.push(issue);
+      },
+    }, /\.(jsonl|ndjson)$/i.test(file.name) ? 'json-lines' : 'json');
+
+    const reader = file.stream().getReader();
+    const decoder = new TextDecoder();
+    let bytes = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytes += value.length;
+      converter.write(decoder.decode(value, { stream: true }));
+      worker.postMessage({ type: 'progress', bytes, total: file.size, levels: converter.progress().levels });
+    }
+    converter.write(decoder.decode());
+
+    worker.postMessage({
+      type: 'done',
+      sql: sql.blob("application/sql"),
+      verification: verification.blob("application/sql"),
+      rollback: rollback.blob("application/sql"),
+      summary: converter.end(),
+      issues,
+    });
+  } catch (error) {
+    worker.postMessage({ type: 'error', message: error instanceof Error ? error.message : "Unknown error" });
+  }
+};